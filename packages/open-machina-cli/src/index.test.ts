@@ -1,7 +1,8 @@
 import { expect, test } from "bun:test"
-import { mkdtemp, readFile, rm } from "node:fs/promises"
-import { tmpdir } from "node:os"
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { hostname, tmpdir } from "node:os"
 import { join } from "node:path"
+import { DecisionLedger, MemoryStore, PersonaService, type OrchestrationInput } from "open-machina-shared"
 import { banner, runCli } from "./index"
 
 type WorkflowLog = {
@@ -56,6 +57,8 @@ test("runCli workflow list exposes at least five concrete workflows", async () =
   expect(payload.workflows).toContain("storage.migrate")
   expect(payload.workflows).toContain("storage.integrity")
   expect(payload.workflows).toContain("storage.compact")
+  expect(payload.workflows).toContain("memory.consolidate")
+  expect(payload.workflows).toContain("maintenance.nightly")
   expect(payload.workflows.length).toBeGreaterThanOrEqual(5)
 })
 
@@ -177,8 +180,35 @@ test("five core workflows run end-to-end through CLI with operation logs", async
   }
 })
 
+test("memory consolidate distills episodic records through the workflow engine", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-consolidate-"))
+
+  try {
+    const store = new MemoryStore({ storageDir })
+    await store.append({ id: "e1", userId: "u1", shard: "episodic", content: "Nightly backup job timed out", tags: ["backup"], weight: 0.5 })
+    await store.append({ id: "e2", userId: "u1", shard: "episodic", content: "Backup job timed out overnight", tags: ["backup"], weight: 0.5 })
+
+    const out = await runCli(["memory", "consolidate", "--user=u1", "--mode=archive", `--storage-dir=${storageDir}`])
+    expect(out.code).toBe(0)
+    const payload = JSON.parse(out.stdout) as {
+      status: string
+      result: { summaries: Array<{ sourceIds: string[] }>; archived: string[] }
+      log: WorkflowLog
+    }
+    expect(payload.log.workflowName).toBe("memory.consolidate")
+    expect(payload.result.summaries[0]?.sourceIds).toEqual(["e1", "e2"])
+    expect(payload.result.archived).toEqual(["e1", "e2"])
+
+    const invalid = await runCli(["memory", "consolidate", "--mode=shred", `--storage-dir=${storageDir}`])
+    expect(invalid.code).toBe(1)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
 test("runCli workflow cancel-smoke cancels and leaves no orphan process", async () => {
-  const out = await runCli(["workflow", "cancel-smoke", "--cancel-after-ms=100"])
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-cancel-smoke-"))
+  const out = await runCli(["workflow", "cancel-smoke", "--cancel-after-ms=100", `--storage-dir=${storageDir}`])
   expect(out.code).toBe(0)
 
   const payload = JSON.parse(out.stdout) as {
@@ -197,6 +227,169 @@ test("runCli workflow cancel-smoke cancels and leaves no orphan process", async
   expect(payload.log.workflowName).toBe("long-running")
   expect(payload.log.status).toBe("cancelled")
   expect(payload.log.operationId.startsWith("op-long-running-")).toBe(true)
+
+  const runs = await runCli(["workflow", "runs", "--workflow=long-running", `--storage-dir=${storageDir}`])
+  const listed = JSON.parse(runs.stdout) as { runs: Array<{ operationId: string; status: string; transitions: Array<{ status: string }> }> }
+  expect(listed.runs).toHaveLength(1)
+  expect(listed.runs[0]?.operationId).toBe(payload.log.operationId)
+  expect(listed.runs[0]?.transitions.map((entry) => entry.status)).toEqual(["queued", "running", "cancelled"])
+  await rm(storageDir, { recursive: true, force: true })
+})
+
+test("workflow recover marks interrupted runs failed and resumes idempotent storage workflows", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-recover-"))
+
+  try {
+    const operationId = "op-storage-migrate-interrupted"
+    await mkdir(join(storageDir, "workflow-runs"), { recursive: true })
+    await writeFile(
+      join(storageDir, "workflow-runs", `${operationId}.json`),
+      JSON.stringify({
+        schemaVersion: 1,
+        operationId,
+        workflowName: "storage.migrate",
+        status: "running",
+        queuedAt: "2026-02-11T10:00:00.000Z",
+        startedAt: "2026-02-11T10:00:00.000Z",
+        updatedAt: "2026-02-11T10:00:00.000Z",
+        owner: { pid: 2 ** 30, hostname: hostname() },
+        transitions: [
+          { status: "queued", at: "2026-02-11T10:00:00.000Z" },
+          { status: "running", at: "2026-02-11T10:00:00.000Z" },
+        ],
+        input: { storageDir },
+      }),
+    )
+
+    const out = await runCli(["workflow", "recover", "--resume=true", `--storage-dir=${storageDir}`])
+    expect(out.code).toBe(0)
+    const recovery = JSON.parse(out.stdout) as {
+      interrupted: Array<{ operationId: string; workflowName: string }>
+      resumed: Array<{ status: string; log: WorkflowLog }>
+    }
+    expect(recovery.interrupted).toEqual([{ operationId, workflowName: "storage.migrate" }])
+    expect(recovery.resumed[0]?.status).toBe("completed")
+
+    const failed = JSON.parse((await runCli(["workflow", "runs", "--status=failed", `--storage-dir=${storageDir}`])).stdout) as {
+      runs: Array<{ operationId: string; interrupted?: boolean; error?: string }>
+    }
+    expect(failed.runs).toEqual([
+      expect.objectContaining({ operationId, interrupted: true, error: expect.stringContaining("WORKFLOW_INTERRUPTED") }),
+    ])
+
+    const resumed = JSON.parse((await runCli(["workflow", "runs", "--status=completed", `--storage-dir=${storageDir}`])).stdout) as {
+      runs: Array<{ operationId: string; resumeOf?: string }>
+    }
+    expect(resumed.runs[0]?.resumeOf).toBe(operationId)
+    expect(resumed.runs[0]?.operationId).toBe(recovery.resumed[0]?.log.operationId)
+
+    const invalid = await runCli(["workflow", "runs", "--status=paused", `--storage-dir=${storageDir}`])
+    expect(invalid.code).toBe(1)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("workflow resume continues a failed storage migration from its checkpoint", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-resume-"))
+
+  try {
+    expect((await runCli(["storage", "migrate", `--storage-dir=${storageDir}`])).code).toBe(0)
+    const operationId = "op-storage-migrate-failed"
+    const progress = { status: "up-to-date", fromVersion: 3, toVersion: 3, recovered: false, applied: [] }
+    await writeFile(
+      join(storageDir, "workflow-runs", `${operationId}.json`),
+      JSON.stringify({
+        schemaVersion: 1,
+        operationId,
+        workflowName: "storage.migrate",
+        status: "failed",
+        queuedAt: "2026-02-11T10:00:00.000Z",
+        updatedAt: "2026-02-11T10:00:01.000Z",
+        owner: { pid: process.pid, hostname: hostname() },
+        transitions: [{ status: "failed", at: "2026-02-11T10:00:01.000Z" }],
+        input: { storageDir },
+        error: "MIGRATION_FAILED: disk full",
+        checkpoint: { completedSteps: ["prepare"], state: progress, at: "2026-02-11T10:00:00.500Z" },
+      }),
+    )
+
+    const out = await runCli(["workflow", "resume", operationId, `--storage-dir=${storageDir}`])
+    expect(out.code).toBe(0)
+    const payload = JSON.parse(out.stdout) as { status: string; result: unknown; completedSteps: string[]; log: WorkflowLog }
+    expect(payload.status).toBe("completed")
+    expect(payload.result).toEqual(progress)
+    expect(payload.completedSteps).toEqual(["prepare", "v1-to-v2", "v2-to-v3"])
+
+    const again = await runCli(["workflow", "resume", payload.log.operationId, `--storage-dir=${storageDir}`])
+    expect(again.code).toBe(2)
+    expect(again.stderr).toContain("WORKFLOW_RUN_NOT_RESUMABLE")
+
+    const unknown = await runCli(["workflow", "resume", "op-missing", `--storage-dir=${storageDir}`])
+    expect(unknown.code).toBe(2)
+    expect(unknown.stderr).toContain("WORKFLOW_RUN_NOT_FOUND")
+    expect((await runCli(["workflow", "resume"])).code).toBe(1)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("workflow schedule add, list, tick and remove drive persisted cron schedules", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-schedule-"))
+
+  try {
+    const added = await runCli([
+      "workflow",
+      "schedule",
+      "add",
+      "storage.integrity",
+      "--cron=@yearly",
+      "--id=yearly-integrity",
+      "--missed=catch-up",
+      `--storage-dir=${storageDir}`,
+    ])
+    expect(added.code).toBe(0)
+    expect((JSON.parse(added.stdout) as { schedule: { missedRuns: string } }).schedule.missedRuns).toBe("catch-up")
+
+    const nightly = await runCli(["workflow", "schedule", "add", "maintenance.nightly", `--storage-dir=${storageDir}`])
+    const nightlySchedule = (JSON.parse(nightly.stdout) as { schedule: { id: string; cron: string; missedRuns: string } }).schedule
+    expect(nightlySchedule).toMatchObject({ cron: "@daily", missedRuns: "skip" })
+
+    expect((await runCli(["workflow", "schedule", "add", "storage.integrity", "--missed=later", `--storage-dir=${storageDir}`])).code).toBe(1)
+    const unknown = await runCli(["workflow", "schedule", "add", "nope", "--cron=@daily", `--storage-dir=${storageDir}`])
+    expect(unknown.code).toBe(2)
+    expect(unknown.stderr).toContain("SCHEDULE_WORKFLOW_UNKNOWN")
+
+    const schedulesFile = join(storageDir, "workflow-schedules.json")
+    const stored = JSON.parse(await readFile(schedulesFile, "utf8")) as { schedules: Array<{ id: string; createdAt: string }> }
+    stored.schedules = stored.schedules.filter((schedule) => schedule.id === "yearly-integrity" || schedule.id === nightlySchedule.id)
+    for (const schedule of stored.schedules) {
+      schedule.createdAt =
+        schedule.id === "yearly-integrity" ? `${new Date().getUTCFullYear() - 1}-12-31T00:00:00.000Z` : "2023-06-01T00:00:00.000Z"
+    }
+    await writeFile(schedulesFile, JSON.stringify(stored))
+
+    const tick = await runCli(["workflow", "schedule", "tick", `--storage-dir=${storageDir}`])
+    expect(tick.code).toBe(0)
+    const fired = (JSON.parse(tick.stdout) as { fired: Array<{ scheduleId: string; status: string; operationId: string }> }).fired
+    const yearly = fired.filter((entry) => entry.scheduleId === "yearly-integrity")
+    expect(yearly).toHaveLength(1)
+    expect(yearly[0]).toMatchObject({ status: "completed" })
+
+    const listed = JSON.parse((await runCli(["workflow", "schedule", "list", `--storage-dir=${storageDir}`])).stdout) as {
+      schedules: Array<{ id: string; skippedRuns: number; lastRun?: { operationId: string } }>
+    }
+    const byId = new Map(listed.schedules.map((schedule) => [schedule.id, schedule]))
+    expect(byId.get("yearly-integrity")).toMatchObject({ skippedRuns: 0, lastRun: { operationId: yearly[0]?.operationId } })
+    expect(byId.get(nightlySchedule.id)?.skippedRuns).toBeGreaterThan(0)
+
+    expect((await runCli(["workflow", "schedule", "remove", "yearly-integrity", `--storage-dir=${storageDir}`])).code).toBe(0)
+    const missing = await runCli(["workflow", "schedule", "remove", "yearly-integrity", `--storage-dir=${storageDir}`])
+    expect(missing.code).toBe(2)
+    expect(missing.stderr).toContain("SCHEDULE_NOT_FOUND")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
 })
 
 test("channel connectors command lists matrix and discord", async () => {
@@ -758,8 +951,140 @@ test("tool run privileged denial redacts secrets and records deterministic denia
   }
 })
 
+test("memory command group curates records with JSON output", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-memory-"))
+  const run = (...argv: string[]) => runCli(["memory", ...argv, `--storage-dir=${storageDir}`])
+
+  try {
+    const added = await run("add", "--id=m1", "--user=u1", "--shard=procedural", "--content=Run storage migrate before deploys", "--tags=deploy,storage")
+    expect(added.code).toBe(0)
+    expect((JSON.parse(added.stdout) as { tags: string[]; weight: number }).tags).toEqual(["deploy", "storage"])
+    await run("add", "--id=m2", "--user=u1", "--shard=semantic", "--content=Project goal is orchestration", "--weight=0.9")
+    await run("add", "--id=m3", "--user=u2", "--shard=semantic", "--content=Deploys happen on Fridays")
+
+    const listed = JSON.parse((await run("list", "--user=u1")).stdout) as { total: number; records: Array<{ id: string }> }
+    expect(listed.records.map((record) => record.id)).toEqual(["m1", "m2"])
+    expect(JSON.parse((await run("list", "--tag=deploy")).stdout).total).toBe(1)
+
+    const tagged = JSON.parse((await run("tag", "m1", "--add=ops", "--remove=storage")).stdout) as { tags: string[] }
+    expect(tagged.tags).toEqual(["deploy", "ops"])
+
+    const search = await run("search", "--query=deploys", "--user=u1", "--limit=1")
+    expect(search.code).toBe(0)
+    expect((JSON.parse(search.stdout) as { records: Array<{ id: string }> }).records.map((record) => record.id)).toEqual(["m1"])
+
+    const mixed = await run("search", "--query=deploys")
+    expect(mixed.code).toBe(2)
+    expect(mixed.stderr ?? "").toContain("MEMORY_CROSS_USER_CONTEXT")
+    expect((JSON.parse((await run("search", "--query=deploys", "--all-users=true", "--limit=2")).stdout) as { records: unknown[] }).records).toHaveLength(2)
+
+    expect((await run("forget", "m2")).code).toBe(0)
+    const missing = await run("show", "m2")
+    expect(missing.code).toBe(2)
+    expect((JSON.parse(missing.stdout) as { code: string }).code).toBe("MEMORY_RECORD_NOT_FOUND")
+
+    const invalidShard = await run("add", "--user=u1", "--shard=dreams", "--content=nope")
+    expect(invalidShard.code).toBe(1)
+    expect(invalidShard.stderr ?? "").toContain("Invalid --shard")
+    for (const weight of ["1.5", "-0.2", "heavy"]) {
+      const invalidWeight = await run("add", "--user=u1", "--shard=semantic", "--content=nope", `--weight=${weight}`)
+      expect(invalidWeight.code).toBe(1)
+      expect(invalidWeight.stderr ?? "").toContain("Invalid --weight")
+    }
+    expect((await run("list", "--shard=dreams")).code).toBe(1)
+    expect(JSON.parse((await run("list", "--user=u1")).stdout).total).toBe(1)
+
+    expect((await run("search")).code).toBe(1)
+    expect((await run("rummage")).code).toBe(1)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("memory export and erase require privileged approval and are audited", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-memory-privacy-"))
+
+  try {
+    const store = new MemoryStore({ storageDir })
+    await store.append({ id: "a1", userId: "alice", shard: "semantic", content: "Alice prefers Bun", tags: ["tooling"], weight: 1 })
+    await store.append({ id: "b1", userId: "bob", shard: "semantic", content: "Bob prefers Node", tags: ["tooling"], weight: 1 })
+    await new PersonaService({ storageDir, writeDebounceMs: 0 }).observe("Keep the release checklist concise")
+    const ledger = new DecisionLedger({ storageDir })
+    for (const [userId, prompt] of [
+      ["alice", "Alice asks about Bun"],
+      ["bob", "Bob asks about Node"],
+    ]) {
+      await ledger.record(
+        {
+          now: "2026-02-11T10:00:00.000Z",
+          userMessage: prompt!,
+          userIntent: "question",
+          persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+          activeWork: [],
+          systemState: {},
+        },
+        { prompt: prompt!, responses: [], decision: null, repaired: false, latencyMs: 1 },
+        { source: "chat.message", userId },
+      )
+    }
+
+    const missingUser = await runCli(["memory", "export", `--storage-dir=${storageDir}`])
+    expect(missingUser.code).toBe(1)
+    expect(missingUser.stderr ?? "").toContain("Missing required arg")
+
+    const denied = await runCli(["memory", "erase", "--user=alice", "--actor=ops-user", `--storage-dir=${storageDir}`])
+    expect(denied.code).toBe(3)
+    expect((JSON.parse(denied.stdout) as { code: string }).code).toBe("POLICY_DENIED")
+    expect(await store.get("a1")).not.toBeNull()
+
+    const outputPath = join(storageDir, "alice-export.jsonl")
+    const exported = await runCli([
+      "memory",
+      "export",
+      "--user=alice",
+      "--approve=true",
+      "--actor=ops-user",
+      `--output=${outputPath}`,
+      `--storage-dir=${storageDir}`,
+    ])
+    expect(exported.code).toBe(0)
+    expect((JSON.parse(exported.stdout) as { result: { count: number } }).result.count).toBe(1)
+    const bundle = (await readFile(outputPath, "utf8")).trim().split("\n")
+    expect(bundle).toHaveLength(2)
+    expect(bundle[1]).toContain("Alice prefers Bun")
+    expect(bundle.join("\n")).not.toContain("bob")
+    expect(bundle.join("\n")).not.toContain("persona")
+
+    const erased = await runCli(["memory", "erase", "--user=alice", "--approve=true", "--actor=ops-user", `--storage-dir=${storageDir}`])
+    expect(erased.code).toBe(0)
+    const eraseReport = (JSON.parse(erased.stdout) as { result: Record<string, unknown> }).result
+    expect(eraseReport).toMatchObject({ erased: ["a1"], ledgerPromptsErased: 1 })
+    expect(eraseReport).not.toHaveProperty("personaReset")
+    const ledgerText = await readFile(join(storageDir, "decision-ledger.jsonl"), "utf8")
+    expect(ledgerText).not.toContain("Alice asks")
+    expect(ledgerText).toContain("Bob asks about Node")
+    const persona = JSON.parse(await readFile(join(storageDir, "persona.json"), "utf8")) as { adaptive: { styleHints: string[] } }
+    expect(persona.adaptive.styleHints).toEqual(["concise"])
+    expect((await store.query()).map((record) => record.id)).toEqual(["b1"])
+
+    const audit = (await readFile(join(storageDir, "audit-log.jsonl"), "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { action: string; decision: string; status: string })
+    expect(audit.map((entry) => `${entry.action}:${entry.decision}:${entry.status}`)).toEqual([
+      "memory.erase:denied:blocked",
+      "memory.export:approved:succeeded",
+      "memory.erase:approved:succeeded",
+    ])
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
 test("workflow run long-running forced cancellation reports cleanup with no orphan", async () => {
-  const out = await runCli(["workflow", "run", "long-running", "--cancel-after-ms=75"])
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-long-running-"))
+  const out = await runCli(["workflow", "run", "long-running", "--cancel-after-ms=75", `--storage-dir=${storageDir}`])
+  await rm(storageDir, { recursive: true, force: true })
   expect(out.code).toBe(130)
 
   const payload = JSON.parse(out.stdout) as {
@@ -804,3 +1129,145 @@ test("autonomy decide reports unavailable judge without static decision fallback
   const payload = JSON.parse(out.stdout) as { error: string }
   expect(payload.error).toContain("AUTONOMY_JUDGE_UNAVAILABLE")
 })
+
+test("autonomy decide falls back to the local rule-based judge when rules are enabled", async () => {
+  const inputJson =
+    '--input-json={"now":"2026-02-11T10:00:00.000Z","userMessage":"interrupt","userIntent":"urgent","persona":{"name":"machina","traits":["focused"],"goals":["help"],"fixedPrinciples":["prevent direct harm"]},"activeWork":[{"id":"w1","title":"index","status":"running","priority":"medium","startedAt":"2026-02-11T09:00:00.000Z"}],"systemState":{}}'
+  const out = await runCli(["autonomy", "decide", inputJson], { MACHINA_JUDGE_RULES: "on" })
+
+  expect(out.code).toBe(0)
+  const decision = JSON.parse(out.stdout) as { action: string; reason: string; deferUntil?: string }
+  expect(decision.action).toBe("defer")
+  expect(decision.deferUntil).toBe("2026-02-11T10:15:00.000Z")
+  expect(decision.reason).toContain("[rule-based fallback] urgent-preempts")
+
+  const unset = await runCli(["autonomy", "decide", inputJson], { MACHINA_JUDGE_RULES: "" })
+  expect(unset.code).toBe(2)
+  expect(unset.stderr).toContain("AUTONOMY_JUDGE_UNAVAILABLE")
+})
+
+test("autonomy history filters recorded decisions by session and action", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-cli-ledger-"))
+
+  try {
+    const input: OrchestrationInput = {
+      now: "2026-02-11T10:00:00.000Z",
+      userMessage: "status?",
+      userIntent: "check",
+      persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+      activeWork: [],
+      systemState: {},
+    }
+    const ledger = new DecisionLedger({ storageDir, now: () => new Date("2026-02-11T10:00:00.000Z") })
+    const trace = (action: "continue" | "abort") => ({
+      prompt: "prompt",
+      responses: [`{"action":"${action}"}`],
+      decision: { action, reason: "test", confidence: 0.9, priority: "high" as const },
+      repaired: false,
+      latencyMs: 5,
+    })
+    await ledger.record(input, trace("continue"), { source: "chat.message", sessionId: "s-1" })
+    await ledger.record(input, trace("abort"), { source: "chat.message", sessionId: "s-1" })
+    await ledger.record(input, trace("abort"), { source: "open_machina_decide", sessionId: "s-2" })
+
+    const bySession = await runCli(["autonomy", "history", "--session=s-1", `--storage-dir=${storageDir}`])
+    expect(bySession.code).toBe(0)
+    const sessionPayload = JSON.parse(bySession.stdout) as { total: number; entries: Array<{ sessionId: string }> }
+    expect(sessionPayload.total).toBe(2)
+    expect(sessionPayload.entries.every((entry) => entry.sessionId === "s-1")).toBe(true)
+
+    const byAction = await runCli(["autonomy", "history", "--action=abort", "--limit=1", `--storage-dir=${storageDir}`])
+    const actionPayload = JSON.parse(byAction.stdout) as { total: number; entries: Array<{ source: string }> }
+    expect(actionPayload.total).toBe(1)
+    expect(actionPayload.entries[0]?.source).toBe("open_machina_decide")
+
+    const invalidAction = await runCli(["autonomy", "history", "--action=pause", `--storage-dir=${storageDir}`])
+    expect(invalidAction.code).toBe(1)
+
+    const invalidSince = await runCli(["autonomy", "history", "--since=yesterday", `--storage-dir=${storageDir}`])
+    expect(invalidSince.code).toBe(2)
+    expect(invalidSince.stderr).toContain("DECISION_LEDGER_QUERY_INVALID")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("autonomy eval replays recorded fixtures offline and reports accuracy", async () => {
+  const out = await runCli(["autonomy", "eval", `--fixtures=${join(import.meta.dir, "../../../config/autonomy-eval-fixtures.json")}`])
+
+  expect(out.code).toBe(0)
+  const report = JSON.parse(out.stdout) as {
+    judge: string
+    total: number
+    accuracy: number
+    repairRate: number
+    invalidRate: number
+    confusion: Record<string, Record<string, number>>
+  }
+  expect(report.judge).toBe("recorded")
+  expect(report.total).toBe(4)
+  expect(report.accuracy).toBe(1)
+  expect(report.repairRate).toBe(0.25)
+  expect(report.invalidRate).toBe(0)
+  expect(report.confusion.parallel?.parallel).toBe(1)
+
+  const rules = await runCli(["autonomy", "eval", "--judge=rules", `--fixtures=${join(import.meta.dir, "../../../config/autonomy-eval-fixtures.json")}`])
+  const rulesReport = JSON.parse(rules.stdout) as { judge: string; accuracy: number; repairRate: number }
+  expect(rulesReport.judge).toBe("rules")
+  expect(rulesReport.accuracy).toBe(0.75)
+  expect(rulesReport.repairRate).toBe(0)
+
+  const missing = await runCli(["autonomy", "eval"])
+  expect(missing.code).toBe(1)
+
+  const unreadable = await runCli(["autonomy", "eval", "--fixtures=does-not-exist.json"])
+  expect(unreadable.code).toBe(2)
+  expect(unreadable.stderr).toContain("EVAL_FIXTURES_UNREADABLE")
+})
+
+test("autonomy eval scores a live judge through the configured transport", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "machina-cli-eval-transport-"))
+  const fixtures = join(import.meta.dir, "../../../config/autonomy-eval-fixtures.json")
+  const originalFetch = globalThis.fetch
+  const requests: Array<{ url: string; authorization: string | null; body: { model: string; messages: Array<{ role: string; content: string }> } }> = []
+  globalThis.fetch = (async (url: unknown, init?: RequestInit) => {
+    requests.push({
+      url: String(url),
+      authorization: new Headers(init?.headers).get("authorization"),
+      body: JSON.parse(String(init?.body)) as { model: string; messages: Array<{ role: string; content: string }> },
+    })
+    const content = JSON.stringify({ action: "abort", confidence: 0.9, reason: "always abort", priority: "high" })
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200, headers: { "content-type": "application/json" } })
+  }) as unknown as typeof fetch
+
+  try {
+    const promptPath = join(dir, "system.txt")
+    await writeFile(promptPath, "Candidate judge prompt v2", "utf8")
+    const env = { MACHINA_JUDGE_API_KEY: "eval-key", MACHINA_JUDGE_MODEL: "gpt-from-env" }
+
+    const out = await runCli(
+      ["autonomy", "eval", "--judge=transport", "--model=openai/gpt-eval", `--system-prompt=${promptPath}`, `--fixtures=${fixtures}`],
+      env,
+    )
+    expect(out.code).toBe(0)
+    const report = JSON.parse(out.stdout) as { judge: string; model: string; total: number; accuracy: number }
+    expect(report).toMatchObject({ judge: "transport", model: "openai/gpt-eval", total: 4, accuracy: 0.25 })
+    expect(requests).toHaveLength(4)
+    expect(requests[0]?.url).toBe("https://api.openai.com/v1/chat/completions")
+    expect(requests[0]?.authorization).toBe("Bearer eval-key")
+    expect(requests[0]?.body.model).toBe("gpt-eval")
+    expect(requests[0]?.body.messages[0]?.content).toBe("Candidate judge prompt v2")
+
+    const fromEnv = await runCli(["autonomy", "eval", "--judge=transport", `--fixtures=${fixtures}`], env)
+    expect((JSON.parse(fromEnv.stdout) as { model: string }).model).toBe("openai/gpt-from-env")
+
+    const noModel = await runCli(["autonomy", "eval", "--judge=transport", `--fixtures=${fixtures}`], {})
+    expect(noModel.code).toBe(1)
+    const noKey = await runCli(["autonomy", "eval", "--judge=transport", "--model=anthropic/claude-judge", `--fixtures=${fixtures}`], {})
+    expect(noKey.code).toBe(2)
+    expect(noKey.stderr).toContain("AUTONOMY_JUDGE_UNAVAILABLE")
+  } finally {
+    globalThis.fetch = originalFetch
+    await rm(dir, { recursive: true, force: true })
+  }
+})
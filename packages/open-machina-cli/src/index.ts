@@ -1,13 +1,25 @@
 import { spawn } from "node:child_process"
 import { once } from "node:events"
-import { mkdir, writeFile } from "node:fs/promises"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
 import { dirname, resolve } from "node:path"
 import {
   ToolPolicyError,
   ToolRuntimeError,
+  type ToolRegistry,
   ChannelRegistry,
   ChannelRuntimeError,
+  DEFAULT_ORCHESTRATION_RULES,
+  DecisionLedger,
+  EvalFixtureError,
+  MachinaStorageError,
+  MemoryStore,
+  WORKFLOW_RUN_STATES,
   WorkflowEngine,
+  WorkflowRunStore,
+  WorkflowScheduler,
+  MEMORY_SHARDS,
+  MISSED_RUN_POLICIES,
+  SNAPSHOT_CADENCE_CRON,
   createMachinaToolRegistry,
   createDefaultChannelConnectors,
   pullDiscordInboundEvents,
@@ -16,13 +28,42 @@ import {
   sendConnectorMessage,
   verifyConnectorConfig,
   parseConfigJson,
+  type ConsolidationMode,
+  type ConsolidationReport,
+  type MemoryShard,
+  type OrchestrationAction,
+  type MemoryConsolidationPayload,
+  type StorageWorkflowPayload,
+  type MaintenancePayload,
+  type MaintenanceReport,
   type WorkflowRunResult,
+  type WorkflowDefinition,
+  type WorkflowRunState,
+  type EvalJudgeFactory,
+  type JudgeTransport,
+  type MissedRunPolicy,
   brand,
   checkSessionIntegrity,
   compactSessions,
+  createMemoryConsolidationWorkflow,
+  createStorageMigrationWorkflow,
+  createNightlyMaintenanceWorkflow,
+  NIGHTLY_MAINTENANCE_WORKFLOW,
   runMigrations,
+  selectContext,
   sleepWithSignal,
+  createJudgeTransport,
+  createRuleBasedJudge,
   decideOrchestration,
+  evaluateOrchestrationJudge,
+  loadEvalFixtures,
+  loadOrchestrationRules,
+  inferJudgeApiUrl,
+  inferJudgeTransportKind,
+  judgeTransportRequiresToken,
+  parseJudgeTransportKind,
+  recordedJudgeFactory,
+  resolveOrchestrationRules,
   detectBackupOs,
   runSnapshotCycle,
   DEFAULT_SNAPSHOT_POLICY,
@@ -32,6 +73,7 @@ import { getPluginStatus, info } from "open-machina-plugin"
 const NEON_MINT = "\x1b[38;2;0;255;157m"
 const RESET = "\x1b[0m"
 const ROBOT = "🤖"
+const ORCHESTRATION_ACTIONS: OrchestrationAction[] = ["abort", "defer", "parallel", "continue"]
 
 export function banner() {
   return `${NEON_MINT}${ROBOT} Welcome to ${brand()}${RESET}`
@@ -122,7 +164,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
     return {
       code: 0,
       stdout: [
-        "open-machina [--version] [install] [status] [doctor [--json]] [storage migrate|integrity|compact] [workflow list|run|cancel-smoke]",
+        "open-machina [--version] [install] [status] [doctor [--json]] [storage migrate|integrity|compact] [memory list|show|add|tag|forget|search|consolidate|export|erase] [workflow list|run|runs|recover|resume|schedule|cancel-smoke]",
         "",
         "Commands:",
         "  --version                                  Print Machina identity marker and version",
@@ -144,6 +186,21 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
         "  storage migrate                            Run storage migration workflow",
         "  storage integrity                          Run storage integrity workflow",
         "  storage compact                            Run storage compaction workflow",
+        "  memory list [--user=<id>] [--shard=<name>] [--tag=<a,b>]",
+        "                                             List stored memory records",
+        "  memory show <memory-id>                    Show one memory record",
+        "  memory add --user=<id> --shard=<name> --content=<text> [--tags=<a,b>] [--weight=<n>]",
+        "                                             Store a memory record",
+        "  memory tag <memory-id> [--add=<a,b>] [--remove=<c>]",
+        "                                             Add or remove memory tags",
+        "  memory forget <memory-id>                  Tombstone a memory record",
+        "  memory search --query=<text> [--limit=<n>] [--user=<id>] [--all-users=true]",
+        "                                             Rank memories for a query",
+        "  memory consolidate [--user=<id>] [--mode=down-weight|archive]",
+        "                                             Distill episodic memories into semantic summaries",
+        "  memory export --user=<id> --approve=true [--output=<path>]",
+        "                                             Write a portable JSONL bundle of one user's memories",
+        "  memory erase --user=<id> --approve=true    Tombstone and compact one user's memories",
         "  channel connectors                         List available channel connectors",
         "  channel connect <channel-id> <connector-id> --config-json=<json>",
         "                                             Connect channel using connector and config payload",
@@ -164,8 +221,25 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
         "  channel disconnect <channel-id>            Disconnect channel",
         "  workflow list                              List available workflows",
         "  workflow run <workflow-name>               Run workflow by name",
+        "  workflow run maintenance.nightly [--live=true]",
+        "                                             Run integrity, compaction, snapshot and connector checks",
+        "  workflow runs [--workflow=<name>] [--status=<state>] [--limit=<n>]",
+        "                                             List persisted workflow run records",
+        "  workflow recover [--resume=true]           Mark interrupted runs failed and optionally resume them",
+        "  workflow resume <operation-id>             Resume a failed or cancelled run from its last checkpoint",
+        "  workflow schedule add <workflow-name> --cron=<expression> [--missed=catch-up|skip] [--id=<id>] [--input-json=<json>]",
+        "                                             Persist a cron schedule for a workflow; cron times are read in UTC",
+        "  workflow schedule list [--workflow=<name>] List persisted workflow schedules",
+        "  workflow schedule remove <schedule-id>     Remove a workflow schedule",
+        "  workflow schedule tick                     Fire due scheduled runs once; run it every minute from cron/launchd or set MACHINA_WORKFLOW_SCHEDULER=on",
         "  workflow cancel-smoke                      Run deterministic cancellation scenario",
-        "  autonomy decide --input-json=<json>         AI judge-based interrupt arbitration",
+        "  autonomy decide --input-json=<json> [--rules=<path>]",
+        "                                             Interrupt arbitration with the local rule-based fallback judge",
+        "  autonomy history [--session=<id>] [--action=<name>] [--since=<iso>] [--until=<iso>] [--limit=<n>]",
+        "                                             Query the orchestration decision ledger",
+        "  autonomy eval --fixtures=<path> [--judge=recorded|rules|transport] [--rules=<path>] [--repair-rounds=<n>]",
+        "                [--model=<provider/model>] [--transport=<kind>] [--api-url=<url>] [--system-prompt=<path>]",
+        "                                             Replay labelled cases and report judge accuracy",
         "  backup plan [--now=<iso>]                   Run snapshot retention planning cycle",
         "  tools list                                 List registered tools and permission classes",
         "  tools run <tool-id>                        Run a tool invocation",
@@ -225,6 +299,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
   if (args[0] === "status") {
     const execution = await workflowEngine.run<{ env: NodeJS.ProcessEnv }, StatusWorkflowResult>("status", {
       payload: { env },
+      store: new WorkflowRunStore({ env }),
     })
     return toCliResult(execution)
   }
@@ -232,6 +307,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
   if (args[0] === "doctor" && (args.length === 1 || args[1] === "--json")) {
     const execution = await workflowEngine.run<{ env: NodeJS.ProcessEnv }, DoctorWorkflowResult>("doctor", {
       payload: { env },
+      store: new WorkflowRunStore({ env }),
     })
 
     return toCliResult(execution)
@@ -605,6 +681,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
         StorageMigrateResult
       >("storage.migrate", {
         payload: { storageDir, env },
+        store: new WorkflowRunStore({ storageDir, env }),
       })
       return toCliResult(execution)
     }
@@ -615,6 +692,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
         StorageIntegrityResult
       >("storage.integrity", {
         payload: { storageDir, env },
+        store: new WorkflowRunStore({ storageDir, env }),
       })
       return toCliResult(execution)
     }
@@ -625,11 +703,230 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
         StorageCompactResult
       >("storage.compact", {
         payload: { storageDir, env },
+        store: new WorkflowRunStore({ storageDir, env }),
       })
       return toCliResult(execution)
     }
   }
 
+  if (args[0] === "memory" && (args[1] === "export" || args[1] === "erase")) {
+    const userId = getStringArg(args, "--user=")
+    if (!userId) {
+      return {
+        code: 1,
+        stdout: "",
+        stderr: `Missing required arg. Usage: memory ${args[1]} --user=<id> --approve=true [--actor=<id>] [--operation-id=<id>]${args[1] === "export" ? " [--output=<path>]" : ""}`,
+      }
+    }
+
+    const input: Record<string, unknown> = { userId }
+    const output = getStringArg(args, "--output=")
+    if (args[1] === "export" && output) {
+      input.outputPath = resolve(output)
+    }
+
+    return runToolForCli(createMachinaToolRegistry(), `memory.${args[1]}`, {
+      input,
+      actor: getStringArg(args, "--actor=") ?? "cli-user",
+      operationId: getStringArg(args, "--operation-id=") ?? nextToolOperationId(),
+      approve: getBooleanArg(args, "--approve=") ?? false,
+      storageDir: getStorageDirArg(args),
+      env,
+    })
+  }
+
+  if (args[0] === "memory" && args[1] === "consolidate") {
+    const mode = getStringArg(args, "--mode=")
+    if (mode !== undefined && mode !== "down-weight" && mode !== "archive") {
+      return {
+        code: 1,
+        stdout: "",
+        stderr: "Invalid --mode. Usage: memory consolidate [--user=<id>] [--mode=down-weight|archive]",
+      }
+    }
+
+    const execution = await workflowEngine.run<MemoryConsolidationPayload, ConsolidationReport>("memory.consolidate", {
+      payload: {
+        storageDir: getStorageDirArg(args),
+        env,
+        userId: getStringArg(args, "--user="),
+        mode: mode as ConsolidationMode | undefined,
+      },
+      cancelAfterMs: getNumberArg(args, "--cancel-after-ms="),
+      store: new WorkflowRunStore({ storageDir: getStorageDirArg(args), env }),
+    })
+    return toCliResult(execution)
+  }
+
+  if (args[0] === "memory") {
+    const store = new MemoryStore({ storageDir: getStorageDirArg(args), env })
+
+    try {
+      if (args[1] === "list") {
+        const shard = getStringArg(args, "--shard=")
+        if (shard !== undefined && !MEMORY_SHARDS.includes(shard as MemoryShard)) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr: `Invalid --shard. Usage: memory list [--user=<id>] [--shard=${MEMORY_SHARDS.join("|")}] [--tag=<a,b>]`,
+          }
+        }
+        const records = await store.query({
+          userId: getStringArg(args, "--user="),
+          shard: shard as MemoryShard | undefined,
+          tags: getListArg(args, "--tag="),
+        })
+        return {
+          code: 0,
+          stdout: JSON.stringify({ total: records.length, records }, null, 2),
+        }
+      }
+
+      if (args[1] === "show") {
+        const id = args[2]
+        if (!id) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr: "Missing required arg. Usage: memory show <memory-id>",
+          }
+        }
+
+        const record = await store.get(id)
+        if (!record) {
+          return memoryNotFound(id)
+        }
+        return {
+          code: 0,
+          stdout: JSON.stringify(record, null, 2),
+        }
+      }
+
+      if (args[1] === "add") {
+        const userId = getStringArg(args, "--user=")
+        const shard = getStringArg(args, "--shard=")
+        const content = getStringArg(args, "--content=")
+        const usage = "memory add --user=<id> --shard=<episodic|semantic|procedural> --content=<text> [--tags=<a,b>] [--weight=<0-1>]"
+        if (!userId || !shard || !content) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr: `Missing required arg. Usage: ${usage}`,
+          }
+        }
+        const rawWeight = getStringArg(args, "--weight=")
+        const weight = rawWeight === undefined ? 0.5 : Number(rawWeight)
+        if (!MEMORY_SHARDS.includes(shard as MemoryShard) || !Number.isFinite(weight) || weight < 0 || weight > 1) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr: `Invalid ${MEMORY_SHARDS.includes(shard as MemoryShard) ? "--weight" : "--shard"}. Usage: ${usage}`,
+          }
+        }
+
+        const record = await store.append({
+          id: getStringArg(args, "--id="),
+          userId,
+          shard: shard as MemoryShard,
+          content,
+          tags: getListArg(args, "--tags=") ?? [],
+          weight,
+        })
+        return {
+          code: 0,
+          stdout: JSON.stringify(record, null, 2),
+        }
+      }
+
+      if (args[1] === "tag") {
+        const id = args[2]
+        const add = getListArg(args, "--add=") ?? []
+        const remove = new Set(getListArg(args, "--remove=") ?? [])
+        if (!id || (add.length === 0 && remove.size === 0)) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr: "Missing required arg. Usage: memory tag <memory-id> [--add=<a,b>] [--remove=<c>]",
+          }
+        }
+
+        const current = await store.get(id)
+        if (!current) {
+          return memoryNotFound(id)
+        }
+        const record = await store.update(id, {
+          tags: [...current.tags.filter((tag) => !remove.has(tag)), ...add],
+        })
+        return {
+          code: 0,
+          stdout: JSON.stringify(record, null, 2),
+        }
+      }
+
+      if (args[1] === "forget") {
+        const id = args[2]
+        if (!id) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr: "Missing required arg. Usage: memory forget <memory-id>",
+          }
+        }
+
+        if (!(await store.delete(id))) {
+          return memoryNotFound(id)
+        }
+        return {
+          code: 0,
+          stdout: JSON.stringify({ id, status: "forgotten" }, null, 2),
+        }
+      }
+
+      if (args[1] === "search") {
+        const query = getStringArg(args, "--query=")
+        if (!query) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr: "Missing required arg. Usage: memory search --query=<text> [--limit=<n>] [--user=<id>] [--all-users=true]",
+          }
+        }
+
+        const userId = getStringArg(args, "--user=")
+        const records = await store.query({ userId })
+        const limit = Math.max(1, Math.floor(getNumberArg(args, "--limit=") ?? 5))
+        const selected =
+          records.length > 0
+            ? selectContext(records, {
+                query,
+                limit,
+                userId,
+                allowCrossUser: getBooleanArg(args, "--all-users=") ?? false,
+                weighting: { now: new Date() },
+              })
+            : []
+        return {
+          code: 0,
+          stdout: JSON.stringify({ query, limit, records: selected }, null, 2),
+        }
+      }
+    } catch (error) {
+      const normalized = normalizeStorageError(error)
+      return {
+        code: 2,
+        stdout: JSON.stringify(normalized, null, 2),
+        stderr: `${normalized.code}: ${normalized.message}`,
+      }
+    }
+
+    return {
+      code: 1,
+      stdout: "",
+      stderr:
+        "Unknown memory subcommand. Usage: memory list|show|add|tag|forget|search|consolidate|export|erase",
+    }
+  }
+
   if (args[0] === "channel") {
     const storageDir = getStorageDirArg(args)
     const registry = createChannelRegistry(storageDir)
@@ -1062,6 +1359,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
       const execution = await workflowEngine.run<LongRunningPayload, { note: string }>("long-running", {
         payload: { tracker },
         cancelAfterMs,
+        store: new WorkflowRunStore({ storageDir: getStorageDirArg(args), env }),
       })
 
       return {
@@ -1073,17 +1371,190 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
             error: execution.error,
             tracker,
             log: execution.log,
+            ...(execution.persistErrors ? { persistErrors: execution.persistErrors } : {}),
+          },
+          null,
+          2,
+        ),
+      }
+    }
+
+    if (workflowName === NIGHTLY_MAINTENANCE_WORKFLOW) {
+      const storageDir = getStorageDirArg(args)
+      const execution = await workflowEngine.run<MaintenancePayload, MaintenanceReport>(NIGHTLY_MAINTENANCE_WORKFLOW, {
+        payload: { storageDir, env, live: getBooleanArg(args, "--live=") ?? false },
+        cancelAfterMs: getNumberArg(args, "--cancel-after-ms="),
+        store: new WorkflowRunStore({ storageDir, env }),
+      })
+      return toCliResult(execution)
+    }
+
+    return {
+      code: 1,
+      stdout: "",
+      stderr: `workflow run currently supports: long-running, ${NIGHTLY_MAINTENANCE_WORKFLOW}`,
+    }
+  }
+
+  if (args[0] === "workflow" && args[1] === "runs") {
+    const status = getStringArg(args, "--status=")
+    if (status !== undefined && !WORKFLOW_RUN_STATES.includes(status as WorkflowRunState)) {
+      return {
+        code: 1,
+        stdout: "",
+        stderr: `Invalid --status. Usage: workflow runs [--workflow=<name>] [--status=${WORKFLOW_RUN_STATES.join("|")}] [--limit=<n>]`,
+      }
+    }
+
+    try {
+      const { records: runs, corrupt } = await new WorkflowRunStore({ storageDir: getStorageDirArg(args), env }).scan({
+        workflowName: getStringArg(args, "--workflow="),
+        status: status as WorkflowRunState | undefined,
+        limit: getNumberArg(args, "--limit="),
+      })
+      return {
+        code: 0,
+        stdout: JSON.stringify({ total: runs.length, runs, ...(corrupt.length > 0 ? { corrupt } : {}) }, null, 2),
+      }
+    } catch (error) {
+      const normalized = normalizeStorageError(error)
+      return {
+        code: 2,
+        stdout: JSON.stringify(normalized, null, 2),
+        stderr: `${normalized.code}: ${normalized.message}`,
+      }
+    }
+  }
+
+  if (args[0] === "workflow" && args[1] === "recover") {
+    try {
+      const recovery = await workflowEngine.recover({
+        store: new WorkflowRunStore({ storageDir: getStorageDirArg(args), env }),
+        resume: getBooleanArg(args, "--resume=") ?? false,
+        env,
+      })
+      return {
+        code: 0,
+        stdout: JSON.stringify(
+          {
+            interrupted: recovery.interrupted.map((run) => ({ operationId: run.operationId, workflowName: run.workflowName })),
+            resumed: recovery.resumed.map((execution) => ({ status: execution.status, error: execution.error, log: execution.log })),
+            ...(recovery.corrupt.length > 0 ? { corrupt: recovery.corrupt } : {}),
           },
           null,
           2,
         ),
       }
+    } catch (error) {
+      const normalized = normalizeStorageError(error)
+      return {
+        code: 2,
+        stdout: JSON.stringify(normalized, null, 2),
+        stderr: `${normalized.code}: ${normalized.message}`,
+      }
+    }
+  }
+
+  if (args[0] === "workflow" && args[1] === "resume") {
+    const operationId = args[2]
+    if (!operationId) {
+      return {
+        code: 1,
+        stdout: "",
+        stderr: "Missing operation id. Usage: workflow resume <operation-id>",
+      }
+    }
+
+    try {
+      const execution = await workflowEngine.resume(operationId, {
+        store: new WorkflowRunStore({ storageDir: getStorageDirArg(args), env }),
+        env,
+        cancelAfterMs: getNumberArg(args, "--cancel-after-ms="),
+      })
+      return toCliResult(execution)
+    } catch (error) {
+      const normalized = normalizeStorageError(error)
+      return {
+        code: 2,
+        stdout: JSON.stringify(normalized, null, 2),
+        stderr: `${normalized.code}: ${normalized.message}`,
+      }
+    }
+  }
+
+  if (args[0] === "workflow" && args[1] === "schedule") {
+    const scheduler = new WorkflowScheduler({ engine: workflowEngine, storageDir: getStorageDirArg(args), env })
+
+    try {
+      if (args[2] === "add") {
+        const workflowName = args[3]
+        const missedRuns = getStringArg(args, "--missed=")
+        const cron =
+          getStringArg(args, "--cron=") ??
+          (workflowName === NIGHTLY_MAINTENANCE_WORKFLOW ? SNAPSHOT_CADENCE_CRON[DEFAULT_SNAPSHOT_POLICY.cadence] : undefined)
+        if (!workflowName || !cron || (missedRuns !== undefined && !MISSED_RUN_POLICIES.includes(missedRuns as MissedRunPolicy))) {
+          return {
+            code: 1,
+            stdout: "",
+            stderr:
+              "Usage: workflow schedule add <workflow-name> --cron=<expression> [--missed=catch-up|skip] [--id=<schedule-id>] [--input-json=<json>]",
+          }
+        }
+
+        const inputJson = getStringArg(args, "--input-json=")
+        const schedule = await scheduler.add({
+          workflowName,
+          cron,
+          missedRuns: missedRuns as MissedRunPolicy | undefined,
+          id: getStringArg(args, "--id="),
+          input: inputJson === undefined ? undefined : parseScheduleInput(inputJson),
+        })
+        return { code: 0, stdout: JSON.stringify({ schedule }, null, 2) }
+      }
+
+      if (args[2] === "list") {
+        const schedules = await scheduler.list(getStringArg(args, "--workflow="))
+        return { code: 0, stdout: JSON.stringify({ total: schedules.length, schedules }, null, 2) }
+      }
+
+      if (args[2] === "remove") {
+        const id = args[3]
+        if (!id) {
+          return { code: 1, stdout: "", stderr: "Missing schedule id. Usage: workflow schedule remove <schedule-id>" }
+        }
+        return { code: 0, stdout: JSON.stringify({ removed: await scheduler.remove(id) }, null, 2) }
+      }
+
+      if (args[2] === "tick") {
+        const recovery = await scheduler.recover()
+        const fired = await scheduler.tick()
+        return {
+          code: fired.every((firing) => firing.status === "completed") ? 0 : 1,
+          stdout: JSON.stringify(
+            {
+              fired,
+              ...(recovery.interrupted.length > 0
+                ? { interrupted: recovery.interrupted.map((run) => ({ operationId: run.operationId, workflowName: run.workflowName })) }
+                : {}),
+            },
+            null,
+            2,
+          ),
+        }
+      }
+    } catch (error) {
+      const normalized = normalizeStorageError(error)
+      return {
+        code: 2,
+        stdout: JSON.stringify(normalized, null, 2),
+        stderr: `${normalized.code}: ${normalized.message}`,
+      }
     }
 
     return {
       code: 1,
       stdout: "",
-      stderr: `workflow run currently supports: long-running`,
+      stderr: "Unknown workflow schedule subcommand. Usage: workflow schedule add|list|remove|tick",
     }
   }
 
@@ -1093,6 +1564,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
     const execution = await workflowEngine.run<LongRunningPayload, { note: string }>("long-running", {
       payload: { tracker },
       cancelAfterMs,
+      store: new WorkflowRunStore({ storageDir: getStorageDirArg(args), env }),
     })
 
     const noOrphan = execution.status === "cancelled" && tracker.childPid !== null && tracker.aliveAfterCleanup === false
@@ -1117,16 +1589,116 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
 
   if (args[0] === "autonomy" && args[1] === "decide") {
     const input = parseConfigJson(getStringArg(args, "--input-json=")) as Parameters<typeof decideOrchestration>[0]
-    const result = await decideOrchestration(input, async () => {
-      throw new Error("AUTONOMY_JUDGE_UNAVAILABLE: configure a judge in plugin runtime to make AI decision")
-    }).catch((error) => ({
-      error: error instanceof Error ? error.message : String(error),
-    }))
+    const rulesPath = getStringArg(args, "--rules=")
+    const result = await (rulesPath ? loadOrchestrationRules(rulesPath) : resolveOrchestrationRules(env))
+      .then((rules) =>
+        decideOrchestration(
+          input,
+          rules
+            ? createRuleBasedJudge(input, rules)
+            : async () => {
+                throw new Error("AUTONOMY_JUDGE_UNAVAILABLE: configure a judge in plugin runtime or enable MACHINA_JUDGE_RULES")
+              },
+        ),
+      )
+      .catch((error) => ({
+        error: error instanceof Error ? error.message : String(error),
+      }))
 
     return {
       code: "error" in result ? 2 : 0,
       stdout: JSON.stringify(result, null, 2),
-      stderr: "error" in result ? "AUTONOMY_JUDGE_UNAVAILABLE" : undefined,
+      stderr: "error" in result ? result.error.split(":")[0] : undefined,
+    }
+  }
+
+  if (args[0] === "autonomy" && args[1] === "history") {
+    const action = getStringArg(args, "--action=")
+    if (action !== undefined && !ORCHESTRATION_ACTIONS.includes(action as OrchestrationAction)) {
+      return {
+        code: 1,
+        stdout: "",
+        stderr: `Invalid --action. Usage: autonomy history [--session=<id>] [--action=${ORCHESTRATION_ACTIONS.join("|")}] [--since=<iso>] [--until=<iso>] [--limit=<n>]`,
+      }
+    }
+
+    try {
+      const entries = await new DecisionLedger({ storageDir: getStorageDirArg(args), env }).query({
+        sessionId: getStringArg(args, "--session="),
+        action: action as OrchestrationAction | undefined,
+        since: getStringArg(args, "--since="),
+        until: getStringArg(args, "--until="),
+        limit: getNumberArg(args, "--limit="),
+      })
+      return {
+        code: 0,
+        stdout: JSON.stringify({ total: entries.length, entries }, null, 2),
+      }
+    } catch (error) {
+      const normalized = normalizeStorageError(error)
+      return {
+        code: 2,
+        stdout: JSON.stringify(normalized, null, 2),
+        stderr: `${normalized.code}: ${normalized.message}`,
+      }
+    }
+  }
+
+  if (args[0] === "autonomy" && args[1] === "eval") {
+    const fixturesPath = getStringArg(args, "--fixtures=")
+    const judge = getStringArg(args, "--judge=") ?? "recorded"
+    const usage =
+      "Usage: autonomy eval --fixtures=<path> [--judge=recorded|rules|transport] [--rules=<path>] [--repair-rounds=<n>] [--model=<provider/model>] [--transport=<kind>] [--api-url=<url>] [--system-prompt=<path>]"
+    if (!fixturesPath || (judge !== "recorded" && judge !== "rules" && judge !== "transport")) {
+      return {
+        code: 1,
+        stdout: "",
+        stderr: `Missing required arg. ${usage}`,
+      }
+    }
+    const model = judge === "transport" ? readEvalModel(args, env) : null
+    if (judge === "transport" && !model) {
+      return {
+        code: 1,
+        stdout: "",
+        stderr: `Missing judge model. Pass --model=<provider/model> or set MACHINA_JUDGE_MODEL. ${usage}`,
+      }
+    }
+
+    try {
+      const cases = await loadEvalFixtures(resolve(fixturesPath))
+      let factory: EvalJudgeFactory = recordedJudgeFactory
+      if (judge === "rules") {
+        const rulesPath = getStringArg(args, "--rules=")
+        const rules = rulesPath ? await loadOrchestrationRules(rulesPath) : DEFAULT_ORCHESTRATION_RULES
+        factory = (testCase) => createRuleBasedJudge(testCase.input, rules)
+      }
+      if (model) {
+        const transport = await createEvalTransport(args, env, model)
+        factory = () => transport.call
+      }
+      const report = await evaluateOrchestrationJudge(cases, factory, { repairRounds: getNumberArg(args, "--repair-rounds=") })
+      return {
+        code: 0,
+        stdout: JSON.stringify(
+          {
+            judge,
+            ...(model ? { model: `${model.providerID}/${model.modelID}` } : {}),
+            fixtures: resolve(fixturesPath),
+            ...report,
+          },
+          null,
+          2,
+        ),
+      }
+    } catch (error) {
+      const normalized =
+        error instanceof EvalFixtureError ? { code: error.code, message: error.message } : normalizeStorageError(error)
+      return {
+        code: 2,
+        stdout: JSON.stringify(normalized, null, 2),
+        stderr: `${normalized.code}: ${normalized.message}`,
+      }
     }
   }
 
@@ -1252,93 +1824,7 @@ export async function runCli(argv: string[], env: NodeJS.ProcessEnv = process.en
         }
       }
 
-      try {
-        const execution = await registry.execute<Record<string, unknown>, unknown>(toolId, {
-          input,
-          actor,
-          operationId,
-          permissionState: {
-            privilegedApproved: approve,
-          },
-          storageDir,
-          env,
-        })
-
-        return {
-          code: 0,
-          stdout: JSON.stringify(
-            {
-              status: "completed",
-              operationId,
-              actor,
-              toolId,
-              approved: approve,
-              result: execution.output,
-              audit: execution.auditRecord ?? null,
-            },
-            null,
-            2,
-          ),
-        }
-      } catch (error) {
-        if (error instanceof ToolPolicyError) {
-          const message = redactCliSecrets(error.message, input)
-          return {
-            code: 3,
-            stdout: JSON.stringify(
-              {
-                code: error.code,
-                message,
-                operationId,
-                actor,
-                action: toolId,
-                approved: approve,
-              },
-              null,
-              2,
-            ),
-            stderr: `${error.code}: ${message}`,
-          }
-        }
-
-        if (error instanceof ToolRuntimeError) {
-          const message = redactCliSecrets(error.message, input)
-          return {
-            code: 2,
-            stdout: JSON.stringify(
-              {
-                code: error.code,
-                message,
-                operationId,
-                actor,
-                action: toolId,
-                approved: approve,
-              },
-              null,
-              2,
-            ),
-            stderr: `${error.code}: ${message}`,
-          }
-        }
-
-        const message = redactCliSecrets(error instanceof Error ? error.message : String(error), input)
-        return {
-          code: 2,
-          stdout: JSON.stringify(
-            {
-              code: "TOOL_EXECUTION_FAILED",
-              message,
-              operationId,
-              actor,
-              action: toolId,
-              approved: approve,
-            },
-            null,
-            2,
-          ),
-          stderr: `TOOL_EXECUTION_FAILED: ${message}`,
-        }
-      }
+      return runToolForCli(registry, toolId, { input, actor, operationId, approve, storageDir, env })
     }
   }
 
@@ -1383,21 +1869,26 @@ function createWorkflowEngine(): WorkflowEngine {
     },
   })
 
-  engine.register<{ storageDir?: string; env: NodeJS.ProcessEnv }, StorageMigrateResult>({
-    name: "storage.migrate",
-    run: async ({ payload }) => runMigrations({ storageDir: payload.storageDir }, payload.env),
+  engine.register<StorageWorkflowPayload, StorageMigrateResult>({
+    ...createStorageMigrationWorkflow(),
+    ...resumableStorageWorkflow(),
   })
 
-  engine.register<{ storageDir?: string; env: NodeJS.ProcessEnv }, StorageIntegrityResult>({
+  engine.register<StorageWorkflowPayload, StorageIntegrityResult>({
     name: "storage.integrity",
     run: async ({ payload }) => checkSessionIntegrity(payload.storageDir, payload.env),
+    ...resumableStorageWorkflow(),
   })
 
-  engine.register<{ storageDir?: string; env: NodeJS.ProcessEnv }, StorageCompactResult>({
+  engine.register<StorageWorkflowPayload, StorageCompactResult>({
     name: "storage.compact",
     run: async ({ payload }) => compactSessions(payload.storageDir, payload.env),
+    ...resumableStorageWorkflow(),
   })
 
+  engine.register(createMemoryConsolidationWorkflow())
+  engine.register(createNightlyMaintenanceWorkflow())
+
   engine.register<LongRunningPayload, { note: string }>({
     name: "long-running",
     run: async ({ signal, payload, addCleanup, throwIfAborted }) => {
@@ -1426,12 +1917,33 @@ function createWorkflowEngine(): WorkflowEngine {
   return engine
 }
 
+function resumableStorageWorkflow(): Pick<WorkflowDefinition<StorageWorkflowPayload, unknown>, "persistPayload" | "resume"> {
+  return {
+    persistPayload: (payload) => ({ storageDir: payload.storageDir }),
+    resume: (record, { env }) => {
+      const input = record.input as { storageDir?: unknown } | undefined
+      return { storageDir: typeof input?.storageDir === "string" ? input.storageDir : undefined, env }
+    },
+  }
+}
+
+function parseScheduleInput(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new MachinaStorageError("SCHEDULE_INPUT_INVALID", `--input-json must be valid JSON: ${message}`)
+  }
+}
+
 function toCliResult(execution: WorkflowRunResult<unknown>): CliResult {
   const payload = {
     status: execution.status,
     result: execution.result,
     error: execution.error,
+    completedSteps: execution.completedSteps,
     log: execution.log,
+    ...(execution.persistErrors ? { persistErrors: execution.persistErrors } : {}),
   }
 
   if (execution.status === "completed") {
@@ -1510,6 +2022,59 @@ function getStringArg(args: string[], prefix: string): string | undefined {
   return undefined
 }
 
+function getListArg(args: string[], prefix: string): string[] | undefined {
+  const value = getStringArg(args, prefix)
+  if (typeof value !== "string") {
+    return undefined
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+}
+
+function readEvalModel(args: string[], env: NodeJS.ProcessEnv): { providerID: string; modelID: string } | null {
+  const ref = getStringArg(args, "--model=")
+  if (ref) {
+    const slash = ref.indexOf("/")
+    return slash > 0 && slash < ref.length - 1 ? { providerID: ref.slice(0, slash), modelID: ref.slice(slash + 1) } : null
+  }
+  const modelID = env.MACHINA_JUDGE_MODEL?.trim()
+  return modelID ? { providerID: env.MACHINA_JUDGE_PROVIDER?.trim() || "openai", modelID } : null
+}
+
+async function createEvalTransport(
+  args: string[],
+  env: NodeJS.ProcessEnv,
+  model: { providerID: string; modelID: string },
+): Promise<JudgeTransport> {
+  const kind = parseJudgeTransportKind(getStringArg(args, "--transport=") ?? env.MACHINA_JUDGE_TRANSPORT) ?? inferJudgeTransportKind(model.providerID)
+  const apiUrl = getStringArg(args, "--api-url=") ?? (env.MACHINA_JUDGE_API_URL?.trim() || inferJudgeApiUrl(model.providerID))
+  if (!apiUrl) {
+    throw new Error(`AUTONOMY_JUDGE_UNAVAILABLE: no API URL known for provider ${model.providerID}; pass --api-url`)
+  }
+  const token = env.MACHINA_JUDGE_API_KEY?.trim()
+  if (!token && judgeTransportRequiresToken(kind)) {
+    throw new Error(`AUTONOMY_JUDGE_UNAVAILABLE: set MACHINA_JUDGE_API_KEY for the ${kind} transport`)
+  }
+  const systemPromptPath = getStringArg(args, "--system-prompt=")
+  let systemPrompt: string | undefined
+  if (systemPromptPath) {
+    systemPrompt = await readFile(resolve(systemPromptPath), "utf8").catch((error: unknown) => {
+      throw new Error(`EVAL_SYSTEM_PROMPT_UNREADABLE: ${error instanceof Error ? error.message : String(error)}`)
+    })
+  }
+  return createJudgeTransport({
+    kind,
+    apiUrl,
+    modelID: model.modelID,
+    token,
+    systemPrompt,
+    timeoutMs: Number(env.MACHINA_JUDGE_TIMEOUT_MS?.trim()) || undefined,
+  })
+}
+
 function getBooleanArg(args: string[], prefix: string): boolean | undefined {
   const value = getStringArg(args, prefix)
   if (typeof value !== "string") {
@@ -1552,6 +2117,109 @@ function getStaticSnapshots(now: Date): Array<{ id: string; createdAt: string; s
   }))
 }
 
+async function runToolForCli(
+  registry: ToolRegistry,
+  toolId: string,
+  request: {
+    input: Record<string, unknown>
+    actor: string
+    operationId: string
+    approve: boolean
+    storageDir?: string
+    env: NodeJS.ProcessEnv
+  },
+): Promise<CliResult> {
+  const { input, actor, operationId, approve, storageDir, env } = request
+
+  try {
+    const execution = await registry.execute<Record<string, unknown>, unknown>(toolId, {
+      input,
+      actor,
+      operationId,
+      permissionState: {
+        privilegedApproved: approve,
+      },
+      storageDir,
+      env,
+    })
+
+    return {
+      code: 0,
+      stdout: JSON.stringify(
+        {
+          status: "completed",
+          operationId,
+          actor,
+          toolId,
+          approved: approve,
+          result: execution.output,
+          audit: execution.auditRecord ?? null,
+        },
+        null,
+        2,
+      ),
+    }
+  } catch (error) {
+    if (error instanceof ToolPolicyError) {
+      const message = redactCliSecrets(error.message, input)
+      return {
+        code: 3,
+        stdout: JSON.stringify(
+          {
+            code: error.code,
+            message,
+            operationId,
+            actor,
+            action: toolId,
+            approved: approve,
+          },
+          null,
+          2,
+        ),
+        stderr: `${error.code}: ${message}`,
+      }
+    }
+
+    if (error instanceof ToolRuntimeError) {
+      const message = redactCliSecrets(error.message, input)
+      return {
+        code: 2,
+        stdout: JSON.stringify(
+          {
+            code: error.code,
+            message,
+            operationId,
+            actor,
+            action: toolId,
+            approved: approve,
+          },
+          null,
+          2,
+        ),
+        stderr: `${error.code}: ${message}`,
+      }
+    }
+
+    const message = redactCliSecrets(error instanceof Error ? error.message : String(error), input)
+    return {
+      code: 2,
+      stdout: JSON.stringify(
+        {
+          code: "TOOL_EXECUTION_FAILED",
+          message,
+          operationId,
+          actor,
+          action: toolId,
+          approved: approve,
+        },
+        null,
+        2,
+      ),
+      stderr: `TOOL_EXECUTION_FAILED: ${message}`,
+    }
+  }
+}
+
 function nextToolOperationId(): string {
   toolOperationCounter += 1
   return `op-tool-${String(toolOperationCounter).padStart(4, "0")}`
@@ -1565,6 +2233,38 @@ function createChannelRegistry(storageDir?: string): ChannelRegistry {
   return registry
 }
 
+function memoryNotFound(id: string): CliResult {
+  const message = `Memory record not found: ${id}`
+  return {
+    code: 2,
+    stdout: JSON.stringify({ code: "MEMORY_RECORD_NOT_FOUND", message, id }, null, 2),
+    stderr: `MEMORY_RECORD_NOT_FOUND: ${message}`,
+  }
+}
+
+function normalizeStorageError(error: unknown): { code: string; message: string } {
+  if (error instanceof MachinaStorageError) {
+    return {
+      code: error.code,
+      message: error.message,
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  const prefixed = /^([A-Z][A-Z0-9_]+): (.*)$/s.exec(message)
+  if (prefixed) {
+    return {
+      code: prefixed[1]!,
+      message: prefixed[2]!,
+    }
+  }
+
+  return {
+    code: "STORAGE_RUNTIME_ERROR",
+    message,
+  }
+}
+
 function normalizeChannelError(error: unknown): { code: string; message: string } {
   if (error instanceof ChannelRuntimeError) {
     return {
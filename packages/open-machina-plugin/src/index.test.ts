@@ -1,7 +1,8 @@
 import { test, expect } from "bun:test"
 import os from "node:os"
 import path from "node:path"
-import { mkdtemp } from "node:fs/promises"
+import { mkdtemp, rm } from "node:fs/promises"
+import { MemoryStore } from "open-machina-shared"
 import { defaultsUrl, getPluginStatus, info, OpenMachinaPlugin, resolvePluginRegistration } from "./index"
 
 test("defaultsUrl points at workspace defaults.json", async () => {
@@ -55,6 +56,7 @@ test("OpenMachinaPlugin returns tool hooks compatible with OpenCode", async () =
   expect(Object.keys(hooks.tool ?? {})).toContain("open_machina_info")
   expect(Object.keys(hooks.tool ?? {})).toContain("open_machina_connectors")
   expect(Object.keys(hooks.tool ?? {})).toContain("open_machina_workspace")
+  expect(Object.keys(hooks.tool ?? {})).toContain("open_machina_judge_usage")
 
   if (!hooks.tool?.open_machina_info) {
     throw new Error("open_machina_info tool missing")
@@ -101,6 +103,116 @@ test("open_machina_decide reports unavailable judge when env is missing", async
   expect(message).toContain("AUTONOMY_JUDGE_UNAVAILABLE")
 })
 
+test("OpenMachinaPlugin falls back and warns when rules or guardrails files are malformed", async () => {
+  const originalEnv = { MACHINA_JUDGE_RULES: process.env.MACHINA_JUDGE_RULES, MACHINA_GUARDRAILS: process.env.MACHINA_GUARDRAILS }
+  const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-bad-config-"))
+  const badPath = path.join(dir, "broken.json")
+  await Bun.write(badPath, "{ not json")
+  process.env.MACHINA_JUDGE_RULES = badPath
+  process.env.MACHINA_GUARDRAILS = badPath
+  const originalWarn = console.warn
+  const warnings: string[] = []
+  console.warn = (message: string) => void warnings.push(message)
+
+  try {
+    const hooks = await OpenMachinaPlugin({
+      client: { session: {} },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+    expect(warnings).toHaveLength(2)
+    expect(warnings[0]).toContain("ignoring MACHINA_JUDGE_RULES: ORCHESTRATION_RULES_INVALID")
+    expect(warnings[1]).toContain("ignoring MACHINA_GUARDRAILS: GUARDRAILS_INVALID")
+
+    if (!hooks.tool?.open_machina_decide) {
+      throw new Error("open_machina_decide tool missing")
+    }
+    const decide = hooks.tool.open_machina_decide.execute({ input: {} }, {
+      sessionID: "s-bad",
+      messageID: "m-1",
+      agent: "default",
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+    })
+    await expect(decide).rejects.toThrow("AUTONOMY_JUDGE_UNAVAILABLE")
+  } finally {
+    console.warn = originalWarn
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = value
+      }
+    }
+    await rm(dir, { recursive: true, force: true })
+  }
+})
+
+test("open_machina_decide degrades to the rule-based judge when rules are enabled and records it", async () => {
+  const originalStorageDir = process.env.MACHINA_STORAGE_DIR
+  const originalRules = process.env.MACHINA_JUDGE_RULES
+  const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-rules-"))
+  process.env.MACHINA_STORAGE_DIR = dir
+  process.env.MACHINA_JUDGE_RULES = "on"
+
+  try {
+    const hooks = await OpenMachinaPlugin({
+      client: {
+        session: {},
+      },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+
+    if (!hooks.tool?.open_machina_decide) {
+      throw new Error("open_machina_decide tool missing")
+    }
+
+    const output = await hooks.tool.open_machina_decide.execute(
+      {
+        input: {
+          now: "2026-02-11T10:00:00.000Z",
+          userMessage: "Summarize this later",
+          userIntent: "deferred-request",
+          persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+          activeWork: [{ id: "w1", title: "build", status: "running", priority: "high", startedAt: "2026-02-11T09:00:00.000Z" }],
+          systemState: {},
+        },
+      },
+      {
+        sessionID: "s-rules",
+        messageID: "m-1",
+        agent: "default",
+        directory: "/tmp/project",
+        worktree: "/tmp/project",
+      },
+    )
+
+    const decision = JSON.parse(output) as { action: string; reason: string; deferUntil?: string }
+    expect(decision.action).toBe("defer")
+    expect(decision.reason).toContain("[rule-based fallback] deferred")
+    expect(decision.deferUntil).toBe("2026-02-11T10:30:00.000Z")
+
+    const entry = JSON.parse((await Bun.file(path.join(dir, "decision-ledger.jsonl")).text()).trim()) as {
+      judge?: { providerID: string; modelID: string }
+    }
+    expect(entry.judge).toEqual({ providerID: "local", modelID: "rules" })
+  } finally {
+    if (originalStorageDir === undefined) {
+      delete process.env.MACHINA_STORAGE_DIR
+    } else {
+      process.env.MACHINA_STORAGE_DIR = originalStorageDir
+    }
+    if (originalRules === undefined) {
+      delete process.env.MACHINA_JUDGE_RULES
+    } else {
+      process.env.MACHINA_JUDGE_RULES = originalRules
+    }
+  }
+})
+
 test("open_machina_decide resolves key from OpenCode auth store", async () => {
   const originalEnv = {
     MACHINA_JUDGE_API_URL: process.env.MACHINA_JUDGE_API_URL,
@@ -110,6 +222,7 @@ test("open_machina_decide resolves key from OpenCode auth store", async () => {
     MACHINA_JUDGE_AUTH_PROVIDER: process.env.MACHINA_JUDGE_AUTH_PROVIDER,
     OPENCODE_AUTH_PATH: process.env.OPENCODE_AUTH_PATH,
   }
+  const originalStorageDir = process.env.MACHINA_STORAGE_DIR
   process.env.MACHINA_JUDGE_API_URL = "https://judge.example.test/v1/chat/completions"
   process.env.MACHINA_JUDGE_MODEL = "gpt-4o-mini"
   process.env.MACHINA_JUDGE_PROVIDER = "openai"
@@ -118,6 +231,7 @@ test("open_machina_decide resolves key from OpenCode auth store", async () => {
   const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-auth-"))
   const authPath = path.join(dir, "auth.json")
   process.env.OPENCODE_AUTH_PATH = authPath
+  process.env.MACHINA_STORAGE_DIR = dir
   await Bun.write(authPath, JSON.stringify({ "open-machina-judge": { type: "api", key: "judge-token" } }, null, 2))
 
   const originalFetch = globalThis.fetch
@@ -194,6 +308,15 @@ test("open_machina_decide resolves key from OpenCode auth store", async () => {
     )
 
     expect(output).toContain("\"action\": \"continue\"")
+
+    const [entry] = (await Bun.file(path.join(dir, "decision-ledger.jsonl")).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { source: string; sessionId?: string; judge?: { modelID: string }; repaired: boolean })
+    expect(entry?.source).toBe("open_machina_decide")
+    expect(entry?.sessionId).toBe("s-1")
+    expect(entry?.judge?.modelID).toBe("gpt-4o-mini")
+    expect(entry?.repaired).toBe(false)
   } finally {
     process.env.MACHINA_JUDGE_API_URL = originalEnv.MACHINA_JUDGE_API_URL
     process.env.MACHINA_JUDGE_API_KEY = originalEnv.MACHINA_JUDGE_API_KEY
@@ -201,10 +324,243 @@ test("open_machina_decide resolves key from OpenCode auth store", async () => {
     process.env.MACHINA_JUDGE_PROVIDER = originalEnv.MACHINA_JUDGE_PROVIDER
     process.env.MACHINA_JUDGE_AUTH_PROVIDER = originalEnv.MACHINA_JUDGE_AUTH_PROVIDER
     process.env.OPENCODE_AUTH_PATH = originalEnv.OPENCODE_AUTH_PATH
+    if (originalStorageDir === undefined) {
+      delete process.env.MACHINA_STORAGE_DIR
+    } else {
+      process.env.MACHINA_STORAGE_DIR = originalStorageDir
+    }
     globalThis.fetch = originalFetch
   }
 })
 
+test("OpenMachinaPlugin fires due workflow schedules when the workflow scheduler is on", async () => {
+  const keys = ["MACHINA_STORAGE_DIR", "MACHINA_WORKFLOW_SCHEDULER", "MACHINA_WORKFLOW_SCHEDULER_POLL_MS"] as const
+  const originalEnv = Object.fromEntries(keys.map((key) => [key, process.env[key]]))
+  const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-workflow-scheduler-"))
+  process.env.MACHINA_STORAGE_DIR = dir
+  process.env.MACHINA_WORKFLOW_SCHEDULER = "on"
+  process.env.MACHINA_WORKFLOW_SCHEDULER_POLL_MS = "20"
+  const schedulesFile = path.join(dir, "workflow-schedules.json")
+  await Bun.write(
+    schedulesFile,
+    JSON.stringify({
+      schemaVersion: 1,
+      schedules: [
+        {
+          id: "migrate-every-minute",
+          workflowName: "storage.migrate",
+          cron: "* * * * *",
+          missedRuns: "catch-up",
+          createdAt: new Date(Date.now() - 90_000).toISOString(),
+          nextFireAt: new Date(Date.now() - 30_000).toISOString(),
+          skippedRuns: 0,
+        },
+      ],
+    }),
+  )
+
+  try {
+    await OpenMachinaPlugin({
+      client: { session: {} },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+
+    let lastRun: { operationId: string; status: string } | undefined
+    for (let attempt = 0; attempt < 100 && !lastRun; attempt += 1) {
+      await Bun.sleep(20)
+      const file = (await Bun.file(schedulesFile).json()) as { schedules: Array<{ lastRun?: { operationId: string; status: string } }> }
+      lastRun = file.schedules[0]?.lastRun
+    }
+
+    expect(lastRun?.status).toBe("completed")
+    expect(await Bun.file(path.join(dir, "workflow-runs", `${lastRun!.operationId}.json`)).exists()).toBe(true)
+  } finally {
+    for (const key of keys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = originalEnv[key]
+      }
+    }
+    await rm(dir, { recursive: true, force: true })
+  }
+})
+
+test("open_machina_decide samples the judge as an ensemble and downgrades abort without consensus", async () => {
+  const keys = [
+    "MACHINA_JUDGE_API_URL",
+    "MACHINA_JUDGE_API_KEY",
+    "MACHINA_JUDGE_MODEL",
+    "MACHINA_JUDGE_PROVIDER",
+    "MACHINA_JUDGE_ENSEMBLE",
+    "MACHINA_JUDGE_ABORT_QUORUM",
+    "OPENCODE_AUTH_PATH",
+    "MACHINA_STORAGE_DIR",
+  ] as const
+  const originalEnv = Object.fromEntries(keys.map((key) => [key, process.env[key]]))
+  const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-ensemble-"))
+  process.env.MACHINA_JUDGE_API_URL = "https://judge.example.test/v1/chat/completions"
+  process.env.MACHINA_JUDGE_API_KEY = "judge-token"
+  process.env.MACHINA_JUDGE_MODEL = "gpt-4o-mini"
+  process.env.MACHINA_JUDGE_PROVIDER = "openai"
+  process.env.MACHINA_JUDGE_ENSEMBLE = "3"
+  process.env.MACHINA_JUDGE_ABORT_QUORUM = "0.75"
+  process.env.OPENCODE_AUTH_PATH = path.join(dir, "missing-auth.json")
+  process.env.MACHINA_STORAGE_DIR = dir
+
+  const votes = [
+    { action: "abort", confidence: 0.9, reason: "drop everything", priority: "critical" },
+    { action: "abort", confidence: 0.6, reason: "probably urgent", priority: "high" },
+    { action: "defer", confidence: 0.7, reason: "can wait", priority: "medium", deferUntil: "2026-02-11T11:00:00.000Z" },
+  ]
+  let calls = 0
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = (async () => {
+    const vote = votes[calls % votes.length]
+    calls += 1
+    return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(vote) } }] }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    })
+  }) as unknown as typeof fetch
+
+  try {
+    const hooks = await OpenMachinaPlugin({
+      client: { session: {} },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+
+    if (!hooks.tool?.open_machina_decide) {
+      throw new Error("open_machina_decide tool missing")
+    }
+
+    const output = await hooks.tool.open_machina_decide.execute(
+      {
+        input: {
+          now: "2026-02-11T10:00:00.000Z",
+          userMessage: "stop the import",
+          userIntent: "urgent-request",
+          persona: { name: "open-machina", traits: [], goals: [], fixedPrinciples: [] },
+          activeWork: [],
+          systemState: {},
+        },
+        userId: "alice",
+      },
+      { sessionID: "s-ensemble", messageID: "m-1", agent: "default", directory: "/tmp/project", worktree: "/tmp/project" },
+    )
+
+    const decision = JSON.parse(output) as {
+      action: string
+      deferUntil?: string
+      ensemble: { size: number; support: number; quorum: number; winner: string; dissenting: number; downgraded: boolean }
+    }
+    expect(calls).toBe(3)
+    expect(decision.action).toBe("defer")
+    expect(decision.deferUntil).toBe("2026-02-11T11:00:00.000Z")
+    expect(decision.ensemble).toMatchObject({ size: 3, support: 0.6818, quorum: 0.75, winner: "abort", dissenting: 1, downgraded: true })
+
+    const ledger = (await Bun.file(path.join(dir, "decision-ledger.jsonl")).text()).trim().split("\n")
+    expect(ledger).toHaveLength(3)
+    expect(ledger.map((line) => (JSON.parse(line) as { userId?: string }).userId)).toEqual(["alice", "alice", "alice"])
+  } finally {
+    for (const key of keys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = originalEnv[key]
+      }
+    }
+    globalThis.fetch = originalFetch
+  }
+})
+
+test("open_machina_decide records the judge that answered each ensemble sample", async () => {
+  const keys = [
+    "MACHINA_JUDGE_API_URL",
+    "MACHINA_JUDGE_API_KEY",
+    "MACHINA_JUDGE_MODEL",
+    "MACHINA_JUDGE_PROVIDER",
+    "MACHINA_JUDGE_FALLBACK_MODELS",
+    "MACHINA_JUDGE_MAX_ATTEMPTS",
+    "MACHINA_JUDGE_ENSEMBLE",
+    "OPENCODE_AUTH_PATH",
+    "MACHINA_STORAGE_DIR",
+  ] as const
+  const originalEnv = Object.fromEntries(keys.map((key) => [key, process.env[key]]))
+  const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-ensemble-judges-"))
+  process.env.MACHINA_JUDGE_API_URL = "https://judge.example.test/v1/chat/completions"
+  process.env.MACHINA_JUDGE_API_KEY = "judge-token"
+  process.env.MACHINA_JUDGE_MODEL = "gpt-primary"
+  process.env.MACHINA_JUDGE_PROVIDER = "openai"
+  process.env.MACHINA_JUDGE_FALLBACK_MODELS = "openai/gpt-backup"
+  process.env.MACHINA_JUDGE_MAX_ATTEMPTS = "1"
+  process.env.MACHINA_JUDGE_ENSEMBLE = "3"
+  process.env.OPENCODE_AUTH_PATH = path.join(dir, "missing-auth.json")
+  process.env.MACHINA_STORAGE_DIR = dir
+
+  let primaryCalls = 0
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = (async (_url: RequestInfo | URL, init?: RequestInit) => {
+    const model = (JSON.parse(String(init?.body)) as { model?: string }).model
+    if (model === "gpt-primary" && ++primaryCalls === 2) {
+      return new Response("unavailable", { status: 503 })
+    }
+    const vote = { action: "continue", confidence: 0.8, reason: `answered by ${model}`, priority: "medium" }
+    return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(vote) } }] }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    })
+  }) as unknown as typeof fetch
+
+  try {
+    const hooks = await OpenMachinaPlugin({
+      client: { session: {} },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+
+    if (!hooks.tool?.open_machina_decide) {
+      throw new Error("open_machina_decide tool missing")
+    }
+
+    await hooks.tool.open_machina_decide.execute(
+      {
+        input: {
+          now: "2026-02-11T10:00:00.000Z",
+          userMessage: "keep going",
+          userIntent: "general-request",
+          persona: { name: "open-machina", traits: [], goals: [], fixedPrinciples: [] },
+          activeWork: [],
+          systemState: {},
+        },
+      },
+      { sessionID: "s-ensemble-judges", messageID: "m-1", agent: "default", directory: "/tmp/project", worktree: "/tmp/project" },
+    )
+
+    const ledger = (await Bun.file(path.join(dir, "decision-ledger.jsonl")).text()).trim().split("\n")
+    const entries = ledger.map((line) => JSON.parse(line) as { judge?: { modelID: string }; rawResponse: string })
+    for (const entry of entries) {
+      expect(entry.rawResponse).toContain(`answered by ${entry.judge?.modelID}`)
+    }
+    expect(entries.map((entry) => entry.judge?.modelID).sort()).toEqual(["gpt-backup", "gpt-primary", "gpt-primary"])
+  } finally {
+    for (const key of keys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = originalEnv[key]
+      }
+    }
+    globalThis.fetch = originalFetch
+    await rm(dir, { recursive: true, force: true })
+  }
+})
+
 test("open_machina_decide returns provider/model validation errors", async () => {
   const originalEnv = {
     MACHINA_JUDGE_API_URL: process.env.MACHINA_JUDGE_API_URL,
@@ -213,6 +569,7 @@ test("open_machina_decide returns provider/model validation errors", async () =>
     MACHINA_JUDGE_AUTH_PROVIDER: process.env.MACHINA_JUDGE_AUTH_PROVIDER,
     OPENCODE_AUTH_PATH: process.env.OPENCODE_AUTH_PATH,
   }
+  const originalStorageDir = process.env.MACHINA_STORAGE_DIR
   process.env.MACHINA_JUDGE_API_URL = "https://judge.example.test/v1/chat/completions"
   process.env.MACHINA_JUDGE_MODEL = "gpt-4o-mini"
   process.env.MACHINA_JUDGE_PROVIDER = "openai"
@@ -221,6 +578,7 @@ test("open_machina_decide returns provider/model validation errors", async () =>
   const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-auth-"))
   const authPath = path.join(dir, "auth.json")
   process.env.OPENCODE_AUTH_PATH = authPath
+  process.env.MACHINA_STORAGE_DIR = dir
   await Bun.write(authPath, JSON.stringify({ "open-machina-judge": { type: "api", key: "judge-token" } }, null, 2))
 
   const hooks = await OpenMachinaPlugin({
@@ -285,6 +643,11 @@ test("open_machina_decide returns provider/model validation errors", async () =>
   process.env.MACHINA_JUDGE_PROVIDER = originalEnv.MACHINA_JUDGE_PROVIDER
   process.env.MACHINA_JUDGE_AUTH_PROVIDER = originalEnv.MACHINA_JUDGE_AUTH_PROVIDER
   process.env.OPENCODE_AUTH_PATH = originalEnv.OPENCODE_AUTH_PATH
+  if (originalStorageDir === undefined) {
+    delete process.env.MACHINA_STORAGE_DIR
+  } else {
+    process.env.MACHINA_STORAGE_DIR = originalStorageDir
+  }
 
   expect(message).toContain("AUTONOMY_JUDGE_INVALID_MODEL")
 })
@@ -299,6 +662,7 @@ test("open_machina_decide applies deny policy and uses fallback chain", async ()
     MACHINA_JUDGE_FALLBACK_MODELS: process.env.MACHINA_JUDGE_FALLBACK_MODELS,
     OPENCODE_AUTH_PATH: process.env.OPENCODE_AUTH_PATH,
   }
+  const originalStorageDir = process.env.MACHINA_STORAGE_DIR
   process.env.MACHINA_JUDGE_API_URL = "https://judge.example.test/v1/chat/completions"
   process.env.MACHINA_JUDGE_PROVIDER = "openai"
   process.env.MACHINA_JUDGE_MODEL = "gpt-primary"
@@ -309,6 +673,7 @@ test("open_machina_decide applies deny policy and uses fallback chain", async ()
   const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-auth-"))
   const authPath = path.join(dir, "auth.json")
   process.env.OPENCODE_AUTH_PATH = authPath
+  process.env.MACHINA_STORAGE_DIR = dir
   await Bun.write(authPath, JSON.stringify({ "open-machina-judge": { type: "api", key: "judge-token" } }, null, 2))
 
   const originalFetch = globalThis.fetch
@@ -401,6 +766,132 @@ test("open_machina_decide applies deny policy and uses fallback chain", async ()
     process.env.MACHINA_JUDGE_DENY_MODELS = originalEnv.MACHINA_JUDGE_DENY_MODELS
     process.env.MACHINA_JUDGE_FALLBACK_MODELS = originalEnv.MACHINA_JUDGE_FALLBACK_MODELS
     process.env.OPENCODE_AUTH_PATH = originalEnv.OPENCODE_AUTH_PATH
+    if (originalStorageDir === undefined) {
+      delete process.env.MACHINA_STORAGE_DIR
+    } else {
+      process.env.MACHINA_STORAGE_DIR = originalStorageDir
+    }
+    globalThis.fetch = originalFetch
+  }
+})
+
+test("open_machina_decide retries transient judge errors, opens the circuit and fails over to the fallback model within the decision", async () => {
+  const keys = [
+    "MACHINA_JUDGE_API_URL",
+    "MACHINA_JUDGE_MODEL",
+    "MACHINA_JUDGE_PROVIDER",
+    "MACHINA_JUDGE_AUTH_PROVIDER",
+    "MACHINA_JUDGE_FALLBACK_MODELS",
+    "MACHINA_JUDGE_MAX_ATTEMPTS",
+    "MACHINA_JUDGE_RETRY_BASE_MS",
+    "MACHINA_JUDGE_CIRCUIT_THRESHOLD",
+    "MACHINA_JUDGE_PRICING",
+    "MACHINA_JUDGE_RULES",
+    "OPENCODE_AUTH_PATH",
+    "MACHINA_STORAGE_DIR",
+  ] as const
+  const originalEnv = Object.fromEntries(keys.map((key) => [key, process.env[key]]))
+  const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-resilience-"))
+  const authPath = path.join(dir, "auth.json")
+  const pricingPath = path.join(dir, "pricing.json")
+  await Bun.write(authPath, JSON.stringify({ "open-machina-judge": { type: "api", key: "judge-token" } }, null, 2))
+  await Bun.write(pricingPath, JSON.stringify({ "openai/gpt-fallback": { inputPerMillion: 1, outputPerMillion: 4 } }))
+  Object.assign(process.env, {
+    MACHINA_JUDGE_API_URL: "https://judge.example.test/v1/chat/completions",
+    MACHINA_JUDGE_PROVIDER: "openai",
+    MACHINA_JUDGE_MODEL: "gpt-primary",
+    MACHINA_JUDGE_AUTH_PROVIDER: "open-machina-judge",
+    MACHINA_JUDGE_FALLBACK_MODELS: "openai/gpt-fallback",
+    MACHINA_JUDGE_MAX_ATTEMPTS: "2",
+    MACHINA_JUDGE_RETRY_BASE_MS: "1",
+    MACHINA_JUDGE_CIRCUIT_THRESHOLD: "1",
+    MACHINA_JUDGE_PRICING: pricingPath,
+    MACHINA_JUDGE_RULES: "off",
+    OPENCODE_AUTH_PATH: authPath,
+    MACHINA_STORAGE_DIR: dir,
+  })
+
+  const originalFetch = globalThis.fetch
+  const sentModels: string[] = []
+  globalThis.fetch = (async (_url: RequestInfo | URL, init?: RequestInit) => {
+    const model = (JSON.parse(String(init?.body ?? "{}")) as { model?: string }).model ?? ""
+    sentModels.push(model)
+    if (model === "gpt-primary") {
+      return new Response("overloaded", { status: 503 })
+    }
+    return Response.json({
+      choices: [
+        { message: { content: JSON.stringify({ action: "continue", confidence: 0.9, reason: "fallback", priority: "medium" }) } },
+      ],
+      usage: { prompt_tokens: 1200, completion_tokens: 300 },
+    })
+  }) as unknown as typeof fetch
+
+  try {
+    const hooks = await OpenMachinaPlugin({
+      client: {
+        provider: {
+          list: async () => ({
+            data: { all: [{ id: "openai", models: { "gpt-primary": {}, "gpt-fallback": {} } }] },
+          }),
+        },
+        session: {},
+      },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+    const decide = hooks.tool?.open_machina_decide
+    const usageTool = hooks.tool?.open_machina_judge_usage
+    if (!decide || !usageTool) {
+      throw new Error("judge tools missing")
+    }
+
+    const ctx = { sessionID: "s-1", messageID: "m-1", agent: "default", directory: "/tmp/project", worktree: "/tmp/project" }
+    const args = {
+      input: {
+        now: new Date().toISOString(),
+        userMessage: "continue",
+        userIntent: "general-request",
+        persona: { name: "open-machina", traits: [], goals: [], fixedPrinciples: [] },
+        activeWork: [],
+        systemState: {},
+      },
+    }
+
+    const first = await decide.execute(args, ctx)
+    expect(first).toContain("\"action\": \"continue\"")
+    expect(sentModels).toEqual(["gpt-primary", "gpt-primary", "gpt-fallback"])
+    const entry = JSON.parse((await Bun.file(path.join(dir, "decision-ledger.jsonl")).text()).trim()) as {
+      judge?: { providerID: string; modelID: string }
+    }
+    expect(entry.judge).toEqual({ providerID: "openai", modelID: "gpt-fallback" })
+
+    const out = await decide.execute(args, ctx)
+    expect(out).toContain("\"action\": \"continue\"")
+    expect(sentModels.slice(3)).toEqual(["gpt-fallback"])
+
+    const report = JSON.parse(await usageTool.execute({}, ctx)) as {
+      usage: {
+        models: Array<{ key: string; calls: number; failures: number; retries: number; inputTokens: number; costUsd: number | null }>
+        totals: { calls: number; costUsd: number | null }
+      }
+      circuits: Array<{ key: string; state: string }>
+    }
+    expect(report.usage.models).toEqual([
+      expect.objectContaining({ key: "openai/gpt-fallback", calls: 2, failures: 0, inputTokens: 2400, costUsd: 0.0048 }),
+      expect.objectContaining({ key: "openai/gpt-primary", calls: 1, failures: 1, retries: 1, costUsd: null }),
+    ])
+    expect(report.usage.totals).toEqual(expect.objectContaining({ calls: 3, costUsd: 0.0048 }))
+    expect(report.circuits).toEqual([expect.objectContaining({ key: "openai/gpt-primary", state: "open" })])
+  } finally {
+    for (const key of keys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = originalEnv[key]
+      }
+    }
     globalThis.fetch = originalFetch
   }
 })
@@ -413,21 +904,34 @@ test("chat.message uses AI decision and injects orchestration context", async ()
     MACHINA_JUDGE_PROVIDER: process.env.MACHINA_JUDGE_PROVIDER,
     MACHINA_JUDGE_AUTH_PROVIDER: process.env.MACHINA_JUDGE_AUTH_PROVIDER,
     OPENCODE_AUTH_PATH: process.env.OPENCODE_AUTH_PATH,
+    MACHINA_GUARDRAILS: process.env.MACHINA_GUARDRAILS,
+    MACHINA_PERSONA_WRITE_DEBOUNCE_MS: process.env.MACHINA_PERSONA_WRITE_DEBOUNCE_MS,
   }
+  const originalStorageDir = process.env.MACHINA_STORAGE_DIR
   process.env.MACHINA_JUDGE_API_URL = "https://judge.example.test/v1/chat/completions"
   process.env.MACHINA_JUDGE_MODEL = "gpt-judge"
+  process.env.MACHINA_PERSONA_WRITE_DEBOUNCE_MS = "0"
   process.env.MACHINA_JUDGE_PROVIDER = "openai"
   process.env.MACHINA_JUDGE_AUTH_PROVIDER = "open-machina-judge"
 
   const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-auth-"))
   const authPath = path.join(dir, "auth.json")
   process.env.OPENCODE_AUTH_PATH = authPath
+  process.env.MACHINA_STORAGE_DIR = dir
   await Bun.write(authPath, JSON.stringify({ "open-machina-judge": { type: "api", key: "token" } }, null, 2))
+  const guardrailsPath = path.join(dir, "guardrails.json")
+  process.env.MACHINA_GUARDRAILS = guardrailsPath
+  await Bun.write(
+    guardrailsPath,
+    JSON.stringify([{ id: "one-abort-per-hour", type: "abort-rate-limit", maxAborts: 1, windowMs: 3_600_000 }]),
+  )
 
   let abortCalls = 0
+  const judgeBodies: string[] = []
   const originalFetch = globalThis.fetch
-  globalThis.fetch = (async () =>
-    new Response(
+  globalThis.fetch = (async (_url: unknown, init?: RequestInit) => {
+    judgeBodies.push(String(init?.body ?? ""))
+    return new Response(
       JSON.stringify({
         choices: [
           {
@@ -443,7 +947,8 @@ test("chat.message uses AI decision and injects orchestration context", async ()
         ],
       }),
       { status: 200, headers: { "content-type": "application/json" } },
-    )) as unknown as typeof fetch
+    )
+  }) as unknown as typeof fetch
 
   try {
     const hooks = await OpenMachinaPlugin({
@@ -484,7 +989,7 @@ test("chat.message uses AI decision and injects orchestration context", async ()
 
     const output = {
       message: {},
-      parts: [{ type: "text", text: "Stop current task and handle incident now" }],
+      parts: [{ type: "text", text: "Stop current task and handle incident now, page oncall@example.com" }],
     }
 
     await hooks["chat.message"](
@@ -495,6 +1000,51 @@ test("chat.message uses AI decision and injects orchestration context", async ()
     expect(abortCalls).toBe(1)
     expect(output.parts[0]?.text).toContain("[OPEN-MACHINA ORCHESTRATION DECISION]")
     expect(output.parts[0]?.text).toContain("action=abort")
+    expect(judgeBodies[0]).toContain("stay focused on:")
+    expect(judgeBodies[0]).toContain("incident")
+    expect(judgeBodies[0]).toContain("memoryLoad")
+    expect(judgeBodies[0]).not.toContain("networkHealth")
+
+    const persona = JSON.parse(await Bun.file(path.join(dir, "persona.json")).text()) as {
+      adaptive: { topicWeights: Record<string, number> }
+    }
+    expect(persona.adaptive.topicWeights.incident).toBeGreaterThan(0)
+    expect(Object.keys(persona.adaptive.topicWeights).join(" ")).not.toMatch(/oncall|example|redact/)
+
+    const ledger = (await Bun.file(path.join(dir, "decision-ledger.jsonl")).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { source: string; sessionId?: string; decision: { action: string } | null })
+    expect(ledger).toHaveLength(1)
+    expect(ledger[0]?.source).toBe("chat.message")
+    expect(ledger[0]?.sessionId).toBe("s-1")
+    expect(ledger[0]?.decision?.action).toBe("abort")
+
+    await hooks["tool.execute.before"](
+      { tool: "workflow.run", sessionID: "s-1", callID: "c-2" },
+      { args: {} },
+    )
+    const second = {
+      message: {},
+      parts: [{ type: "text", text: "Stop again and handle another incident now" }],
+    }
+    await hooks["chat.message"](
+      { sessionID: "s-1", messageID: "m-2", agent: "atlas" },
+      second,
+    )
+
+    expect(abortCalls).toBe(1)
+    expect(second.parts[0]?.text).toContain("action=defer")
+    expect(second.parts[0]?.text).toContain("guardrail=one-abort-per-hour abort->defer")
+    const guarded = (await Bun.file(path.join(dir, "decision-ledger.jsonl")).text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { decision: { action: string } | null; guardrails?: Array<{ ruleId: string; from: string; to: string }> })
+    expect(guarded).toHaveLength(2)
+    expect(guarded[1]?.decision?.action).toBe("abort")
+    expect(guarded[1]?.guardrails).toEqual([
+      expect.objectContaining({ ruleId: "one-abort-per-hour", from: "abort", to: "defer" }),
+    ])
   } finally {
     process.env.MACHINA_JUDGE_API_URL = originalEnv.MACHINA_JUDGE_API_URL
     process.env.MACHINA_JUDGE_API_KEY = originalEnv.MACHINA_JUDGE_API_KEY
@@ -502,6 +1052,21 @@ test("chat.message uses AI decision and injects orchestration context", async ()
     process.env.MACHINA_JUDGE_PROVIDER = originalEnv.MACHINA_JUDGE_PROVIDER
     process.env.MACHINA_JUDGE_AUTH_PROVIDER = originalEnv.MACHINA_JUDGE_AUTH_PROVIDER
     process.env.OPENCODE_AUTH_PATH = originalEnv.OPENCODE_AUTH_PATH
+    if (originalEnv.MACHINA_GUARDRAILS === undefined) {
+      delete process.env.MACHINA_GUARDRAILS
+    } else {
+      process.env.MACHINA_GUARDRAILS = originalEnv.MACHINA_GUARDRAILS
+    }
+    if (originalEnv.MACHINA_PERSONA_WRITE_DEBOUNCE_MS === undefined) {
+      delete process.env.MACHINA_PERSONA_WRITE_DEBOUNCE_MS
+    } else {
+      process.env.MACHINA_PERSONA_WRITE_DEBOUNCE_MS = originalEnv.MACHINA_PERSONA_WRITE_DEBOUNCE_MS
+    }
+    if (originalStorageDir === undefined) {
+      delete process.env.MACHINA_STORAGE_DIR
+    } else {
+      process.env.MACHINA_STORAGE_DIR = originalStorageDir
+    }
     globalThis.fetch = originalFetch
   }
 })
@@ -514,6 +1079,7 @@ test("chat.message applies defer and parallel execution paths", async () => {
     MACHINA_JUDGE_AUTH_PROVIDER: process.env.MACHINA_JUDGE_AUTH_PROVIDER,
     OPENCODE_AUTH_PATH: process.env.OPENCODE_AUTH_PATH,
   }
+  const originalStorageDir = process.env.MACHINA_STORAGE_DIR
   process.env.MACHINA_JUDGE_API_URL = "https://judge.example.test/v1/chat/completions"
   process.env.MACHINA_JUDGE_MODEL = "gpt-judge"
   process.env.MACHINA_JUDGE_PROVIDER = "openai"
@@ -522,6 +1088,7 @@ test("chat.message applies defer and parallel execution paths", async () => {
   const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-auth-"))
   const authPath = path.join(dir, "auth.json")
   process.env.OPENCODE_AUTH_PATH = authPath
+  process.env.MACHINA_STORAGE_DIR = dir
   await Bun.write(authPath, JSON.stringify({ "open-machina-judge": { type: "api", key: "token" } }, null, 2))
 
   let call = 0
@@ -571,6 +1138,8 @@ test("chat.message applies defer and parallel execution paths", async () => {
     )
   }) as unknown as typeof fetch
 
+  const dispatched: Array<{ path: { id: string }; body: { parts: Array<{ text: string }> } }> = []
+  const created: Array<{ parentID?: string; title?: string }> = []
   try {
     const hooks = await OpenMachinaPlugin({
       client: {
@@ -588,14 +1157,23 @@ test("chat.message applies defer and parallel execution paths", async () => {
             },
           }),
         },
-        session: {},
+        session: {
+          create: async ({ body }) => {
+            created.push(body)
+            return { data: { id: `child-${created.length}` } }
+          },
+          promptAsync: async (args) => {
+            dispatched.push(args)
+            return {}
+          },
+        },
       },
       directory: "/tmp/project",
       worktree: "/tmp/project",
       serverUrl: new URL("http://localhost:4096"),
     })
 
-    if (!hooks["tool.execute.before"] || !hooks["chat.message"] || !hooks.tool?.open_machina_workspace) {
+    if (!hooks["tool.execute.before"] || !hooks["chat.message"] || !hooks.event || !hooks.tool?.open_machina_workspace) {
       throw new Error("required hooks missing")
     }
 
@@ -631,17 +1209,176 @@ test("chat.message applies defer and parallel execution paths", async () => {
       },
     )
     const workspace = JSON.parse(workspaceRaw) as {
-      session: { deferred: Array<{ title: string }>; parallel: Array<{ title: string }> }
+      session: {
+        deferred: Array<{ title: string }>
+        parallel: Array<{ title: string }>
+        scheduled: Array<{ kind: string; status: string; dueAt?: string; lane: string; maxConcurrency: number }>
+      }
     }
     expect(workspace.session.deferred.length).toBe(1)
     expect(workspace.session.parallel.length).toBe(1)
     expect(workspace.session.deferred[0]?.title).toContain("until 2099-01-01T00:00:00.000Z")
+
+    const deferredWork = workspace.session.scheduled.find((item) => item.kind === "deferred")
+    expect(deferredWork).toMatchObject({ status: "pending", dueAt: "2099-01-01T00:00:00.000Z" })
+    const parallelWork = workspace.session.scheduled.find((item) => item.kind === "parallel")
+    expect(parallelWork).toMatchObject({ lane: "background", maxConcurrency: 2, status: "running" })
+    expect(created).toEqual([{ parentID: "s-2", title: "background lane: also execute another branch in parallel" }])
+    expect(dispatched).toHaveLength(1)
+    expect(dispatched[0]?.path.id).toBe("child-1")
+    expect(dispatched[0]?.body.parts[0]?.text).toContain("[OPEN-MACHINA CONTROL] background lane task: also execute another branch")
+
+    await hooks.event({ event: { type: "session.idle", properties: { sessionID: "child-1" } } })
+    await Bun.sleep(20)
+    const settled = JSON.parse(
+      await hooks.tool.open_machina_workspace.execute(
+        {},
+        { sessionID: "s-2", messageID: "m-4", agent: "atlas", directory: "/tmp/project", worktree: "/tmp/project" },
+      ),
+    ) as { session: { scheduled: Array<{ kind: string; status: string }> } }
+    expect(settled.session.scheduled.find((item) => item.kind === "parallel")?.status).toBe("done")
   } finally {
     process.env.MACHINA_JUDGE_API_URL = originalEnv.MACHINA_JUDGE_API_URL
     process.env.MACHINA_JUDGE_MODEL = originalEnv.MACHINA_JUDGE_MODEL
     process.env.MACHINA_JUDGE_PROVIDER = originalEnv.MACHINA_JUDGE_PROVIDER
     process.env.MACHINA_JUDGE_AUTH_PROVIDER = originalEnv.MACHINA_JUDGE_AUTH_PROVIDER
     process.env.OPENCODE_AUTH_PATH = originalEnv.OPENCODE_AUTH_PATH
+    if (originalStorageDir === undefined) {
+      delete process.env.MACHINA_STORAGE_DIR
+    } else {
+      process.env.MACHINA_STORAGE_DIR = originalStorageDir
+    }
+    globalThis.fetch = originalFetch
+  }
+})
+
+test("open_machina_memory_recall uses local hashed embeddings without embedding config", async () => {
+  const originalEnv = {
+    MACHINA_STORAGE_DIR: process.env.MACHINA_STORAGE_DIR,
+    MACHINA_EMBEDDING_MODEL: process.env.MACHINA_EMBEDDING_MODEL,
+  }
+  const storageDir = await mkdtemp(path.join(os.tmpdir(), "open-machina-recall-"))
+  process.env.MACHINA_STORAGE_DIR = storageDir
+  delete process.env.MACHINA_EMBEDDING_MODEL
+
+  try {
+    const store = new MemoryStore({ storageDir })
+    await store.append({ id: "m1", userId: "u1", shard: "procedural", content: "Nightly snapshots keep five days", tags: ["backup"], weight: 1 })
+    await store.append({ id: "m2", userId: "u2", shard: "semantic", content: "Nightly snapshots are disabled", tags: ["backup"], weight: 1 })
+
+    const hooks = await OpenMachinaPlugin({
+      client: {
+        session: {},
+      },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+
+    if (!hooks.tool?.open_machina_memory_recall) {
+      throw new Error("open_machina_memory_recall tool missing")
+    }
+
+    const out = await hooks.tool.open_machina_memory_recall.execute(
+      { query: "snapshot retention", userId: "u1", limit: 3 },
+      {
+        sessionID: "s-1",
+        messageID: "m-1",
+        agent: "default",
+        directory: "/tmp/project",
+        worktree: "/tmp/project",
+      },
+    )
+    const payload = JSON.parse(out) as { provider: string; records: Array<{ id: string }> }
+
+    expect(payload.provider.startsWith("hashed-ngram-")).toBe(true)
+    expect(payload.records.map((record) => record.id)).toEqual(["m1"])
+
+    const context = { sessionID: "s-1", messageID: "m-2", agent: "default", directory: "/tmp/project", worktree: "/tmp/project" }
+    const other = JSON.parse(await hooks.tool.open_machina_memory_recall.execute({ query: "snapshot retention", userId: "u2" }, context)) as {
+      records: Array<{ id: string }>
+    }
+    expect(other.records.map((record) => record.id)).toEqual(["m2"])
+    await expect(hooks.tool.open_machina_memory_recall.execute({ query: "snapshot retention" }, context)).rejects.toThrow(
+      "INVALID_INPUT: expected non-empty userId string",
+    )
+  } finally {
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = value
+      }
+    }
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("open_machina_memory_recall caches record embeddings and falls back to BM25 when the embeddings request fails", async () => {
+  const keys = ["MACHINA_STORAGE_DIR", "MACHINA_EMBEDDING_MODEL", "MACHINA_EMBEDDING_API_URL", "MACHINA_JUDGE_API_KEY", "OPENCODE_AUTH_PATH"] as const
+  const originalEnv = Object.fromEntries(keys.map((key) => [key, process.env[key]]))
+  const storageDir = await mkdtemp(path.join(os.tmpdir(), "open-machina-recall-cache-"))
+  process.env.MACHINA_STORAGE_DIR = storageDir
+  process.env.MACHINA_EMBEDDING_MODEL = "text-embedding-3-small"
+  process.env.MACHINA_EMBEDDING_API_URL = "https://embeddings.example.test/v1/embeddings"
+  process.env.MACHINA_JUDGE_API_KEY = "embed-token"
+  process.env.OPENCODE_AUTH_PATH = path.join(storageDir, "missing-auth.json")
+
+  const batches: number[] = []
+  let available = true
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    if (!available) {
+      return new Response("unavailable", { status: 503 })
+    }
+    const input = (JSON.parse(String(init.body)) as { input: string[] }).input
+    batches.push(input.length)
+    return new Response(JSON.stringify({ data: input.map((text, index) => ({ index, embedding: text.includes("snapshot") ? [1, 0] : [0, 1] })) }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    })
+  }) as unknown as typeof fetch
+
+  try {
+    const store = new MemoryStore({ storageDir })
+    await store.append({ id: "m1", userId: "u1", shard: "procedural", content: "Nightly snapshots keep five days", tags: ["backup"], weight: 1 })
+    await store.append({ id: "m2", userId: "u1", shard: "semantic", content: "Judge credentials rotate quarterly", tags: ["security"], weight: 1 })
+
+    const hooks = await OpenMachinaPlugin({
+      client: { session: {} },
+      directory: "/tmp/project",
+      worktree: "/tmp/project",
+      serverUrl: new URL("http://localhost:4096"),
+    })
+    if (!hooks.tool?.open_machina_memory_recall) {
+      throw new Error("open_machina_memory_recall tool missing")
+    }
+    const context = { sessionID: "s-1", messageID: "m-1", agent: "default", directory: "/tmp/project", worktree: "/tmp/project" }
+    const recall = async () =>
+      JSON.parse(await hooks.tool!.open_machina_memory_recall!.execute({ query: "snapshot retention", userId: "u1" }, context)) as {
+        provider: string
+        embeddingError?: string
+        records: Array<{ id: string }>
+      }
+
+    expect((await recall()).provider).toBe("openai-compatible:text-embedding-3-small")
+    await recall()
+    expect(batches).toEqual([3, 1])
+
+    available = false
+    const fallback = await recall()
+    expect(fallback.provider).toBe("bm25")
+    expect(fallback.embeddingError).toContain("EMBEDDING_REQUEST_FAILED")
+    expect(fallback.records.map((record) => record.id)).toEqual(["m1"])
+  } finally {
+    for (const key of keys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = originalEnv[key]
+      }
+    }
     globalThis.fetch = originalFetch
+    await rm(storageDir, { recursive: true, force: true })
   }
 })
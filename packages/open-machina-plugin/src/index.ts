@@ -1,4 +1,49 @@
-import { createDefaultChannelConnectors, decideOrchestration, type ActiveWorkItem } from "open-machina-shared"
+import {
+  DEFAULT_GUARDRAILS,
+  DEFAULT_PERSONA_CORE,
+  DecisionLedger,
+  EmbeddingCache,
+  GuardrailEngine,
+  JudgeCircuitBreaker,
+  JudgeUsageTracker,
+  MemoryStore,
+  PersonaService,
+  RULE_BASED_JUDGE_ID,
+  SystemStateSampler,
+  WorkScheduler,
+  WorkflowEngine,
+  WorkflowScheduler,
+  createDefaultChannelConnectors,
+  createHashedEmbeddingProvider,
+  createJudgeTransport,
+  createMemoryConsolidationWorkflow,
+  createNightlyMaintenanceWorkflow,
+  createOpenAICompatibleEmbeddingProvider,
+  createRuleBasedJudge,
+  createStorageMigrationWorkflow,
+  inferJudgeApiUrl,
+  inferJudgeTransportKind,
+  judgeTransportRequiresToken,
+  parseJudgeTransportKind,
+  resolveGuardrails,
+  resolveJudgePricing,
+  resolveOrchestrationRules,
+  selectContext,
+  selectContextWithEmbeddings,
+  traceOrchestrationDecision,
+  traceOrchestrationEnsemble,
+  type ActiveWorkItem,
+  type EnsembleOptions,
+  type JudgeCircuitBreakerOptions,
+  type JudgeTransportKind,
+  type JudgeTransportOptions,
+  type OrchestrationDecision,
+  type OrchestrationInput,
+  type OrchestrationJudge,
+  type OrchestrationRule,
+  type ScheduledWorkItem,
+  type EmbeddingProvider,
+} from "open-machina-shared"
 import os from "node:os"
 import path from "node:path"
 
@@ -52,6 +97,7 @@ type OpenCodePluginInput = {
     }
     session: {
       abort?: (args: { path: { id: string } }) => Promise<unknown>
+      create?: (args: { body: { parentID?: string; title?: string } }) => Promise<unknown>
       prompt?: (args: {
         path: { id: string }
         body: {
@@ -98,6 +144,7 @@ type OpenCodeHooks = {
     loader?: (getAuth: () => Promise<unknown>) => Promise<Record<string, unknown>>
   }
   config?: (input: Record<string, unknown>) => Promise<void>
+  event?: (input: { event: { type: string; properties?: Record<string, unknown> } }) => Promise<void>
   "tool.execute.before"?: (input: { tool: string; sessionID: string; callID: string }, output: { args: Record<string, unknown> }) => Promise<void>
   "tool.execute.after"?: (
     input: { tool: string; sessionID: string; callID: string },
@@ -114,6 +161,7 @@ type JudgeConfig = {
   apiUrl?: string
   modelID: string
   authProviderID: string
+  transport?: JudgeTransportKind
 }
 
 type JudgeRuntime = {
@@ -121,6 +169,23 @@ type JudgeRuntime = {
   modelID: string
   apiUrl: string
   token: string
+  transport: JudgeTransportKind
+}
+
+type JudgeResilience = {
+  circuits: JudgeCircuitBreaker
+  usage: JudgeUsageTracker
+}
+
+type JudgeTier = {
+  judge: ModelRef
+  run: (prompt: string) => Promise<JudgeReply>
+  options?: EnsembleOptions
+}
+
+type JudgeReply = {
+  text: string
+  judge: ModelRef
 }
 
 type ModelRef = {
@@ -139,7 +204,14 @@ type SessionRuntimeState = {
   parallel: ActiveWorkItem[]
 }
 
+type SessionIdleWaiter = {
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
 const CONTROL_MARKER = "[OPEN-MACHINA CONTROL]"
+const DEFAULT_PARALLEL_TIMEOUT_MS = 30 * 60_000
+const DEFAULT_DECISION_TIMEOUT_MS = 45_000
 
 export async function info() {
   const config = await getDefaultsConfig()
@@ -237,6 +309,46 @@ export async function getPluginStatus(env: NodeJS.ProcessEnv = process.env): Pro
 export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<OpenCodeHooks> {
   const sessions = new Map<string, ActiveWorkItem[]>()
   const sessionRuntime = new Map<string, SessionRuntimeState>()
+  const systemState = new SystemStateSampler({ env: process.env })
+  const orchestrationRules = await resolveOrchestrationRules(process.env).catch((error) => {
+    warnConfigFallback("MACHINA_JUDGE_RULES", error, "rule-based judge disabled")
+    return null
+  })
+  const guardrails = new GuardrailEngine({
+    rules: await resolveGuardrails(process.env).catch((error) => {
+      warnConfigFallback("MACHINA_GUARDRAILS", error, "using built-in guardrails")
+      return DEFAULT_GUARDRAILS
+    }),
+  })
+  const memoryStore = new MemoryStore({ env: process.env })
+  const ledger = new DecisionLedger({ env: process.env })
+  const embeddingCache = new EmbeddingCache()
+  const identity = await info()
+  const personaService = new PersonaService({
+    env: process.env,
+    defaults: { name: identity.name },
+    writeDebounceMs:
+      process.env.MACHINA_PERSONA_WRITE_DEBOUNCE_MS?.trim() === "0" ? 0 : readPositiveInteger(process.env.MACHINA_PERSONA_WRITE_DEBOUNCE_MS),
+  })
+  const resilience: JudgeResilience = {
+    circuits: new JudgeCircuitBreaker(readCircuitOptions(process.env)),
+    usage: new JudgeUsageTracker(),
+  }
+  const idleWaiters = new Map<string, SessionIdleWaiter>()
+  const parallelTimeoutMs = readPositiveInteger(process.env.MACHINA_SCHEDULER_PARALLEL_TIMEOUT_MS) ?? DEFAULT_PARALLEL_TIMEOUT_MS
+  const scheduler = new WorkScheduler({
+    env: process.env,
+    pollIntervalMs: readPositiveInteger(process.env.MACHINA_SCHEDULER_POLL_MS),
+    dispatch: (item) => dispatchScheduledWork(input, item, idleWaiters, parallelTimeoutMs),
+  })
+  scheduler.start()
+  if (process.env.MACHINA_WORKFLOW_SCHEDULER?.trim().toLowerCase() === "on") {
+    new WorkflowScheduler({
+      engine: createPluginWorkflowEngine(),
+      env: { ...process.env },
+      pollIntervalMs: readPositiveInteger(process.env.MACHINA_WORKFLOW_SCHEDULER_POLL_MS),
+    }).start()
+  }
   let getJudgeAuth: (() => Promise<unknown>) | undefined
 
   return {
@@ -294,6 +406,7 @@ export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<Ope
                 agent: ctx.agent,
                 deferred: runtime.deferred,
                 parallel: runtime.parallel,
+                scheduled: await scheduler.list(ctx.sessionID).catch(() => []),
               },
             },
             null,
@@ -312,32 +425,100 @@ export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<Ope
             type: "object",
             required: false,
           },
+          userId: {
+            type: "string",
+            required: false,
+          },
         },
-        execute: async (args) => {
+        execute: async (args, ctx) => {
           const inputArg = args.input
           if (!isRecord(inputArg)) {
             throw new Error("INVALID_INPUT: expected input object")
           }
 
           const modelArg = parseModelRef(args.model)
-          const judge = await resolveJudgeRuntime({
+          const judges = await resolveJudgeRuntimes({
             env: process.env,
             client: input.client,
             getJudgeAuth,
             modelHint: modelArg,
+            circuits: resilience.circuits,
           })
-          if (!judge) {
+          if (judges.length === 0 && !orchestrationRules) {
             throw new Error(
               "AUTONOMY_JUDGE_UNAVAILABLE: run `opencode auth login` for provider open-machina-judge (or set MACHINA_JUDGE_AUTH_PROVIDER) and configure MACHINA_JUDGE_MODEL",
             )
           }
 
-          const decision = await decideOrchestration(inputArg as Parameters<typeof decideOrchestration>[0], (prompt) =>
-            callJudge(judge, prompt),
+          const orchestrationInput = inputArg as OrchestrationInput
+          const userId = typeof args.userId === "string" && args.userId.trim() ? args.userId.trim() : readUserId(process.env)
+          const decision = await decideAndRecord(
+            ledger,
+            orchestrationInput,
+            resolveJudgeTiers(orchestrationInput, judges, orchestrationRules, resilience),
+            { source: "open_machina_decide", sessionId: ctx.sessionID, userId },
           )
           return JSON.stringify(decision, null, 2)
         },
       },
+      open_machina_judge_usage: {
+        description: "Reports judge call counts, retries, token usage, estimated cost and circuit breaker state.",
+        args: {},
+        execute: async () => {
+          const pricing = await resolveJudgePricing(process.env)
+          return JSON.stringify(
+            {
+              usage: resilience.usage.report(pricing),
+              circuits: resilience.circuits.snapshot(),
+            },
+            null,
+            2,
+          )
+        },
+      },
+      open_machina_memory_recall: {
+        description: "Recalls one user's stored memories for a query using lexical and embedding similarity.",
+        args: {
+          query: {
+            type: "string",
+            required: true,
+          },
+          limit: {
+            type: "number",
+            required: false,
+          },
+          userId: {
+            type: "string",
+            required: true,
+          },
+        },
+        execute: async (args) => {
+          if (typeof args.query !== "string" || args.query.trim().length === 0) {
+            throw new Error("INVALID_INPUT: expected non-empty query string")
+          }
+          if (typeof args.userId !== "string" || args.userId.trim().length === 0) {
+            throw new Error("INVALID_INPUT: expected non-empty userId string")
+          }
+
+          const limit = typeof args.limit === "number" && args.limit > 0 ? Math.floor(args.limit) : 5
+          const userId = args.userId.trim()
+          const records = await memoryStore.query({ userId })
+          const provider = await resolveEmbeddingProvider({ env: process.env, getJudgeAuth })
+          const query = { query: args.query, limit, userId, weighting: { now: new Date() } }
+          let providerId = provider.id
+          let embeddingError: string | undefined
+          const selected =
+            records.length > 0
+              ? await selectContextWithEmbeddings(records, { ...query, provider, cache: embeddingCache }).catch((error) => {
+                  providerId = "bm25"
+                  embeddingError = error instanceof Error ? error.message : String(error)
+                  return selectContext(records, query)
+                })
+              : []
+          await memoryStore.reinforce(selected.map((record) => record.id))
+          return JSON.stringify({ provider: providerId, ...(embeddingError ? { embeddingError } : {}), records: selected }, null, 2)
+        },
+      },
     },
     "tool.execute.before": async (evt) => {
       const work = sessions.get(evt.sessionID) ?? []
@@ -357,11 +538,6 @@ export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<Ope
     },
     "chat.message": async (evt, out) => {
       const runtime = getSessionRuntime(sessionRuntime, evt.sessionID)
-      const active = (sessions.get(evt.sessionID) ?? []).filter((item) => item.status === "running")
-      if (active.length === 0) {
-        return
-      }
-
       const prompt = out.parts
         .filter((part) => part.type === "text" && typeof part.text === "string")
         .map((part) => part.text ?? "")
@@ -374,34 +550,38 @@ export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<Ope
         return
       }
 
-      const judge = await resolveJudgeRuntime({
+      await personaService.observe(prompt).catch(() => undefined)
+
+      const active = (sessions.get(evt.sessionID) ?? []).filter((item) => item.status === "running")
+      if (active.length === 0) {
+        return
+      }
+
+      const judges = await resolveJudgeRuntimes({
         env: process.env,
         client: input.client,
         getJudgeAuth,
         modelHint: evt.model,
+        circuits: resilience.circuits,
       })
-      if (!judge) {
+      if (judges.length === 0 && !orchestrationRules) {
         return
       }
 
-      const identity = await info()
-      const decision = await decideOrchestration(
-        {
-          now: new Date().toISOString(),
-          userMessage: prompt,
-          userIntent: inferIntent(prompt),
-          persona: {
-            name: identity.name,
-            traits: ["autonomous", "proactive", "user-aligned"],
-            goals: ["maximize user goal completion", "maintain continuity"],
-            fixedPrinciples: ["prevent direct harm to user or humans"],
-          },
-          activeWork: active,
-          systemState: {
-            networkHealth: "good",
-          },
-        },
-        (judgePrompt) => callJudge(judge, judgePrompt),
+      const orchestrationInput: OrchestrationInput = {
+        now: new Date().toISOString(),
+        userMessage: prompt,
+        userIntent: inferIntent(prompt),
+        persona: await resolvePersona(personaService, identity.name),
+        activeWork: active,
+        systemState: await systemState.sample().catch(() => ({})),
+      }
+      const decision = await decideAndRecord(
+        ledger,
+        orchestrationInput,
+        resolveJudgeTiers(orchestrationInput, judges, orchestrationRules, resilience),
+        { source: "chat.message", sessionId: evt.sessionID, userId: readUserId(process.env) },
+        (candidate) => guardrails.apply(candidate, { input: orchestrationInput, sessionId: evt.sessionID }),
       )
 
       if (decision.action === "abort") {
@@ -411,9 +591,31 @@ export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<Ope
       }
       if (decision.action === "defer") {
         applyDefer(runtime, active, decision.deferUntil)
+        const top = active[0]
+        if (top) {
+          await scheduler
+            .defer({
+              sessionId: evt.sessionID,
+              title: top.title,
+              prompt: `${CONTROL_MARKER} deferred work is due: ${top.title}\nOriginal request: ${prompt}`,
+              priority: top.priority,
+              deferUntil: decision.deferUntil,
+            })
+            .catch(() => undefined)
+        }
       }
       if (decision.action === "parallel") {
         applyParallel(runtime, prompt, decision)
+        await scheduler
+          .enqueueParallel({
+            sessionId: evt.sessionID,
+            title: prompt.slice(0, 80),
+            prompt: `${CONTROL_MARKER} ${decision.parallelPlan?.lane ?? "background"} lane task: ${prompt}`,
+            priority: decision.priority,
+            parallelPlan: decision.parallelPlan,
+          })
+          .then(() => scheduler.tick())
+          .catch(() => undefined)
       }
 
       const runtimeText = formatRuntimeState(runtime)
@@ -423,6 +625,10 @@ export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<Ope
         `priority=${decision.priority}`,
         `confidence=${decision.confidence}`,
         `reason=${decision.reason}`,
+        ...(decision.ensemble
+          ? [`ensemble=support ${decision.ensemble.support}/quorum ${decision.ensemble.quorum} downgraded=${decision.ensemble.downgraded}`]
+          : []),
+        ...(decision.guardrails ?? []).map((override) => `guardrail=${override.ruleId} ${override.from}->${override.to}: ${override.reason}`),
         runtimeText,
       ].join("\n")
 
@@ -438,6 +644,21 @@ export async function OpenMachinaPlugin(input: OpenCodePluginInput): Promise<Ope
     config: async (_input) => {
       return
     },
+    event: async ({ event }) => {
+      const sessionID = event.properties?.sessionID
+      const waiter = typeof sessionID === "string" ? idleWaiters.get(sessionID) : undefined
+      if (!waiter) {
+        return
+      }
+      if (event.type === "session.idle") {
+        waiter.resolve()
+      }
+      if (event.type === "session.error") {
+        const error = event.properties?.error
+        const message = isRecord(error) && isRecord(error.data) && typeof error.data.message === "string" ? error.data.message : "session failed"
+        waiter.reject(new Error(`SCHEDULER_CHILD_SESSION_FAILED: ${message}`))
+      }
+    },
   }
 }
 
@@ -524,18 +745,19 @@ function readJudgeConfig(env: NodeJS.ProcessEnv): JudgeConfig | null {
   if (!modelID) {
     return null
   }
-  return { providerID, apiUrl, modelID, authProviderID }
+  return { providerID, apiUrl, modelID, authProviderID, transport: parseJudgeTransportKind(env.MACHINA_JUDGE_TRANSPORT) }
 }
 
-async function resolveJudgeRuntime(input: {
+async function resolveJudgeRuntimes(input: {
   env: NodeJS.ProcessEnv
   client: OpenCodePluginInput["client"]
   getJudgeAuth?: () => Promise<unknown>
   modelHint?: { providerID: string; modelID: string }
-}): Promise<JudgeRuntime | null> {
+  circuits?: JudgeCircuitBreaker
+}): Promise<JudgeRuntime[]> {
   const config = readJudgeConfig(input.env)
   if (!config) {
-    return null
+    return []
   }
 
   const policy = readJudgePolicy(input.env)
@@ -544,49 +766,51 @@ async function resolveJudgeRuntime(input: {
     modelID: input.modelHint?.modelID?.trim() || config.modelID,
   }
   if (!base.providerID || !base.modelID) {
-    return null
+    return []
   }
 
   const candidates = dedupeModelRefs([base, ...policy.fallback])
   const skips: string[] = []
-  let selected: ModelRef | null = null
+  const runtimes: JudgeRuntime[] = []
   for (const candidate of candidates) {
     if (!isPolicyAllowed(policy, candidate)) {
       skips.push(`POLICY_DENY:${candidate.providerID}/${candidate.modelID}`)
       continue
     }
+    if (input.circuits && !input.circuits.canRequest(toModelKey(candidate))) {
+      skips.push(`CIRCUIT_OPEN:${toModelKey(candidate)}`)
+      continue
+    }
     const modelValidation = await validateJudgeTarget(input.client, candidate.providerID, candidate.modelID)
     if (modelValidation) {
       skips.push(modelValidation)
       continue
     }
-    selected = candidate
-    break
-  }
 
-  if (!selected) {
-    throw new Error(`AUTONOMY_JUDGE_POLICY_BLOCKED: no valid model candidate. ${skips.join(" | ")}`)
-  }
-
-  const providerID = selected.providerID
-  const modelID = selected.modelID
-
-  const token = await resolveJudgeToken({
-    env: input.env,
-    getJudgeAuth: input.getJudgeAuth,
-    authProviderID: config.authProviderID,
-    providerID,
-  })
-  if (!token) {
-    return null
+    const transport = config.transport ?? inferJudgeTransportKind(candidate.providerID)
+    const token = await resolveJudgeToken({
+      env: input.env,
+      getJudgeAuth: input.getJudgeAuth,
+      authProviderID: config.authProviderID,
+      providerID: candidate.providerID,
+    })
+    if (!token && judgeTransportRequiresToken(transport)) {
+      skips.push(`AUTH_MISSING:${toModelKey(candidate)}`)
+      continue
+    }
+    runtimes.push({
+      providerID: candidate.providerID,
+      modelID: candidate.modelID,
+      apiUrl: config.apiUrl || inferJudgeApiUrl(candidate.providerID) || "https://api.openai.com/v1/chat/completions",
+      token: token ?? "",
+      transport,
+    })
   }
 
-  return {
-    providerID,
-    modelID,
-    apiUrl: config.apiUrl || inferJudgeApiUrl(providerID) || "https://api.openai.com/v1/chat/completions",
-    token,
+  if (runtimes.length === 0 && !skips.some((skip) => skip.startsWith("CIRCUIT_OPEN:") || skip.startsWith("AUTH_MISSING:"))) {
+    throw new Error(`AUTONOMY_JUDGE_POLICY_BLOCKED: no valid model candidate. ${skips.join(" | ")}`)
   }
+  return runtimes
 }
 
 async function resolveJudgeToken(input: {
@@ -614,42 +838,43 @@ async function resolveJudgeToken(input: {
   return input.env.MACHINA_JUDGE_API_KEY?.trim() || null
 }
 
-async function callJudge(config: JudgeRuntime, prompt: string): Promise<string> {
-  const response = await fetch(config.apiUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${config.token}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: config.modelID,
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "system",
-          content: "You are open-machina orchestration judge. Return strict JSON only.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.2,
-    }),
-  })
-
-  if (!response.ok) {
-    throw new Error(`AUTONOMY_JUDGE_FAILED: HTTP ${response.status}`)
+async function resolveEmbeddingProvider(input: {
+  env: NodeJS.ProcessEnv
+  getJudgeAuth?: () => Promise<unknown>
+}): Promise<EmbeddingProvider> {
+  const modelID = input.env.MACHINA_EMBEDDING_MODEL?.trim()
+  if (!modelID) {
+    return createHashedEmbeddingProvider()
   }
 
-  const payload = (await response.json().catch(() => ({}))) as {
-    choices?: Array<{ message?: { content?: string } }>
+  const providerID = input.env.MACHINA_EMBEDDING_PROVIDER?.trim() || input.env.MACHINA_JUDGE_PROVIDER?.trim() || "openai"
+  const apiUrl =
+    input.env.MACHINA_EMBEDDING_API_URL?.trim() ||
+    toEmbeddingsApiUrl(input.env.MACHINA_JUDGE_API_URL?.trim()) ||
+    toEmbeddingsApiUrl(inferJudgeApiUrl(providerID) ?? undefined)
+  const token = await resolveJudgeToken({
+    env: input.env,
+    getJudgeAuth: input.getJudgeAuth,
+    authProviderID: input.env.MACHINA_JUDGE_AUTH_PROVIDER?.trim() || "open-machina-judge",
+    providerID,
+  })
+  if (!apiUrl || !token) {
+    return createHashedEmbeddingProvider()
   }
-  const text = payload.choices?.[0]?.message?.content
-  if (!text) {
-    throw new Error("AUTONOMY_JUDGE_FAILED: empty response")
+
+  return createOpenAICompatibleEmbeddingProvider({
+    apiUrl,
+    token,
+    modelID,
+    timeoutMs: readPositiveInteger(input.env.MACHINA_EMBEDDING_TIMEOUT_MS),
+  })
+}
+
+function toEmbeddingsApiUrl(chatUrl?: string): string | null {
+  if (!chatUrl || !chatUrl.endsWith("/chat/completions")) {
+    return null
   }
-  return text
+  return `${chatUrl.slice(0, -"/chat/completions".length)}/embeddings`
 }
 
 function classifyPriority(tool: string): "critical" | "high" | "medium" | "low" {
@@ -805,34 +1030,258 @@ function isPolicyAllowed(policy: JudgePolicy, target: ModelRef): boolean {
   return policy.allow.some((item) => `${item.providerID}/${item.modelID}` === key)
 }
 
-function inferJudgeApiUrl(providerID: string): string | null {
-  const provider = providerID.trim().toLowerCase()
-  if (provider === "openai") {
-    return "https://api.openai.com/v1/chat/completions"
+function resolveJudgeTiers(
+  orchestrationInput: OrchestrationInput,
+  judges: JudgeRuntime[],
+  rules: OrchestrationRule[] | null,
+  resilience?: JudgeResilience,
+): JudgeTier[] {
+  const tiers: JudgeTier[] = []
+  if (judges.length > 0) {
+    const deadline = AbortSignal.timeout(readPositiveInteger(process.env.MACHINA_JUDGE_DECISION_TIMEOUT_MS) ?? DEFAULT_DECISION_TIMEOUT_MS)
+    const candidates = judges.map((judge) => {
+      const key = toModelKey(judge)
+      return {
+        key,
+        ref: { providerID: judge.providerID, modelID: judge.modelID },
+        transport: createJudgeTransport({
+          kind: judge.transport,
+          apiUrl: judge.apiUrl,
+          modelID: judge.modelID,
+          token: judge.token || undefined,
+          ...readTransportOptions(process.env),
+          signal: deadline,
+          onCall: (report) => resilience?.usage.record(key, report),
+        }),
+      }
+    })
+    tiers.push({
+      judge: candidates[0]!.ref,
+      run: async (prompt) => {
+        let failure: unknown = new Error("AUTONOMY_JUDGE_UNAVAILABLE: every judge candidate has an open circuit")
+        for (const candidate of candidates) {
+          if (deadline.aborted) {
+            throw new Error("AUTONOMY_JUDGE_DEADLINE: decision deadline exceeded")
+          }
+          if (resilience && !resilience.circuits.tryAcquire(candidate.key)) {
+            continue
+          }
+          try {
+            const text = await candidate.transport.call(prompt)
+            resilience?.circuits.recordSuccess(candidate.key)
+            return { text, judge: candidate.ref }
+          } catch (error) {
+            if (!deadline.aborted) {
+              resilience?.circuits.recordFailure(candidate.key)
+            }
+            failure = error
+          }
+        }
+        throw failure
+      },
+      options: readJudgeOptions(process.env),
+    })
   }
-  if (provider === "openrouter") {
-    return "https://openrouter.ai/api/v1/chat/completions"
+  if (rules) {
+    const judge = createRuleBasedJudge(orchestrationInput, rules)
+    tiers.push({ judge: { ...RULE_BASED_JUDGE_ID }, run: async (prompt) => ({ text: await judge(prompt), judge: { ...RULE_BASED_JUDGE_ID } }) })
   }
-  if (provider === "xai") {
-    return "https://api.x.ai/v1/chat/completions"
+  return tiers
+}
+
+function readTransportOptions(env: NodeJS.ProcessEnv): Pick<JudgeTransportOptions, "timeoutMs" | "retry"> {
+  return {
+    timeoutMs: readPositiveInteger(env.MACHINA_JUDGE_TIMEOUT_MS),
+    retry: {
+      maxAttempts: readPositiveInteger(env.MACHINA_JUDGE_MAX_ATTEMPTS),
+      baseDelayMs: readPositiveInteger(env.MACHINA_JUDGE_RETRY_BASE_MS),
+    },
   }
-  return null
+}
+
+function readCircuitOptions(env: NodeJS.ProcessEnv): JudgeCircuitBreakerOptions {
+  return {
+    failureThreshold: readPositiveInteger(env.MACHINA_JUDGE_CIRCUIT_THRESHOLD),
+    cooldownMs: readPositiveInteger(env.MACHINA_JUDGE_CIRCUIT_COOLDOWN_MS),
+  }
+}
+
+function readPositiveInteger(value: string | undefined): number | undefined {
+  const parsed = Number(value?.trim() || Number.NaN)
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : undefined
+}
+
+function toModelKey(ref: ModelRef): string {
+  return `${ref.providerID}/${ref.modelID}`
+}
+
+function readJudgeOptions(env: NodeJS.ProcessEnv): EnsembleOptions {
+  const repairRounds = Number(env.MACHINA_JUDGE_REPAIR_ROUNDS?.trim() || Number.NaN)
+  const samples = Number(env.MACHINA_JUDGE_ENSEMBLE?.trim() || Number.NaN)
+  const quorum = Number(env.MACHINA_JUDGE_ABORT_QUORUM?.trim() || Number.NaN)
+  return {
+    repairRounds: Number.isInteger(repairRounds) && repairRounds >= 0 ? repairRounds : undefined,
+    samples: Number.isFinite(samples) && samples >= 2 ? Math.floor(samples) : undefined,
+    abortQuorum: Number.isFinite(quorum) && quorum > 0 ? quorum : undefined,
+  }
+}
+
+async function decideAndRecord(
+  ledger: DecisionLedger,
+  orchestrationInput: OrchestrationInput,
+  tiers: JudgeTier[],
+  context: { source: string; sessionId?: string; userId?: string },
+  guard?: (decision: OrchestrationDecision) => OrchestrationDecision,
+): Promise<OrchestrationDecision> {
+  let lastError = "AUTONOMY_JUDGE_UNAVAILABLE: no judge tier configured"
+  for (const tier of tiers) {
+    // Each sample gets its own voter so the judge that answered it is recorded with its trace.
+    const voters = Array.from({ length: tier.options?.samples ?? 1 }, () => createVoter(tier))
+    const result = tier.options?.samples
+      ? await traceOrchestrationEnsemble(
+          orchestrationInput,
+          voters.map((voter) => voter.run),
+          { ...tier.options, samples: 1 },
+        )
+      : await traceOrchestrationDecision(orchestrationInput, voters[0]!.run, tier.options).then((trace) => ({
+          decision: trace.decision,
+          traces: [trace],
+          error: trace.error,
+        }))
+    const decision = result.decision && guard ? guard(result.decision) : result.decision
+    for (const [index, trace] of result.traces.entries()) {
+      const overrides = index === result.traces.length - 1 ? decision?.guardrails : undefined
+      const judge = voters[index]?.judge() ?? tier.judge
+      await ledger.record(orchestrationInput, trace, { ...context, judge, guardrails: overrides }).catch(() => undefined)
+    }
+    if (decision) {
+      return decision
+    }
+    lastError = result.error ?? lastError
+  }
+  throw new Error(lastError)
+}
+
+function createVoter(tier: JudgeTier): { run: OrchestrationJudge; judge: () => ModelRef } {
+  let judge = tier.judge
+  return {
+    run: async (prompt) => {
+      const reply = await tier.run(prompt)
+      judge = reply.judge
+      return reply.text
+    },
+    judge: () => judge,
+  }
+}
+
+function readUserId(env: NodeJS.ProcessEnv): string | undefined {
+  return env.MACHINA_USER_ID?.trim() || undefined
+}
+
+async function resolvePersona(service: PersonaService, name: string): Promise<OrchestrationInput["persona"]> {
+  return service.toOrchestrationPersona().catch(() => ({
+    name,
+    traits: [...DEFAULT_PERSONA_CORE.traits],
+    goals: [...DEFAULT_PERSONA_CORE.goals],
+    fixedPrinciples: [...DEFAULT_PERSONA_CORE.principles],
+  }))
 }
 
 function inferIntent(text: string): string {
-  const lower = text.toLowerCase()
-  if (lower.includes("urgent") || lower.includes("incident") || lower.includes("now")) {
+  if (/\b(urgent|incident|emergency|asap|right now)\b/i.test(text)) {
     return "urgent-request"
   }
-  if (lower.includes("later") || lower.includes("defer") || lower.includes("after")) {
+  if (/\b(later|defer(red)?|afterwards)\b/i.test(text)) {
     return "deferred-request"
   }
-  if (lower.includes("parallel") || lower.includes("also")) {
+  if (/\b(in parallel|also)\b/i.test(text)) {
     return "parallel-request"
   }
   return "general-request"
 }
 
+async function dispatchScheduledWork(
+  input: OpenCodePluginInput,
+  item: ScheduledWorkItem,
+  idleWaiters: Map<string, SessionIdleWaiter>,
+  parallelTimeoutMs: number,
+): Promise<void> {
+  if (item.kind === "parallel") {
+    await dispatchParallelWork(input, item, idleWaiters, parallelTimeoutMs)
+    return
+  }
+
+  const args = { path: { id: item.sessionId }, body: { parts: [{ type: "text", text: item.prompt }] } }
+  if (input.client.session.promptAsync) {
+    await input.client.session.promptAsync(args)
+    return
+  }
+  if (input.client.session.prompt) {
+    await input.client.session.prompt(args)
+    return
+  }
+  throw new Error("SCHEDULER_DISPATCH_UNAVAILABLE: session prompt API is not available")
+}
+
+async function dispatchParallelWork(
+  input: OpenCodePluginInput,
+  item: ScheduledWorkItem,
+  idleWaiters: Map<string, SessionIdleWaiter>,
+  timeoutMs: number,
+): Promise<void> {
+  if (!input.client.session.create) {
+    throw new Error("SCHEDULER_DISPATCH_UNAVAILABLE: session create API is not available for parallel work")
+  }
+  const created = unwrapClientData(
+    await input.client.session.create({ body: { parentID: item.sessionId, title: `${item.lane} lane: ${item.title}` } }),
+  )
+  if (!isRecord(created) || typeof created.id !== "string") {
+    throw new Error("SCHEDULER_DISPATCH_FAILED: session create returned no session id")
+  }
+
+  const childID = created.id
+  const args = { path: { id: childID }, body: { parts: [{ type: "text", text: item.prompt }] } }
+  if (!input.client.session.promptAsync) {
+    if (!input.client.session.prompt) {
+      throw new Error("SCHEDULER_DISPATCH_UNAVAILABLE: session prompt API is not available")
+    }
+    await input.client.session.prompt(args)
+    return
+  }
+
+  // promptAsync returns as soon as the prompt is queued, so the lane slot is held until the child session goes idle.
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const idle = new Promise<void>((resolve, reject) => {
+    idleWaiters.set(childID, { resolve, reject })
+    timer = setTimeout(
+      () => reject(new Error(`SCHEDULER_PARALLEL_TIMEOUT: child session ${childID} did not go idle within ${timeoutMs}ms`)),
+      timeoutMs,
+    )
+    timer.unref?.()
+  })
+  void idle.catch(() => undefined)
+  try {
+    await input.client.session.promptAsync(args)
+    await idle
+  } finally {
+    clearTimeout(timer)
+    idleWaiters.delete(childID)
+  }
+}
+
+function warnConfigFallback(setting: string, error: unknown, fallback: string): void {
+  const message = error instanceof Error ? error.message : String(error)
+  console.warn(`[open-machina] ignoring ${setting}: ${message}; ${fallback}`)
+}
+
+function createPluginWorkflowEngine(): WorkflowEngine {
+  const engine = new WorkflowEngine()
+  engine.register(createStorageMigrationWorkflow())
+  engine.register(createMemoryConsolidationWorkflow())
+  engine.register(createNightlyMaintenanceWorkflow())
+  return engine
+}
+
 async function abortSession(input: OpenCodePluginInput, sessionID: string): Promise<void> {
   if (input.client.session.abort) {
     await input.client.session.abort({ path: { id: sessionID } }).catch(() => undefined)
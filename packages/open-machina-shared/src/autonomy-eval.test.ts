@@ -0,0 +1,50 @@
+import { expect, test } from "bun:test"
+import type { OrchestrationInput } from "./autonomy"
+import { EvalFixtureError, evaluateOrchestrationJudge, parseEvalFixtures, recordedJudgeFactory } from "./autonomy-eval"
+
+const baseInput: OrchestrationInput = {
+  now: "2026-02-11T10:00:00.000Z",
+  userMessage: "",
+  userIntent: "general",
+  persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+  activeWork: [],
+  systemState: {},
+}
+
+const decision = (action: string) => JSON.stringify({ action, confidence: 0.8, reason: `chose ${action}`, priority: "medium" })
+
+test("evaluateOrchestrationJudge replays recorded responses into accuracy, confusion and rates", async () => {
+  const cases = parseEvalFixtures({
+    cases: [
+      { id: "incident", input: { ...baseInput, userMessage: "prod is down" }, expected: "abort", recordedResponses: [decision("abort")] },
+      { id: "later", input: { ...baseInput, userMessage: "later please" }, expected: "defer", recordedResponses: ["defer?", decision("defer")] },
+      { id: "side-task", input: { ...baseInput, userMessage: "also lint" }, expected: "parallel", recordedResponses: [decision("continue")] },
+      { id: "garbage", input: { ...baseInput, userMessage: "hmm" }, expected: "continue", recordedResponses: ["nope", "still nope"] },
+      { id: "unrecorded", input: { ...baseInput, userMessage: "hi" }, expected: "continue" },
+    ],
+  })
+
+  const report = await evaluateOrchestrationJudge(cases, recordedJudgeFactory, { clock: () => 0 })
+
+  expect(report.total).toBe(5)
+  expect(report.correct).toBe(2)
+  expect(report.accuracy).toBe(0.4)
+  expect(report.repairRate).toBe(0.4)
+  expect(report.invalidRate).toBe(0.2)
+  expect(report.errorRate).toBe(0.2)
+  expect(report.confusion.parallel.continue).toBe(1)
+  expect(report.confusion.continue.invalid).toBe(2)
+  expect(report.confusion.abort.abort).toBe(1)
+  expect(report.results.find((result) => result.id === "unrecorded")?.error).toContain("EVAL_RECORDING_MISSING")
+})
+
+test("parseEvalFixtures rejects malformed cases", () => {
+  expect(() => parseEvalFixtures({})).toThrow(EvalFixtureError)
+  expect(() => parseEvalFixtures([{ id: "a", input: baseInput, expected: "pause" }])).toThrow("invalid expected action")
+  expect(() =>
+    parseEvalFixtures([
+      { id: "a", input: baseInput, expected: "abort" },
+      { id: "a", input: baseInput, expected: "abort" },
+    ]),
+  ).toThrow("Duplicate case id")
+})
@@ -0,0 +1,166 @@
+import { readFile } from "node:fs/promises"
+import { traceOrchestrationDecision, type DecisionOptions, type OrchestrationAction, type OrchestrationInput, type OrchestrationJudge } from "./autonomy"
+
+export type EvalCase = {
+  id: string
+  input: OrchestrationInput
+  expected: OrchestrationAction
+  recordedResponses?: string[]
+}
+
+export type EvalOutcome = OrchestrationAction | "invalid"
+
+export type EvalCaseResult = {
+  id: string
+  expected: OrchestrationAction
+  actual: EvalOutcome
+  correct: boolean
+  repaired: boolean
+  latencyMs: number
+  error?: string
+}
+
+export type EvalReport = {
+  total: number
+  correct: number
+  accuracy: number
+  repairRate: number
+  invalidRate: number
+  errorRate: number
+  confusion: Record<OrchestrationAction, Record<EvalOutcome, number>>
+  results: EvalCaseResult[]
+}
+
+export type EvalJudgeFactory = (testCase: EvalCase) => OrchestrationJudge
+
+export type EvalOptions = DecisionOptions
+
+const EVAL_ACTIONS: OrchestrationAction[] = ["abort", "defer", "parallel", "continue"]
+const INVALID_DECISION_CODE = "ORCHESTRATION_DECISION_INVALID"
+
+export class EvalFixtureError extends Error {
+  readonly code: string
+
+  constructor(code: string, message: string) {
+    super(message)
+    this.name = "EvalFixtureError"
+    this.code = code
+  }
+}
+
+export function parseEvalFixtures(raw: unknown): EvalCase[] {
+  const cases = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.cases) ? raw.cases : null
+  if (!cases) {
+    throw new EvalFixtureError("EVAL_FIXTURES_INVALID", "Fixtures must be an array of cases or an object with a cases array")
+  }
+
+  const seen = new Set<string>()
+  return cases.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== "string" || entry.id.trim().length === 0) {
+      throw new EvalFixtureError("EVAL_FIXTURES_INVALID", `Case at index ${index} is missing an id`)
+    }
+    if (seen.has(entry.id)) {
+      throw new EvalFixtureError("EVAL_FIXTURES_INVALID", `Duplicate case id: ${entry.id}`)
+    }
+    seen.add(entry.id)
+    if (!EVAL_ACTIONS.includes(entry.expected as OrchestrationAction)) {
+      throw new EvalFixtureError("EVAL_FIXTURES_INVALID", `Case ${entry.id} has invalid expected action: ${String(entry.expected)}`)
+    }
+    if (!isRecord(entry.input) || typeof entry.input.userMessage !== "string") {
+      throw new EvalFixtureError("EVAL_FIXTURES_INVALID", `Case ${entry.id} is missing an orchestration input`)
+    }
+    const recorded = entry.recordedResponses
+    if (recorded !== undefined && (!Array.isArray(recorded) || recorded.some((response) => typeof response !== "string"))) {
+      throw new EvalFixtureError("EVAL_FIXTURES_INVALID", `Case ${entry.id} recordedResponses must be a string array`)
+    }
+
+    return {
+      id: entry.id,
+      input: entry.input as OrchestrationInput,
+      expected: entry.expected as OrchestrationAction,
+      ...(recorded ? { recordedResponses: [...(recorded as string[])] } : {}),
+    }
+  })
+}
+
+export async function loadEvalFixtures(filePath: string): Promise<EvalCase[]> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(await readFile(filePath, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new EvalFixtureError("EVAL_FIXTURES_UNREADABLE", `Unable to read fixtures ${filePath}: ${message}`)
+  }
+  return parseEvalFixtures(raw)
+}
+
+export function createRecordedJudge(responses: string[]): OrchestrationJudge {
+  let next = 0
+  return async () => {
+    const response = responses[next]
+    if (response === undefined) {
+      throw new Error(`EVAL_RECORDING_EXHAUSTED: no recorded response for judge call ${next + 1}`)
+    }
+    next += 1
+    return response
+  }
+}
+
+export const recordedJudgeFactory: EvalJudgeFactory = (testCase) => {
+  if (!testCase.recordedResponses || testCase.recordedResponses.length === 0) {
+    return async () => {
+      throw new Error(`EVAL_RECORDING_MISSING: case ${testCase.id} has no recorded responses`)
+    }
+  }
+  return createRecordedJudge(testCase.recordedResponses)
+}
+
+export async function evaluateOrchestrationJudge(
+  cases: EvalCase[],
+  judgeFor: EvalJudgeFactory,
+  options: EvalOptions = {},
+): Promise<EvalReport> {
+  const confusion = Object.fromEntries(
+    EVAL_ACTIONS.map((expected) => [expected, Object.fromEntries([...EVAL_ACTIONS, "invalid"].map((outcome) => [outcome, 0]))]),
+  ) as EvalReport["confusion"]
+  const results: EvalCaseResult[] = []
+
+  for (const testCase of cases) {
+    const trace = await traceOrchestrationDecision(testCase.input, judgeFor(testCase), options)
+    const actual: EvalOutcome = trace.decision?.action ?? "invalid"
+    confusion[testCase.expected][actual] += 1
+    results.push({
+      id: testCase.id,
+      expected: testCase.expected,
+      actual,
+      correct: actual === testCase.expected,
+      repaired: trace.repaired,
+      latencyMs: trace.latencyMs,
+      ...(trace.error ? { error: trace.error } : {}),
+    })
+  }
+
+  const total = results.length
+  const correct = results.filter((result) => result.correct).length
+  const invalid = results.filter((result) => result.error?.startsWith(INVALID_DECISION_CODE)).length
+  const errored = results.filter((result) => result.actual === "invalid").length - invalid
+
+  return {
+    total,
+    correct,
+    accuracy: rate(correct, total),
+    repairRate: rate(results.filter((result) => result.repaired).length, total),
+    invalidRate: rate(invalid, total),
+    errorRate: rate(errored, total),
+    confusion,
+    results,
+  }
+}
+
+function rate(count: number, total: number): number {
+  return total === 0 ? 0 : Number((count / total).toFixed(4))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
@@ -0,0 +1,94 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { decideOrchestration, type ActiveWorkItem, type OrchestrationInput } from "./autonomy"
+import {
+  DEFAULT_ORCHESTRATION_RULES,
+  RULE_FALLBACK_LABEL,
+  createRuleBasedJudge,
+  evaluateOrchestrationRules,
+  resolveOrchestrationRules,
+} from "./autonomy-rules"
+
+const work = (priority: ActiveWorkItem["priority"]): ActiveWorkItem => ({
+  id: `w-${priority}`,
+  title: `${priority} job`,
+  status: "running",
+  priority,
+  startedAt: "2026-02-11T09:30:00.000Z",
+})
+
+const input = (overrides: Partial<OrchestrationInput>): OrchestrationInput => ({
+  now: "2026-02-11T10:00:00.000Z",
+  userMessage: "",
+  userIntent: "general-request",
+  persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+  activeWork: [work("medium")],
+  systemState: {},
+  ...overrides,
+})
+
+test("default rules map intent, active priority and idle state to labelled decisions", () => {
+  expect(evaluateOrchestrationRules(input({ userIntent: "urgent-request" }))).toMatchObject({
+    ruleId: "urgent-preempts",
+    action: "defer",
+    deferUntil: "2026-02-11T10:15:00.000Z",
+  })
+  expect(evaluateOrchestrationRules(input({ userIntent: "urgent-request", activeWork: [work("critical")] }))).toMatchObject({
+    ruleId: "urgent-beside-critical",
+    action: "parallel",
+    parallelPlan: { lane: "foreground", maxConcurrency: 2 },
+  })
+  expect(evaluateOrchestrationRules(input({ userIntent: "urgent-request", activeWork: [] })).action).toBe("continue")
+
+  const deferred = evaluateOrchestrationRules(input({ userIntent: "deferred-request" }))
+  expect(deferred.deferUntil).toBe("2026-02-11T10:30:00.000Z")
+  expect(deferred.reason.startsWith(`${RULE_FALLBACK_LABEL} deferred:`)).toBe(true)
+
+  expect(evaluateOrchestrationRules(input({ userIntent: "known-issue", userMessage: "I know it is snowing now" })).ruleId).toBe("default")
+  expect(evaluateOrchestrationRules(input({ userMessage: "Also run the linter" })).ruleId).toBe("parallel-message")
+  expect(DEFAULT_ORCHESTRATION_RULES.some((rule) => rule.then.action === "abort")).toBe(false)
+
+  const fallback = evaluateOrchestrationRules(input({}))
+  expect(fallback).toMatchObject({ ruleId: "default", action: "continue", confidence: 0.5 })
+})
+
+test("rule-based judge satisfies decideOrchestration without a network judge", async () => {
+  const request = input({ userIntent: "parallel-request" })
+  const decision = await decideOrchestration(request, createRuleBasedJudge(request))
+  expect(decision.action).toBe("parallel")
+  expect(decision.reason).toContain(RULE_FALLBACK_LABEL)
+})
+
+test("resolveOrchestrationRules is opt-in, loads custom rules and rejects invalid files", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "machina-rules-"))
+
+  try {
+    const rulesPath = join(dir, "rules.json")
+    await writeFile(
+      rulesPath,
+      JSON.stringify({
+        rules: [
+          { id: "deploys-wait", when: { message: "deploy" }, then: { action: "defer", priority: "low", reason: "deploys wait", deferMinutes: 5 } },
+          { id: "otherwise", then: { action: "continue", priority: "medium", reason: "carry on" } },
+        ],
+      }),
+      "utf8",
+    )
+
+    const rules = await resolveOrchestrationRules({ MACHINA_JUDGE_RULES: rulesPath })
+    expect(evaluateOrchestrationRules(input({ userMessage: "Deploy tonight" }), rules ?? [])).toMatchObject({
+      ruleId: "deploys-wait",
+      deferUntil: "2026-02-11T10:05:00.000Z",
+    })
+    expect(await resolveOrchestrationRules({})).toBeNull()
+    expect(await resolveOrchestrationRules({ MACHINA_JUDGE_RULES: "off" })).toBeNull()
+    expect(await resolveOrchestrationRules({ MACHINA_JUDGE_RULES: "on" })).toBe(DEFAULT_ORCHESTRATION_RULES)
+
+    await writeFile(rulesPath, JSON.stringify([{ id: "bad", then: { action: "pause", priority: "low", reason: "x" } }]), "utf8")
+    await expect(resolveOrchestrationRules({ MACHINA_JUDGE_RULES: rulesPath })).rejects.toThrow("ORCHESTRATION_RULES_INVALID")
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,224 @@
+import { readFile } from "node:fs/promises"
+import type { OrchestrationAction, OrchestrationDecision, OrchestrationInput, OrchestrationJudge } from "./autonomy"
+
+type Priority = OrchestrationDecision["priority"]
+
+export type OrchestrationRule = {
+  id: string
+  when?: {
+    intent?: string
+    message?: string
+    activeWork?: "none" | "any"
+    highestActivePriority?: Priority[]
+    networkHealth?: Array<NonNullable<OrchestrationInput["systemState"]["networkHealth"]>>
+  }
+  then: {
+    action: OrchestrationAction
+    priority: Priority
+    reason: string
+    confidence?: number
+    deferMinutes?: number
+    parallelPlan?: OrchestrationDecision["parallelPlan"]
+  }
+}
+
+export type RuleBasedDecision = OrchestrationDecision & {
+  ruleId: string
+}
+
+export const RULE_BASED_JUDGE_ID = { providerID: "local", modelID: "rules" } as const
+
+export const RULE_FALLBACK_LABEL = "[rule-based fallback]"
+
+export const DEFAULT_ORCHESTRATION_RULES: OrchestrationRule[] = [
+  {
+    id: "idle",
+    when: { activeWork: "none" },
+    then: { action: "continue", priority: "medium", reason: "no active work to interrupt" },
+  },
+  {
+    id: "urgent-beside-critical",
+    when: { intent: "\\b(urgent|incident|emergency)\\b", highestActivePriority: ["critical"] },
+    then: {
+      action: "parallel",
+      priority: "critical",
+      reason: "urgent request while critical work is running; run both",
+      parallelPlan: { lane: "foreground", maxConcurrency: 2 },
+    },
+  },
+  {
+    id: "urgent-preempts",
+    when: { intent: "\\b(urgent|incident|emergency)\\b" },
+    then: {
+      action: "defer",
+      priority: "critical",
+      reason: "urgent request outranks lower priority active work; pausing it briefly instead of aborting",
+      deferMinutes: 15,
+    },
+  },
+  {
+    id: "deferred",
+    when: { intent: "\\b(defer(red)?|later)\\b" },
+    then: { action: "defer", priority: "low", reason: "user asked for this later", deferMinutes: 30 },
+  },
+  {
+    id: "parallel-request",
+    when: { intent: "\\bparallel\\b" },
+    then: {
+      action: "parallel",
+      priority: "medium",
+      reason: "independent request can share capacity with active work",
+      parallelPlan: { lane: "background", maxConcurrency: 2 },
+    },
+  },
+  {
+    id: "parallel-message",
+    when: { message: "^\\s*also\\b|\\bin parallel\\b" },
+    then: {
+      action: "parallel",
+      priority: "medium",
+      reason: "independent request can share capacity with active work",
+      parallelPlan: { lane: "background", maxConcurrency: 2 },
+    },
+  },
+  {
+    id: "network-down",
+    when: { networkHealth: ["down"] },
+    then: { action: "defer", priority: "medium", reason: "network is down; retry once it recovers", deferMinutes: 15 },
+  },
+  {
+    id: "default",
+    then: { action: "continue", priority: "medium", reason: "no rule matched; keep current work running", confidence: 0.5 },
+  },
+]
+
+const PRIORITY_RANK: Record<Priority, number> = { low: 0, medium: 1, high: 2, critical: 3 }
+const DEFAULT_RULE_CONFIDENCE = 0.6
+const ACTIONS: OrchestrationAction[] = ["abort", "defer", "parallel", "continue"]
+
+export function evaluateOrchestrationRules(input: OrchestrationInput, rules: OrchestrationRule[] = DEFAULT_ORCHESTRATION_RULES): RuleBasedDecision {
+  const rule = rules.find((candidate) => matchesRule(input, candidate))
+  if (!rule) {
+    throw new Error("ORCHESTRATION_RULES_NO_MATCH: no rule matched and no catch-all rule is configured")
+  }
+
+  const decision: RuleBasedDecision = {
+    ruleId: rule.id,
+    action: rule.then.action,
+    confidence: rule.then.confidence ?? DEFAULT_RULE_CONFIDENCE,
+    reason: `${RULE_FALLBACK_LABEL} ${rule.id}: ${rule.then.reason}`,
+    priority: rule.then.priority,
+  }
+  if (rule.then.action === "defer" && rule.then.deferMinutes !== undefined) {
+    const base = Date.parse(input.now)
+    decision.deferUntil = new Date((Number.isNaN(base) ? Date.now() : base) + rule.then.deferMinutes * 60_000).toISOString()
+  }
+  if (rule.then.action === "parallel" && rule.then.parallelPlan) {
+    decision.parallelPlan = { ...rule.then.parallelPlan }
+  }
+  return decision
+}
+
+export function createRuleBasedJudge(input: OrchestrationInput, rules: OrchestrationRule[] = DEFAULT_ORCHESTRATION_RULES): OrchestrationJudge {
+  return async () => {
+    const { ruleId: _ruleId, ...decision } = evaluateOrchestrationRules(input, rules)
+    return JSON.stringify(decision)
+  }
+}
+
+export function parseOrchestrationRules(raw: unknown): OrchestrationRule[] {
+  const rules = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.rules) ? raw.rules : null
+  if (!rules || rules.length === 0) {
+    throw new Error("ORCHESTRATION_RULES_INVALID: expected a non-empty rules array")
+  }
+
+  return rules.map((rule, index) => {
+    if (!isRecord(rule) || typeof rule.id !== "string" || rule.id.trim().length === 0) {
+      throw new Error(`ORCHESTRATION_RULES_INVALID: rule at index ${index} is missing an id`)
+    }
+    const then = rule.then
+    if (!isRecord(then) || !ACTIONS.includes(then.action as OrchestrationAction)) {
+      throw new Error(`ORCHESTRATION_RULES_INVALID: rule ${rule.id} has an invalid action`)
+    }
+    if (!(typeof then.priority === "string" && then.priority in PRIORITY_RANK) || typeof then.reason !== "string") {
+      throw new Error(`ORCHESTRATION_RULES_INVALID: rule ${rule.id} needs a priority and reason`)
+    }
+    if (then.confidence !== undefined && (typeof then.confidence !== "number" || then.confidence < 0 || then.confidence > 1)) {
+      throw new Error(`ORCHESTRATION_RULES_INVALID: rule ${rule.id} confidence must be between 0 and 1`)
+    }
+    for (const key of ["intent", "message"] as const) {
+      const pattern = isRecord(rule.when) ? rule.when[key] : undefined
+      if (pattern !== undefined) {
+        try {
+          new RegExp(String(pattern), "i")
+        } catch {
+          throw new Error(`ORCHESTRATION_RULES_INVALID: rule ${rule.id} has an invalid ${key} pattern`)
+        }
+      }
+    }
+    return rule as OrchestrationRule
+  })
+}
+
+export async function resolveOrchestrationRules(env: NodeJS.ProcessEnv = process.env): Promise<OrchestrationRule[] | null> {
+  const setting = env.MACHINA_JUDGE_RULES?.trim()
+  if (!setting || setting === "off") {
+    return null
+  }
+  if (setting === "on") {
+    return DEFAULT_ORCHESTRATION_RULES
+  }
+  return loadOrchestrationRules(setting)
+}
+
+export async function loadOrchestrationRules(filePath: string): Promise<OrchestrationRule[]> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(await readFile(filePath, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`ORCHESTRATION_RULES_INVALID: unable to read ${filePath}: ${message}`)
+  }
+  return parseOrchestrationRules(raw)
+}
+
+function matchesRule(input: OrchestrationInput, rule: OrchestrationRule): boolean {
+  const when = rule.when
+  if (!when) {
+    return true
+  }
+
+  const active = (Array.isArray(input.activeWork) ? input.activeWork : []).filter((item) => item.status === "running")
+  if (when.activeWork === "none" && active.length > 0) {
+    return false
+  }
+  if (when.activeWork === "any" && active.length === 0) {
+    return false
+  }
+  if (when.intent !== undefined && !new RegExp(when.intent, "i").test(input.userIntent ?? "")) {
+    return false
+  }
+  if (when.message !== undefined && !new RegExp(when.message, "i").test(input.userMessage ?? "")) {
+    return false
+  }
+  if (when.highestActivePriority !== undefined) {
+    const highest = active.reduce<Priority | null>(
+      (current, item) => (current === null || PRIORITY_RANK[item.priority] > PRIORITY_RANK[current] ? item.priority : current),
+      null,
+    )
+    if (highest === null || !when.highestActivePriority.includes(highest)) {
+      return false
+    }
+  }
+  if (when.networkHealth !== undefined) {
+    const health = input.systemState?.networkHealth
+    if (!health || !when.networkHealth.includes(health)) {
+      return false
+    }
+  }
+  return true
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
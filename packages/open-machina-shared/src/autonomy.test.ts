@@ -1,5 +1,14 @@
 import { expect, test } from "bun:test"
-import { decideOrchestration, parseDecision, shouldInterrupt } from "./autonomy"
+import {
+  DEFAULT_ABORT_QUORUM,
+  decideOrchestration,
+  decideOrchestrationEnsemble,
+  parseDecision,
+  shouldInterrupt,
+  traceOrchestrationDecision,
+  traceOrchestrationEnsemble,
+  type OrchestrationInput,
+} from "./autonomy"
 
 test("parseDecision accepts strict JSON decision", () => {
   const result = parseDecision(
@@ -59,3 +68,120 @@ test("decideOrchestration retries once when first judge output is invalid", asyn
   expect(decision.action).toBe("abort")
   expect(shouldInterrupt(decision)).toBe(true)
 })
+
+const traceInput: OrchestrationInput = {
+  now: "2026-02-11T10:00:00.000Z",
+  userMessage: "Summarize the logs later",
+  userIntent: "deferred-request",
+  persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+  activeWork: [],
+  systemState: {},
+}
+
+test("traceOrchestrationDecision records prompt, raw responses, repair flag and latency", async () => {
+  let tick = 0
+  const clock = () => (tick += 40)
+  let calls = 0
+  const trace = await traceOrchestrationDecision(
+    traceInput,
+    async () => {
+      calls += 1
+      return calls === 1 ? "maybe defer?" : JSON.stringify({ action: "defer", confidence: 0.7, reason: "not urgent", priority: "low" })
+    },
+    { clock },
+  )
+
+  expect(trace.prompt).toContain("Input JSON:")
+  expect(trace.responses).toEqual(["maybe defer?", expect.stringContaining("\"defer\"")])
+  expect(trace.repaired).toBe(true)
+  expect(trace.decision?.action).toBe("defer")
+  expect(trace.latencyMs).toBe(40)
+})
+
+test("traceOrchestrationDecision captures judge failures instead of throwing", async () => {
+  const trace = await traceOrchestrationDecision(traceInput, async () => {
+    throw new Error("AUTONOMY_JUDGE_FAILED: HTTP 500")
+  })
+
+  expect(trace.decision).toBeNull()
+  expect(trace.responses).toEqual([])
+  expect(trace.error).toBe("AUTONOMY_JUDGE_FAILED: HTTP 500")
+  await expect(decideOrchestration(traceInput, async () => "nope")).rejects.toThrow("ORCHESTRATION_DECISION_INVALID")
+})
+
+const vote = (action: string, confidence: number, extra: Record<string, unknown> = {}) => async () =>
+  JSON.stringify({ action, confidence, reason: `${action} vote`, priority: "high", ...extra })
+
+test("decideOrchestrationEnsemble allows abort when confidence-weighted consensus meets quorum", async () => {
+  const decision = await decideOrchestrationEnsemble(traceInput, [vote("abort", 0.9), vote("abort", 0.8), vote("continue", 0.6)])
+
+  expect(decision.action).toBe("abort")
+  expect(decision.confidence).toBe(0.85)
+  expect(decision.ensemble).toEqual({
+    size: 3,
+    quorum: DEFAULT_ABORT_QUORUM,
+    support: 0.7391,
+    tally: { abort: 1.7, continue: 0.6 },
+    winner: "abort",
+    dissenting: 1,
+    abstained: 0,
+    downgraded: false,
+  })
+})
+
+test("decideOrchestrationEnsemble downgrades abort without consensus and counts failed votes as abstentions", async () => {
+  const decision = await decideOrchestrationEnsemble(
+    traceInput,
+    [vote("abort", 0.9), vote("defer", 0.7, { deferUntil: "2026-02-11T11:00:00.000Z" }), async () => "not json"],
+  )
+
+  expect(decision.action).toBe("defer")
+  expect(decision.deferUntil).toBe("2026-02-11T11:00:00.000Z")
+  expect(decision.reason).toContain("abort lacked consensus")
+  expect(decision.ensemble?.winner).toBe("abort")
+  expect(decision.ensemble?.abstained).toBe(1)
+  expect(decision.ensemble?.downgraded).toBe(true)
+
+  let calls = 0
+  const sampled = await traceOrchestrationEnsemble(
+    traceInput,
+    [
+      async () => {
+        calls += 1
+        throw new Error("AUTONOMY_JUDGE_FAILED: HTTP 503")
+      },
+    ],
+    { samples: 3 },
+  )
+  expect(calls).toBe(3)
+  expect(sampled.decision).toBeNull()
+  expect(sampled.error).toBe("ORCHESTRATION_ENSEMBLE_FAILED: no judge returned a valid decision (AUTONOMY_JUDGE_FAILED: HTTP 503)")
+})
+
+test("traceOrchestrationDecision feeds field errors and original input into configurable repair rounds", async () => {
+  const prompts: string[] = []
+  const answers = [
+    "I think we should wait",
+    JSON.stringify({ action: "defer", confidence: 250, reason: "later", priority: "low" }),
+    JSON.stringify({ action: "defer", confidence: 0.6, reason: "later", priority: "low" }),
+  ]
+  const judge = async (prompt: string) => {
+    prompts.push(prompt)
+    return answers[prompts.length - 1] ?? "nope"
+  }
+
+  const trace = await traceOrchestrationDecision(traceInput, judge, { repairRounds: 2 })
+  expect(trace.decision?.confidence).toBe(0.6)
+  expect(trace.responses).toHaveLength(3)
+  expect(prompts[1]).toContain("- $: response did not contain a JSON object")
+  expect(prompts[2]).toContain("- confidence: must be <= 1")
+  expect(prompts[2]).toContain("Original input JSON:")
+  expect(prompts[2]).toContain(traceInput.userMessage)
+  expect(prompts[2]).toContain("JSON Schema:")
+
+  prompts.length = 0
+  const exhausted = await traceOrchestrationDecision(traceInput, judge, { repairRounds: 0 })
+  expect(prompts).toHaveLength(1)
+  expect(exhausted.error).toBe("ORCHESTRATION_DECISION_INVALID: $: response did not contain a JSON object")
+  expect(exhausted.validationErrors).toEqual([{ path: "$", message: "response did not contain a JSON object" }])
+})
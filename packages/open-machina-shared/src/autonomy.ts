@@ -1,3 +1,11 @@
+import {
+  ORCHESTRATION_DECISION_SCHEMA,
+  formatValidationErrors,
+  parseDecisionResult,
+  type DecisionValidationError,
+} from "./decision-schema"
+import type { GuardrailOverride } from "./guardrails"
+
 export type OrchestrationAction = "abort" | "defer" | "parallel" | "continue"
 
 export type OrchestrationDecision = {
@@ -10,6 +18,30 @@ export type OrchestrationDecision = {
     lane: "foreground" | "background"
     maxConcurrency: number
   }
+  ensemble?: EnsembleSummary
+  guardrails?: GuardrailOverride[]
+}
+
+export type EnsembleSummary = {
+  size: number
+  quorum: number
+  support: number
+  tally: Partial<Record<OrchestrationAction, number>>
+  winner: OrchestrationAction
+  dissenting: number
+  abstained: number
+  downgraded: boolean
+}
+
+export type EnsembleOptions = DecisionOptions & {
+  samples?: number
+  abortQuorum?: number
+}
+
+export type EnsembleTrace = {
+  decision: OrchestrationDecision | null
+  traces: DecisionTrace[]
+  error?: string
 }
 
 export type ActiveWorkItem = {
@@ -40,6 +72,27 @@ export type OrchestrationInput = {
 
 export type OrchestrationJudge = (prompt: string) => Promise<string>
 
+export type DecisionTrace = {
+  prompt: string
+  responses: string[]
+  decision: OrchestrationDecision | null
+  repaired: boolean
+  latencyMs: number
+  error?: string
+  validationErrors?: DecisionValidationError[]
+}
+
+export type DecisionOptions = {
+  repairRounds?: number
+  clock?: () => number
+}
+
+export const DEFAULT_ABORT_QUORUM = 0.67
+
+export const DEFAULT_REPAIR_ROUNDS = 1
+
+const ENSEMBLE_TIE_ORDER: OrchestrationAction[] = ["defer", "continue", "parallel", "abort"]
+
 const DECISION_SCHEMA = [
   "Return strict JSON only with keys:",
   "action: abort|defer|parallel|continue",
@@ -50,26 +103,127 @@ const DECISION_SCHEMA = [
   "parallelPlan: optional { lane: foreground|background, maxConcurrency: number }",
 ].join("\n")
 
-export async function decideOrchestration(input: OrchestrationInput, judge: OrchestrationJudge): Promise<OrchestrationDecision> {
+export async function decideOrchestration(
+  input: OrchestrationInput,
+  judge: OrchestrationJudge,
+  options: DecisionOptions = {},
+): Promise<OrchestrationDecision> {
+  const trace = await traceOrchestrationDecision(input, judge, options)
+  if (trace.decision) {
+    return trace.decision
+  }
+  throw new Error(trace.error)
+}
+
+export async function traceOrchestrationDecision(
+  input: OrchestrationInput,
+  judge: OrchestrationJudge,
+  options: DecisionOptions = {},
+): Promise<DecisionTrace> {
+  const clock = options.clock ?? (() => performance.now())
+  const repairRounds = Math.max(0, Math.floor(options.repairRounds ?? DEFAULT_REPAIR_ROUNDS))
   const prompt = createDecisionPrompt(input)
+  const startedAt = clock()
+  const responses: string[] = []
+  const finish = (decision: OrchestrationDecision | null, error?: string, validationErrors?: DecisionValidationError[]): DecisionTrace => ({
+    prompt,
+    responses,
+    decision,
+    repaired: responses.length > 1,
+    latencyMs: Math.max(0, Math.round(clock() - startedAt)),
+    error,
+    ...(validationErrors ? { validationErrors } : {}),
+  })
+
+  let request = prompt
+  let errors: DecisionValidationError[] = []
+  try {
+    for (let round = 0; round <= repairRounds; round += 1) {
+      const response = await judge(request)
+      responses.push(response)
+      const parsed = parseDecisionResult(response)
+      if (parsed.decision) {
+        return finish(parsed.decision)
+      }
+      errors = parsed.errors
+      request = createRepairPrompt(input, response, errors)
+    }
+  } catch (error) {
+    return finish(null, error instanceof Error ? error.message : String(error))
+  }
+
+  return finish(null, `ORCHESTRATION_DECISION_INVALID: ${formatValidationErrors(errors)}`, errors)
+}
 
-  const first = await judge(prompt)
-  const parsedFirst = parseDecision(first)
-  if (parsedFirst) {
-    return parsedFirst
+export async function decideOrchestrationEnsemble(
+  input: OrchestrationInput,
+  judges: OrchestrationJudge[],
+  options: EnsembleOptions = {},
+): Promise<OrchestrationDecision> {
+  const result = await traceOrchestrationEnsemble(input, judges, options)
+  if (result.decision) {
+    return result.decision
   }
+  throw new Error(result.error)
+}
 
-  const repair = await judge([
-    "Your previous answer was invalid.",
-    DECISION_SCHEMA,
-    "Return one valid JSON object now.",
-  ].join("\n"))
-  const parsedRepair = parseDecision(repair)
-  if (parsedRepair) {
-    return parsedRepair
+export async function traceOrchestrationEnsemble(
+  input: OrchestrationInput,
+  judges: OrchestrationJudge[],
+  options: EnsembleOptions = {},
+): Promise<EnsembleTrace> {
+  const samples = Math.max(1, Math.floor(options.samples ?? 1))
+  const quorum = Math.max(0, Math.min(1, options.abortQuorum ?? DEFAULT_ABORT_QUORUM))
+  const voters = judges.flatMap((judge) => Array.from({ length: samples }, () => judge))
+  if (voters.length === 0) {
+    return { decision: null, traces: [], error: "ORCHESTRATION_ENSEMBLE_EMPTY: at least one judge is required" }
   }
 
-  throw new Error("ORCHESTRATION_DECISION_INVALID: judge response did not return valid decision JSON")
+  const traces = await Promise.all(voters.map((judge) => traceOrchestrationDecision(input, judge, options)))
+  const votes = traces.flatMap((trace) => (trace.decision ? [trace.decision] : []))
+  if (votes.length === 0) {
+    const errors = [...new Set(traces.map((trace) => trace.error ?? "unknown error"))]
+    return { decision: null, traces, error: `ORCHESTRATION_ENSEMBLE_FAILED: no judge returned a valid decision (${errors.join(" | ")})` }
+  }
+
+  const tally: Partial<Record<OrchestrationAction, number>> = {}
+  for (const vote of votes) {
+    tally[vote.action] = (tally[vote.action] ?? 0) + vote.confidence
+  }
+  const abstained = traces.length - votes.length
+  const totalWeight = votes.reduce((sum, vote) => sum + vote.confidence, 0) + abstained
+  const winner = ENSEMBLE_TIE_ORDER.reduce((best, action) => ((tally[action] ?? 0) > (tally[best] ?? 0) ? action : best))
+  const support = totalWeight === 0 ? 0 : (tally[winner] ?? 0) / totalWeight
+  const downgraded = winner === "abort" && support < quorum
+  const action: OrchestrationAction = downgraded ? "defer" : winner
+
+  const backing = votes.filter((vote) => vote.action === winner).sort((left, right) => right.confidence - left.confidence)
+  const lead = backing[0]!
+  const summary: EnsembleSummary = {
+    size: traces.length,
+    quorum,
+    support: Number(support.toFixed(4)),
+    tally: Object.fromEntries(Object.entries(tally).map(([key, weight]) => [key, Number(weight.toFixed(4))])),
+    winner,
+    dissenting: votes.length - backing.length,
+    abstained,
+    downgraded,
+  }
+
+  return {
+    traces,
+    decision: {
+      action,
+      confidence: Number((backing.reduce((sum, vote) => sum + vote.confidence, 0) / backing.length).toFixed(4)),
+      reason: downgraded
+        ? `abort lacked consensus (support ${summary.support} < quorum ${quorum}); deferring instead: ${lead.reason}`
+        : lead.reason,
+      priority: lead.priority,
+      deferUntil: downgraded ? votes.find((vote) => vote.action === "defer")?.deferUntil : lead.deferUntil,
+      parallelPlan: action === "parallel" ? lead.parallelPlan : undefined,
+      ensemble: summary,
+    },
+  }
 }
 
 export function createDecisionPrompt(input: OrchestrationInput): string {
@@ -85,77 +239,30 @@ export function createDecisionPrompt(input: OrchestrationInput): string {
   ].join("\n")
 }
 
-export function parseDecision(raw: string): OrchestrationDecision | null {
-  let parsed: unknown
-  try {
-    parsed = JSON.parse(raw)
-  } catch {
-    const match = raw.match(/\{[\s\S]*\}/)
-    if (!match) {
-      return null
-    }
-    try {
-      parsed = JSON.parse(match[0])
-    } catch {
-      return null
-    }
-  }
-
-  if (!isRecord(parsed)) {
-    return null
-  }
-
-  const action = parsed.action
-  const confidence = parsed.confidence
-  const reason = parsed.reason
-  const priority = parsed.priority
-  if (!isAction(action) || typeof confidence !== "number" || confidence < 0 || confidence > 1) {
-    return null
-  }
-  if (typeof reason !== "string" || reason.trim().length === 0 || !isPriority(priority)) {
-    return null
-  }
-
-  const deferUntil = typeof parsed.deferUntil === "string" && parsed.deferUntil.length > 0 ? parsed.deferUntil : undefined
-  const parallelPlan = parseParallelPlan(parsed.parallelPlan)
+export function createRepairPrompt(input: OrchestrationInput, previous: string, errors: DecisionValidationError[]): string {
+  return [
+    "Your previous answer was invalid.",
+    "Validation errors:",
+    ...errors.map((error) => `- ${error.path}: ${error.message}`),
+    "",
+    "Previous answer:",
+    previous,
+    "",
+    DECISION_SCHEMA,
+    "JSON Schema:",
+    JSON.stringify(ORCHESTRATION_DECISION_SCHEMA),
+    "",
+    "Original input JSON:",
+    JSON.stringify(input, null, 2),
+    "",
+    "Return one valid JSON object now.",
+  ].join("\n")
+}
 
-  return {
-    action,
-    confidence,
-    reason: reason.trim(),
-    priority,
-    deferUntil,
-    parallelPlan,
-  }
+export function parseDecision(raw: string): OrchestrationDecision | null {
+  return parseDecisionResult(raw).decision
 }
 
 export function shouldInterrupt(decision: OrchestrationDecision): boolean {
   return decision.action === "abort" || decision.action === "parallel"
 }
-
-function parseParallelPlan(input: unknown): { lane: "foreground" | "background"; maxConcurrency: number } | undefined {
-  if (!isRecord(input)) {
-    return undefined
-  }
-  const lane = input.lane
-  const maxConcurrency = input.maxConcurrency
-  if ((lane !== "foreground" && lane !== "background") || typeof maxConcurrency !== "number") {
-    return undefined
-  }
-  return {
-    lane,
-    maxConcurrency: Math.max(1, Math.min(32, Math.floor(maxConcurrency))),
-  }
-}
-
-function isAction(value: unknown): value is OrchestrationAction {
-  return value === "abort" || value === "defer" || value === "parallel" || value === "continue"
-}
-
-function isPriority(value: unknown): value is "critical" | "high" | "medium" | "low" {
-  return value === "critical" || value === "high" || value === "medium" || value === "low"
-}
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null
-}
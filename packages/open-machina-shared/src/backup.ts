@@ -32,6 +32,10 @@ export const DEFAULT_SNAPSHOT_POLICY: SnapshotPolicy = {
   retention: 5,
 }
 
+export const SNAPSHOT_CADENCE_CRON: Record<SnapshotPolicy["cadence"], string> = {
+  daily: "@daily",
+}
+
 export type CommandResult = {
   exitCode: number
   stdout: string
@@ -0,0 +1,174 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+  CONSOLIDATED_TAG,
+  MEMORY_CONSOLIDATION_WORKFLOW,
+  clusterEpisodicRecords,
+  consolidateMemories,
+  createMemoryConsolidationWorkflow,
+  type ConsolidationReport,
+} from "./consolidation"
+import type { MemoryRecord } from "./memory"
+import { MemoryStore } from "./memory-store"
+import { WorkflowEngine } from "./workflow"
+import { WorkflowRunStore } from "./workflow-runs"
+
+const episodes: MemoryRecord[] = [
+  { id: "e1", userId: "u1", shard: "episodic", content: "Deploy to staging failed on migration step", tags: ["deploy"], createdAt: "2026-02-01T00:00:00.000Z", weight: 0.6 },
+  { id: "e2", userId: "u1", shard: "episodic", content: "Staging deploy migration failed again", tags: ["deploy"], createdAt: "2026-02-02T00:00:00.000Z", weight: 0.8 },
+  { id: "e3", userId: "u1", shard: "episodic", content: "Prefers dark roast coffee in the morning", tags: ["coffee"], createdAt: "2026-02-03T00:00:00.000Z", weight: 0.4 },
+  { id: "e4", userId: "u2", shard: "episodic", content: "Staging deploy migration failed", tags: ["deploy"], createdAt: "2026-02-04T00:00:00.000Z", weight: 0.5 },
+]
+
+async function seed(storageDir: string): Promise<MemoryStore> {
+  const store = new MemoryStore({ storageDir, now: () => new Date("2026-02-10T00:00:00.000Z") })
+  for (const record of episodes) {
+    await store.append(record)
+  }
+  return store
+}
+
+test("clusterEpisodicRecords groups related notes per user and drops singletons", () => {
+  const clusters = clusterEpisodicRecords(episodes)
+  expect(clusters).toEqual([{ userId: "u1", sourceIds: ["e1", "e2"] }])
+})
+
+test("consolidateMemories writes linked semantic summaries and down-weights sources", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-consolidation-"))
+
+  try {
+    const store = await seed(storageDir)
+    const prompts: string[] = []
+    const report = await consolidateMemories(store, {
+      summarizer: async (prompt) => {
+        prompts.push(prompt)
+        return "Staging deploys keep failing at the migration step."
+      },
+    })
+
+    expect(report.scanned).toBe(4)
+    expect(report.summaries).toHaveLength(1)
+    expect(report.downWeighted).toEqual(["e1", "e2"])
+    expect(prompts[0]).toContain("Staging deploy migration failed again")
+
+    const [summary] = await store.query({ shard: "semantic" })
+    expect(summary?.sourceIds).toEqual(["e1", "e2"])
+    expect(summary?.tags).toEqual(["deploy", CONSOLIDATED_TAG])
+    expect(summary?.weight).toBe(0.8)
+    expect((await store.get("e2"))?.weight).toBeCloseTo(0.2)
+
+    const again = await consolidateMemories(store, { summarizer: async () => "unused" })
+    expect(again.summaries).toHaveLength(0)
+    expect((await store.integrity()).healthy).toBe(true)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("archive mode hides consolidated sources from queries but keeps them for their summary", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-consolidation-archive-"))
+
+  try {
+    const store = await seed(storageDir)
+    const report = await consolidateMemories(store, { summarizer: async () => "Staging migrations fail.", mode: "archive" })
+
+    expect(report.archived).toEqual(["e1", "e2"])
+    expect((await store.query({ userId: "u1", shard: "episodic" })).map((record) => record.id)).toEqual(["e3"])
+    const [summary] = await store.query({ shard: "semantic" })
+    const sources = await Promise.all((summary?.sourceIds ?? []).map((id) => store.get(id)))
+    expect(sources.map((record) => record?.archivedAt !== undefined)).toEqual([true, true])
+    expect((await store.query({ userId: "u1", shard: "episodic", includeArchived: true })).map((record) => record.id)).toEqual(["e1", "e2", "e3"])
+    expect((await store.exportUser("u1")).records.map((record) => record.id)).toContain("e1")
+
+    const again = await consolidateMemories(store, { summarizer: async () => "unused", mode: "archive" })
+    expect(again).toMatchObject({ summaries: [], archived: [] })
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("a retried summarize step reuses summaries written before it failed", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-consolidation-retry-"))
+
+  try {
+    const store = await seed(storageDir)
+    await store.append({ id: "e5", userId: "u2", shard: "episodic", content: "Staging deploy migration failed twice", tags: ["deploy"], weight: 0.5 })
+    let calls = 0
+    const flaky = async () => {
+      calls += 1
+      if (calls === 2) {
+        throw new Error("SUMMARIZER_UNAVAILABLE: model offline")
+      }
+      return "Staging migrations fail."
+    }
+
+    await expect(consolidateMemories(store, { summarizer: flaky })).rejects.toThrow("model offline")
+    expect(await store.query({ shard: "semantic" })).toHaveLength(1)
+
+    const report = await consolidateMemories(store, { summarizer: flaky })
+    expect(calls).toBe(3)
+    expect(report.summaries.map((summary) => summary.userId)).toEqual(["u1", "u2"])
+    expect((await store.query({ shard: "semantic" })).map((record) => record.id).sort()).toEqual(
+      report.summaries.map((summary) => summary.id).sort(),
+    )
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("consolidation workflow cancels while the summarizer is pending", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-consolidation-cancel-"))
+
+  try {
+    await seed(storageDir)
+    const engine = new WorkflowEngine()
+    engine.register(createMemoryConsolidationWorkflow(() => new Promise<string>(() => {})))
+
+    const execution = await engine.run(MEMORY_CONSOLIDATION_WORKFLOW, {
+      payload: { storageDir },
+      cancelAfterMs: 50,
+    })
+
+    expect(execution.status).toBe("cancelled")
+    const store = new MemoryStore({ storageDir })
+    expect(await store.query({ shard: "semantic" })).toHaveLength(0)
+    expect((await store.get("e1"))?.weight).toBe(0.6)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("consolidation workflow resumes a failed run after the clustering checkpoint", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-consolidation-resume-"))
+
+  try {
+    await seed(storageDir)
+    let available = false
+    const runs = new WorkflowRunStore({ storageDir })
+    const engine = new WorkflowEngine({ store: runs })
+    engine.register(
+      createMemoryConsolidationWorkflow(async () => {
+        if (!available) {
+          throw new Error("SUMMARIZER_UNAVAILABLE: model offline")
+        }
+        return "Staging migrations fail."
+      }),
+    )
+
+    const failed = await engine.run(MEMORY_CONSOLIDATION_WORKFLOW, { payload: { storageDir, mode: "archive" } })
+    expect(failed.status).toBe("failed")
+    expect(failed.completedSteps).toEqual(["cluster"])
+    expect((await runs.get(failed.operationId))?.input).toEqual({ storageDir, mode: "archive" })
+
+    available = true
+    const resumed = await engine.resume<unknown, ConsolidationReport>(failed.operationId)
+    expect(resumed.status).toBe("completed")
+    expect(resumed.completedSteps).toEqual(["cluster", "summarize", "apply"])
+    expect(resumed.result?.scanned).toBe(4)
+    expect(resumed.result?.archived).toEqual(["e1", "e2"])
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,264 @@
+import { createHash } from "node:crypto"
+import { analyzeText, type MemoryRecord } from "./memory"
+import { MemoryStore } from "./memory-store"
+import { defineWorkflowSteps, throwIfSignalAborted, waitForAbort, type WorkflowDefinition } from "./workflow"
+
+export type MemorySummarizer = (prompt: string) => Promise<string>
+
+export type ConsolidationMode = "down-weight" | "archive"
+
+export type ConsolidationOptions = {
+  summarizer: MemorySummarizer
+  signal?: AbortSignal
+  userId?: string
+  minClusterSize?: number
+  similarityThreshold?: number
+  mode?: ConsolidationMode
+  downWeightFactor?: number
+}
+
+export type ConsolidationCluster = {
+  userId: string
+  sourceIds: string[]
+}
+
+export type ConsolidationReport = {
+  scanned: number
+  clusters: number
+  summaries: Array<{ id: string; userId: string; sourceIds: string[] }>
+  downWeighted: string[]
+  archived: string[]
+}
+
+export type MemoryConsolidationPayload = {
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  userId?: string
+  mode?: ConsolidationMode
+}
+
+type ConsolidationState = {
+  clusters: ConsolidationCluster[]
+  report: ConsolidationReport
+}
+
+type ConsolidationStep = (
+  state: ConsolidationState,
+  store: MemoryStore,
+  options: ConsolidationOptions,
+) => Promise<ConsolidationState>
+
+export const CONSOLIDATED_TAG = "consolidated"
+export const MEMORY_CONSOLIDATION_WORKFLOW = "memory.consolidate"
+
+const DEFAULT_MIN_CLUSTER_SIZE = 2
+const DEFAULT_SIMILARITY_THRESHOLD = 0.25
+const DEFAULT_DOWN_WEIGHT_FACTOR = 0.25
+const CONSOLIDATION_STEPS: Array<{ name: string; run: ConsolidationStep }> = [
+  { name: "cluster", run: collectClusters },
+  { name: "summarize", run: summarizeClusters },
+  { name: "apply", run: applyConsolidation },
+]
+
+export function clusterEpisodicRecords(
+  records: MemoryRecord[],
+  options: { minClusterSize?: number; similarityThreshold?: number } = {},
+): ConsolidationCluster[] {
+  const minClusterSize = Math.max(2, options.minClusterSize ?? DEFAULT_MIN_CLUSTER_SIZE)
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD
+  const candidates = records
+    .filter((record) => record.shard === "episodic" && !record.tags.includes(CONSOLIDATED_TAG))
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt) || left.id.localeCompare(right.id))
+
+  const clusters: Array<{ userId: string; sourceIds: string[]; terms: Set<string> }> = []
+  for (const record of candidates) {
+    const terms = new Set(analyzeText(`${record.content} ${record.tags.join(" ")}`))
+    let best: (typeof clusters)[number] | undefined
+    let bestScore = 0
+
+    for (const cluster of clusters) {
+      if (cluster.userId !== record.userId) {
+        continue
+      }
+      const score = jaccard(cluster.terms, terms)
+      if (score >= threshold && score > bestScore) {
+        best = cluster
+        bestScore = score
+      }
+    }
+
+    if (best) {
+      best.sourceIds.push(record.id)
+      for (const term of terms) {
+        best.terms.add(term)
+      }
+    } else {
+      clusters.push({ userId: record.userId, sourceIds: [record.id], terms })
+    }
+  }
+
+  return clusters
+    .filter((cluster) => cluster.sourceIds.length >= minClusterSize)
+    .map((cluster) => ({ userId: cluster.userId, sourceIds: cluster.sourceIds }))
+}
+
+export function createConsolidationPrompt(records: MemoryRecord[]): string {
+  return [
+    "You are open-machina memory consolidator.",
+    "Distill the episodic notes below into one durable semantic fact about the user or project.",
+    "Return plain text only: one or two sentences, no preamble.",
+    "",
+    "Episodic notes:",
+    ...records.map((record) => `- [${record.createdAt}] ${record.content}`),
+  ].join("\n")
+}
+
+export function createExtractiveSummarizer(maxChars = 280): MemorySummarizer {
+  return async (prompt) => {
+    const notes = prompt
+      .split("\n")
+      .filter((line) => line.startsWith("- ["))
+      .map((line) => line.replace(/^- \[[^\]]*\]\s*/, "").trim())
+    const unique = [...new Set(notes)]
+    const text = unique.join("; ")
+    return text.length > maxChars ? `${text.slice(0, maxChars - 3)}...` : text
+  }
+}
+
+export async function consolidateMemories(store: MemoryStore, options: ConsolidationOptions): Promise<ConsolidationReport> {
+  let state = createConsolidationState()
+  for (const step of CONSOLIDATION_STEPS) {
+    state = await step.run(state, store, options)
+  }
+  return state.report
+}
+
+export function createMemoryConsolidationWorkflow(
+  summarizer: MemorySummarizer = createExtractiveSummarizer(),
+): WorkflowDefinition<MemoryConsolidationPayload, ConsolidationReport> {
+  return {
+    name: MEMORY_CONSOLIDATION_WORKFLOW,
+    steps: defineWorkflowSteps<MemoryConsolidationPayload, ConsolidationState, ConsolidationReport>({
+      initialState: createConsolidationState,
+      steps: CONSOLIDATION_STEPS.map((step) => ({
+        name: step.name,
+        run: async (state, { payload, signal }) =>
+          step.run(state, new MemoryStore({ storageDir: payload.storageDir, env: payload.env }), {
+            summarizer,
+            signal,
+            userId: payload.userId,
+            mode: payload.mode,
+          }),
+      })),
+      result: (state) => state.report,
+    }),
+    persistPayload: (payload) => ({ storageDir: payload.storageDir, userId: payload.userId, mode: payload.mode }),
+    resume: (record, { env }) => ({ ...(record.input as Omit<MemoryConsolidationPayload, "env">), env }),
+  }
+}
+
+function createConsolidationState(): ConsolidationState {
+  return {
+    clusters: [],
+    report: { scanned: 0, clusters: 0, summaries: [], downWeighted: [], archived: [] },
+  }
+}
+
+async function collectClusters(
+  state: ConsolidationState,
+  store: MemoryStore,
+  options: ConsolidationOptions,
+): Promise<ConsolidationState> {
+  const records = await store.query({ userId: options.userId, shard: "episodic" })
+  const clusters = clusterEpisodicRecords(records, options)
+  return {
+    clusters,
+    report: { ...state.report, scanned: records.length, clusters: clusters.length },
+  }
+}
+
+async function summarizeClusters(
+  state: ConsolidationState,
+  store: MemoryStore,
+  options: ConsolidationOptions,
+): Promise<ConsolidationState> {
+  const signal = options.signal ?? new AbortController().signal
+  const summaries = [...state.report.summaries]
+  for (const cluster of state.clusters) {
+    throwIfSignalAborted(signal)
+    const id = summaryId(cluster)
+    if (await store.get(id)) {
+      summaries.push({ id, userId: cluster.userId, sourceIds: cluster.sourceIds })
+      continue
+    }
+    const sources = await loadSources(store, cluster.sourceIds)
+    const summary = (await Promise.race([options.summarizer(createConsolidationPrompt(sources)), waitForAbort(signal)])).trim()
+    throwIfSignalAborted(signal)
+    if (summary.length === 0) {
+      continue
+    }
+
+    const created = await store.append({
+      id,
+      userId: cluster.userId,
+      shard: "semantic",
+      content: summary,
+      tags: [...new Set([...sources.flatMap((record) => record.tags), CONSOLIDATED_TAG])],
+      weight: Math.max(...sources.map((record) => record.weight)),
+      sourceIds: cluster.sourceIds,
+    })
+    summaries.push({ id: created.id, userId: cluster.userId, sourceIds: cluster.sourceIds })
+  }
+  return { ...state, report: { ...state.report, summaries } }
+}
+
+async function applyConsolidation(
+  state: ConsolidationState,
+  store: MemoryStore,
+  options: ConsolidationOptions,
+): Promise<ConsolidationState> {
+  const mode = options.mode ?? "down-weight"
+  const factor = options.downWeightFactor ?? DEFAULT_DOWN_WEIGHT_FACTOR
+  const report = { ...state.report, downWeighted: [...state.report.downWeighted], archived: [...state.report.archived] }
+  for (const summary of state.report.summaries) {
+    for (const source of await loadSources(store, summary.sourceIds)) {
+      if (mode === "archive" && source.archivedAt === undefined) {
+        await store.update(source.id, {
+          archivedAt: new Date().toISOString(),
+          tags: [...source.tags, CONSOLIDATED_TAG],
+        })
+        report.archived.push(source.id)
+      } else if (mode !== "archive" && !source.tags.includes(CONSOLIDATED_TAG)) {
+        await store.update(source.id, {
+          weight: source.weight * factor,
+          tags: [...source.tags, CONSOLIDATED_TAG],
+        })
+        report.downWeighted.push(source.id)
+      }
+    }
+  }
+  return { ...state, report }
+}
+
+async function loadSources(store: MemoryStore, ids: string[]): Promise<MemoryRecord[]> {
+  const records = await Promise.all(ids.map((id) => store.get(id)))
+  return records.filter((record): record is MemoryRecord => Boolean(record))
+}
+
+function summaryId(cluster: ConsolidationCluster): string {
+  const digest = createHash("sha256").update(JSON.stringify([cluster.userId, [...cluster.sourceIds].sort()])).digest("hex")
+  return `summary-${digest.slice(0, 16)}`
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) {
+    return 0
+  }
+  let shared = 0
+  for (const term of right) {
+    if (left.has(term)) {
+      shared += 1
+    }
+  }
+  return shared / (left.size + right.size - shared)
+}
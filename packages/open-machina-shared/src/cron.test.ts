@@ -0,0 +1,19 @@
+import { expect, test } from "bun:test"
+import { nextCronTime, parseCronExpression } from "./cron"
+
+test("nextCronTime walks lists, ranges, steps and macros in UTC", () => {
+  const after = new Date("2026-02-11T10:17:30.000Z")
+  expect(nextCronTime("*/15 * * * *", after).toISOString()).toBe("2026-02-11T10:30:00.000Z")
+  expect(nextCronTime("@daily", after).toISOString()).toBe("2026-02-12T00:00:00.000Z")
+  expect(nextCronTime("0 3 * * 1-5", new Date("2026-02-13T04:00:00.000Z")).toISOString()).toBe("2026-02-16T03:00:00.000Z")
+  expect(nextCronTime("0 0 29 2 *", after).toISOString()).toBe("2028-02-29T00:00:00.000Z")
+  expect(nextCronTime("30 9 1 * 7", after).toISOString()).toBe("2026-02-15T09:30:00.000Z")
+  expect(nextCronTime("5,45 22 * 12 *", new Date("2026-12-31T22:50:00.000Z")).toISOString()).toBe("2027-12-01T22:05:00.000Z")
+})
+
+test("parseCronExpression rejects malformed fields", () => {
+  expect(() => parseCronExpression("* * *")).toThrow("Expected 5 cron fields")
+  expect(() => parseCronExpression("61 * * * *")).toThrow("minute field")
+  expect(() => parseCronExpression("* * * * mon")).toThrow("Invalid day-of-week field")
+  expect(() => nextCronTime("0 0 31 2 *", new Date("2026-01-01T00:00:00.000Z"))).toThrow("never fires")
+})
@@ -0,0 +1,120 @@
+import { MachinaStorageError } from "./storage"
+
+export type CronExpression = {
+  source: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+]
+
+const MAX_SEARCH_YEARS = 5
+const MINUTE_MS = 60_000
+
+export function parseCronExpression(source: string): CronExpression {
+  const trimmed = source.trim()
+  const fields = (CRON_MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new MachinaStorageError("SCHEDULE_CRON_INVALID", `Expected 5 cron fields or a macro, got "${source}"`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELD_RANGES[index]!, source))
+  if (daysOfWeek!.delete(7)) {
+    daysOfWeek!.add(0)
+  }
+
+  return {
+    source: trimmed,
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: daysOfWeek!,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  }
+}
+
+export function nextCronTime(expression: CronExpression | string, after: Date): Date {
+  const cron = typeof expression === "string" ? parseCronExpression(expression) : expression
+  const cursor = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS)
+  const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS
+
+  while (cursor.getUTCFullYear() <= limit) {
+    if (!cron.months.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1)
+      cursor.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(cron, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1)
+      cursor.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!cron.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!cron.minutes.has(cursor.getUTCMinutes())) {
+      cursor.setTime(cursor.getTime() + MINUTE_MS)
+      continue
+    }
+    return cursor
+  }
+
+  throw new MachinaStorageError("SCHEDULE_CRON_INVALID", `Cron "${cron.source}" never fires within ${MAX_SEARCH_YEARS} years`)
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate())
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay())
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek
+  }
+  return dayOfMonth || dayOfWeek
+}
+
+function parseField(field: string, range: { name: string; min: number; max: number }, source: string): Set<number> {
+  const values = new Set<number>()
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) {
+      throw new MachinaStorageError("SCHEDULE_CRON_INVALID", `Invalid ${range.name} field "${part}" in "${source}"`)
+    }
+
+    const start = match[1] === "*" ? range.min : Number(match[2])
+    const end = match[1] === "*" ? range.max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? range.max : start
+    const step = match[4] !== undefined ? Number(match[4]) : 1
+    if (start < range.min || end > range.max || start > end || step < 1) {
+      throw new MachinaStorageError(
+        "SCHEDULE_CRON_INVALID",
+        `${range.name} field "${part}" must stay within ${range.min}-${range.max} in "${source}"`,
+      )
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
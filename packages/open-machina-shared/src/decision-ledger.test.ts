@@ -0,0 +1,101 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { DecisionTrace, OrchestrationInput } from "./autonomy"
+import { DecisionLedger, hashOrchestrationInput } from "./decision-ledger"
+
+const input: OrchestrationInput = {
+  now: "2026-02-11T10:00:00.000Z",
+  userMessage: "Stop and handle the incident",
+  userIntent: "urgent-request",
+  persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+  activeWork: [],
+  systemState: { networkHealth: "good" },
+}
+
+function trace(action: "abort" | "defer" | null, repaired = false): DecisionTrace {
+  return {
+    prompt: "judge prompt",
+    responses: repaired ? ["bad", "good"] : ["good"],
+    decision: action ? { action, confidence: 0.8, reason: "test", priority: "high" } : null,
+    repaired,
+    latencyMs: 12,
+    error: action ? undefined : "ORCHESTRATION_DECISION_INVALID: no JSON",
+  }
+}
+
+test("DecisionLedger appends entries and filters by session, action and time range", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-decision-ledger-"))
+
+  try {
+    let clock = Date.parse("2026-02-11T10:00:00.000Z")
+    const ledger = new DecisionLedger({ storageDir, now: () => new Date((clock += 60_000)) })
+    const judge = { providerID: "openai", modelID: "gpt-judge" }
+
+    const first = await ledger.record(input, trace("abort", true), { source: "chat.message", sessionId: "s-1", judge })
+    await ledger.record(input, trace("defer"), { source: "chat.message", sessionId: "s-1", judge })
+    await ledger.record(input, trace(null), { source: "open_machina_decide", sessionId: "s-2" })
+
+    expect(first.inputHash).toBe(hashOrchestrationInput({ ...input }))
+    expect(first.rawResponse).toBe("bad")
+    expect(first.repairResponses).toEqual(["good"])
+    expect(first.repaired).toBe(true)
+
+    const reopened = new DecisionLedger({ storageDir })
+    expect(await reopened.query()).toHaveLength(3)
+    expect((await reopened.query({ sessionId: "s-1" })).map((entry) => entry.decision?.action)).toEqual(["abort", "defer"])
+    expect((await reopened.query({ action: "abort" })).map((entry) => entry.id)).toEqual([first.id])
+    expect(await reopened.query({ since: "2026-02-11T10:02:30.000Z" })).toHaveLength(1)
+    expect(await reopened.query({ until: "2026-02-11T10:01:30.000Z" })).toHaveLength(1)
+    expect((await reopened.query({ limit: 1 }))[0]?.error).toContain("ORCHESTRATION_DECISION_INVALID")
+    await expect(reopened.query({ since: "yesterday" })).rejects.toThrow("Invalid since timestamp")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("DecisionLedger scrubs prompts, rotates full files and erases one user's prompts across archives", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-decision-ledger-privacy-"))
+
+  try {
+    const ledger = new DecisionLedger({ storageDir, maxBytes: 4_096 })
+    const leaky: DecisionTrace = {
+      ...trace("defer"),
+      prompt: "User said: mail jane.doe@example.com, key sk-proj-abcdefghijklmnop1234",
+      responses: ['{"action":"defer","reason":"reply to jane.doe@example.com"}'],
+    }
+    const entry = await ledger.record(input, leaky, { source: "chat.message", sessionId: "s-1", userId: "alice" })
+    expect(entry.prompt).toBe("User said: mail [REDACTED:email], key [REDACTED:api-key]")
+    expect(entry.rawResponse).toContain("[REDACTED:email]")
+    expect(entry.userId).toBe("alice")
+
+    await Promise.all(
+      Array.from({ length: 40 }, (_, index) =>
+        new DecisionLedger({ storageDir, maxBytes: 4_096 }).record(input, trace("abort"), {
+          source: "chat.message",
+          sessionId: `s-${index}`,
+          userId: index % 2 === 0 ? "alice" : "bob",
+        }),
+      ),
+    )
+    const file = join(storageDir, "decision-ledger.jsonl")
+    expect((await readFile(file, "utf8")).length).toBeLessThanOrEqual(4_096)
+    expect((await readdir(storageDir)).filter((name) => /^decision-ledger-.+\.jsonl$/.test(name)).length).toBeGreaterThan(0)
+    const kept = await ledger.query()
+    expect(kept).toHaveLength(41)
+    expect(kept[0]?.id).toBe(entry.id)
+
+    expect(await ledger.erasePrompts("alice")).toBe(21)
+    expect(await ledger.erasePrompts("alice")).toBe(0)
+    const erased = await ledger.query()
+    const alice = erased.filter((item) => item.userId === "alice")
+    const bob = erased.filter((item) => item.userId === "bob")
+    expect(alice.every((item) => item.prompt === "" && item.rawResponse === null && item.erasedAt !== undefined)).toBe(true)
+    expect(bob.every((item) => item.prompt === "judge prompt" && item.erasedAt === undefined)).toBe(true)
+    expect(erased.map((item) => item.decision?.action)).toEqual(kept.map((item) => item.decision?.action))
+    expect(JSON.stringify(alice)).not.toContain("judge prompt")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
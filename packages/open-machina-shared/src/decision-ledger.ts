@@ -0,0 +1,220 @@
+import { createHash, randomUUID } from "node:crypto"
+import { appendFile, readFile, readdir, rename, stat, writeFile } from "node:fs/promises"
+import { basename, dirname, join } from "node:path"
+import type { DecisionTrace, OrchestrationAction, OrchestrationDecision, OrchestrationInput } from "./autonomy"
+import type { DecisionValidationError } from "./decision-schema"
+import { withFileLock } from "./file-lock"
+import type { GuardrailOverride } from "./guardrails"
+import { scrubText } from "./redaction"
+import { MachinaStorageError, ensureStorageInitialized, stableStringify } from "./storage"
+
+export type DecisionLedgerEntry = {
+  id: string
+  recordedAt: string
+  source: string
+  sessionId?: string
+  userId?: string
+  judge?: {
+    providerID: string
+    modelID: string
+  }
+  inputHash: string
+  prompt: string
+  rawResponse: string | null
+  repairResponses?: string[]
+  decision: OrchestrationDecision | null
+  repaired: boolean
+  latencyMs: number
+  error?: string
+  validationErrors?: DecisionValidationError[]
+  guardrails?: GuardrailOverride[]
+  erasedAt?: string
+}
+
+export type DecisionLedgerContext = {
+  source: string
+  sessionId?: string
+  userId?: string
+  judge?: {
+    providerID: string
+    modelID: string
+  }
+  guardrails?: GuardrailOverride[]
+}
+
+export type DecisionLedgerQuery = {
+  sessionId?: string
+  action?: OrchestrationAction
+  since?: string
+  until?: string
+  limit?: number
+}
+
+export type DecisionLedgerOptions = {
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  now?: () => Date
+  maxBytes?: number
+}
+
+const DEFAULT_MAX_LEDGER_BYTES = 8 * 1024 * 1024
+
+export class DecisionLedger {
+  private readonly storageDir?: string
+  private readonly env: NodeJS.ProcessEnv
+  private readonly now: () => Date
+  private readonly maxBytes: number
+  private lock: Promise<unknown> = Promise.resolve()
+
+  constructor(options: DecisionLedgerOptions = {}) {
+    this.storageDir = options.storageDir
+    this.env = options.env ?? process.env
+    this.now = options.now ?? (() => new Date())
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_LEDGER_BYTES
+  }
+
+  async record(input: OrchestrationInput, trace: DecisionTrace, context: DecisionLedgerContext): Promise<DecisionLedgerEntry> {
+    const [rawResponse, ...repairResponses] = trace.responses
+    const entry: DecisionLedgerEntry = {
+      id: `decision-${randomUUID()}`,
+      recordedAt: this.now().toISOString(),
+      source: context.source,
+      ...(context.sessionId ? { sessionId: context.sessionId } : {}),
+      ...(context.userId ? { userId: context.userId } : {}),
+      ...(context.judge ? { judge: { providerID: context.judge.providerID, modelID: context.judge.modelID } } : {}),
+      inputHash: hashOrchestrationInput(input),
+      prompt: scrubText(trace.prompt).text,
+      rawResponse: rawResponse === undefined ? null : scrubText(rawResponse).text,
+      ...(repairResponses.length > 0 ? { repairResponses: repairResponses.map((response) => scrubText(response).text) } : {}),
+      decision: trace.decision,
+      repaired: trace.repaired,
+      latencyMs: trace.latencyMs,
+      ...(trace.error ? { error: trace.error } : {}),
+      ...(trace.validationErrors ? { validationErrors: trace.validationErrors } : {}),
+      ...(context.guardrails && context.guardrails.length > 0 ? { guardrails: context.guardrails } : {}),
+    }
+
+    return this.mutate(async (filePath) => {
+      await appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8")
+      if ((await stat(filePath)).size > this.maxBytes) {
+        await rename(filePath, archivePath(filePath, this.now()))
+      }
+      return entry
+    })
+  }
+
+  async erasePrompts(userId: string): Promise<number> {
+    return this.mutate(async (filePath) => {
+      const erasedAt = this.now().toISOString()
+      let erased = 0
+      for (const path of await listLedgerFiles(filePath)) {
+        let changed = false
+        const entries = (await readEntryFile(path)).map((entry): DecisionLedgerEntry => {
+          if (entry.userId !== userId || entry.erasedAt) {
+            return entry
+          }
+          changed = true
+          erased += 1
+          const { repairResponses: _repairResponses, ...rest } = entry
+          return { ...rest, prompt: "", rawResponse: null, erasedAt }
+        })
+        if (changed) {
+          await writeEntries(path, entries)
+        }
+      }
+      return erased
+    })
+  }
+
+  async query(query: DecisionLedgerQuery = {}): Promise<DecisionLedgerEntry[]> {
+    const since = parseBound(query.since, "since")
+    const until = parseBound(query.until, "until")
+    const matches = (await this.readEntries()).filter((entry) => {
+      if (query.sessionId !== undefined && entry.sessionId !== query.sessionId) {
+        return false
+      }
+      if (query.action !== undefined && entry.decision?.action !== query.action) {
+        return false
+      }
+      const recordedAt = Date.parse(entry.recordedAt)
+      return (since === null || recordedAt >= since) && (until === null || recordedAt <= until)
+    })
+
+    const limit = typeof query.limit === "number" && query.limit > 0 ? Math.floor(query.limit) : matches.length
+    return matches.slice(Math.max(0, matches.length - limit))
+  }
+
+  private mutate<T>(update: (filePath: string) => Promise<T>): Promise<T> {
+    const run = this.lock.then(async () => {
+      const paths = await ensureStorageInitialized(this.storageDir, this.env)
+      const lock = { code: "DECISION_LEDGER_LOCKED", message: "Decision ledger is locked by another process" }
+      return withFileLock(`${paths.decisionLedgerFile}.lock`, lock, () => update(paths.decisionLedgerFile))
+    })
+    this.lock = run.catch(() => undefined)
+    return run
+  }
+
+  private async readEntries(): Promise<DecisionLedgerEntry[]> {
+    const paths = await ensureStorageInitialized(this.storageDir, this.env)
+    const entries: DecisionLedgerEntry[] = []
+    for (const path of await listLedgerFiles(paths.decisionLedgerFile)) {
+      entries.push(...(await readEntryFile(path)))
+    }
+    return entries
+  }
+}
+
+export function hashOrchestrationInput(input: OrchestrationInput): string {
+  return createHash("sha256").update(stableStringify(input)).digest("hex")
+}
+
+function parseBound(value: string | undefined, label: string): number | null {
+  if (value === undefined) {
+    return null
+  }
+  const parsed = Date.parse(value)
+  if (Number.isNaN(parsed)) {
+    throw new MachinaStorageError("DECISION_LEDGER_QUERY_INVALID", `Invalid ${label} timestamp: ${value}`)
+  }
+  return parsed
+}
+
+function archivePath(filePath: string, now: Date): string {
+  const stem = basename(filePath, ".jsonl")
+  return join(dirname(filePath), `${stem}-${now.toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.jsonl`)
+}
+
+async function listLedgerFiles(filePath: string): Promise<string[]> {
+  const stem = basename(filePath, ".jsonl")
+  const archives = (await readdir(dirname(filePath)).catch(() => [] as string[]))
+    .filter((name) => name.startsWith(`${stem}-`) && name.endsWith(".jsonl"))
+    .sort()
+    .map((name) => join(dirname(filePath), name))
+  return (await fileExists(filePath)) ? [...archives, filePath] : archives
+}
+
+async function readEntryFile(path: string): Promise<DecisionLedgerEntry[]> {
+  const lines = (await readFile(path, "utf8")).split("\n").filter((line) => line.trim().length > 0)
+  return lines.map((line, index) => {
+    try {
+      return JSON.parse(line) as DecisionLedgerEntry
+    } catch {
+      throw new MachinaStorageError("DECISION_LEDGER_PARSE_FAILED", `Invalid decision ledger entry in ${basename(path)} at line ${index + 1}`)
+    }
+  })
+}
+
+async function writeEntries(filePath: string, entries: DecisionLedgerEntry[]): Promise<void> {
+  const tempPath = `${filePath}.tmp-${Date.now()}-${Math.random().toString(16).slice(2)}`
+  await writeFile(tempPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""), "utf8")
+  await rename(tempPath, filePath)
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
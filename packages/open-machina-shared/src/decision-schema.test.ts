@@ -0,0 +1,62 @@
+import { expect, test } from "bun:test"
+import { ORCHESTRATION_DECISION_SCHEMA, extractJsonObject, parseDecisionResult, validateJsonSchema } from "./decision-schema"
+
+test("parseDecisionResult normalises near-miss values before validation", () => {
+  const result = parseDecisionResult(
+    JSON.stringify({
+      action: " Parallel ",
+      confidence: 85,
+      reason: "  independent work  ",
+      priority: "High",
+      deferUntil: "",
+      parallelPlan: { lane: "Background", maxConcurrency: "64" },
+    }),
+  )
+
+  expect(result.errors).toEqual([])
+  expect(result.decision).toEqual({
+    action: "parallel",
+    confidence: 0.85,
+    reason: "independent work",
+    priority: "high",
+    deferUntil: undefined,
+    parallelPlan: { lane: "background", maxConcurrency: 32 },
+  })
+  expect(parseDecisionResult(JSON.stringify({ action: "defer", confidence: "70%", reason: "later", priority: "LOW" })).decision?.confidence).toBe(0.7)
+
+  const confidenceErrors = (confidence: unknown) =>
+    parseDecisionResult(JSON.stringify({ action: "continue", confidence, reason: "steady", priority: "low" })).errors
+  expect(confidenceErrors(1)).toEqual([])
+  expect(confidenceErrors(1.5)).toEqual([{ path: "confidence", message: "must be <= 1" }])
+  expect(confidenceErrors(42.5)).toEqual([{ path: "confidence", message: "must be <= 1" }])
+  expect(confidenceErrors(250)).toEqual([{ path: "confidence", message: "must be <= 1" }])
+  expect(confidenceErrors("150%")).toEqual([{ path: "confidence", message: "must be <= 1" }])
+})
+
+test("parseDecisionResult reports field-level validation errors", () => {
+  const result = parseDecisionResult(
+    JSON.stringify({ action: "pause", confidence: 250, priority: "urgent", deferUntil: "tomorrow", parallelPlan: { lane: "side" } }),
+  )
+
+  expect(result.decision).toBeNull()
+  expect(result.errors).toEqual([
+    { path: "reason", message: "is required" },
+    { path: "action", message: "must be one of abort, defer, parallel, continue" },
+    { path: "confidence", message: "must be <= 1" },
+    { path: "priority", message: "must be one of critical, high, medium, low" },
+    { path: "deferUntil", message: "must be an ISO 8601 date-time" },
+    { path: "parallelPlan.maxConcurrency", message: "is required" },
+    { path: "parallelPlan.lane", message: "must be one of foreground, background" },
+  ])
+  expect(parseDecisionResult("no json here").errors).toEqual([{ path: "$", message: "response did not contain a JSON object" }])
+  expect(validateJsonSchema([], ORCHESTRATION_DECISION_SCHEMA)).toEqual([{ path: "$", message: "must be an object" }])
+})
+
+test("extractJsonObject finds balanced objects in fenced or chatty responses", () => {
+  expect(extractJsonObject('```json\n{"action":"abort"}\n```')).toEqual({ action: "abort" })
+  expect(extractJsonObject('Sure {not json} then {"reason":"use } carefully","n":{"x":1}} and {"tail":true}')).toEqual({
+    reason: "use } carefully",
+    n: { x: 1 },
+  })
+  expect(extractJsonObject("{ unterminated")).toBeUndefined()
+})
@@ -0,0 +1,260 @@
+import type { OrchestrationDecision } from "./autonomy"
+
+export type JsonSchema = {
+  type?: "object" | "string" | "number" | "integer"
+  enum?: readonly string[]
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  format?: "date-time"
+  required?: readonly string[]
+  properties?: Record<string, JsonSchema>
+  description?: string
+}
+
+export type DecisionValidationError = {
+  path: string
+  message: string
+}
+
+export type DecisionParseResult = {
+  decision: OrchestrationDecision | null
+  errors: DecisionValidationError[]
+}
+
+export const ORCHESTRATION_DECISION_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["action", "confidence", "reason", "priority"],
+  properties: {
+    action: { type: "string", enum: ["abort", "defer", "parallel", "continue"] },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    reason: { type: "string", minLength: 1, description: "concise rationale" },
+    priority: { type: "string", enum: ["critical", "high", "medium", "low"] },
+    deferUntil: { type: "string", format: "date-time" },
+    parallelPlan: {
+      type: "object",
+      required: ["lane", "maxConcurrency"],
+      properties: {
+        lane: { type: "string", enum: ["foreground", "background"] },
+        maxConcurrency: { type: "integer", minimum: 1, maximum: 32 },
+      },
+    },
+  },
+}
+
+const MAX_CONCURRENCY = 32
+
+export function parseDecisionResult(raw: string): DecisionParseResult {
+  const extracted = extractJsonObject(raw)
+  if (extracted === undefined) {
+    return { decision: null, errors: [{ path: "$", message: "response did not contain a JSON object" }] }
+  }
+
+  const candidate = normalizeDecisionCandidate(extracted)
+  const errors = validateJsonSchema(candidate, ORCHESTRATION_DECISION_SCHEMA)
+  if (errors.length > 0 || !isRecord(candidate)) {
+    return { decision: null, errors }
+  }
+
+  const plan = isRecord(candidate.parallelPlan) ? candidate.parallelPlan : undefined
+  return {
+    decision: {
+      action: candidate.action as OrchestrationDecision["action"],
+      confidence: candidate.confidence as number,
+      reason: candidate.reason as string,
+      priority: candidate.priority as OrchestrationDecision["priority"],
+      deferUntil: candidate.deferUntil as string | undefined,
+      parallelPlan: plan
+        ? { lane: plan.lane as "foreground" | "background", maxConcurrency: plan.maxConcurrency as number }
+        : undefined,
+    },
+    errors: [],
+  }
+}
+
+export function normalizeDecisionCandidate(value: unknown): unknown {
+  if (!isRecord(value)) {
+    return value
+  }
+
+  const next: Record<string, unknown> = { ...value }
+  for (const key of ["action", "priority"]) {
+    if (typeof next[key] === "string") {
+      next[key] = (next[key] as string).trim().toLowerCase()
+    }
+  }
+  if (typeof next.reason === "string") {
+    next.reason = next.reason.trim()
+  }
+  next.confidence = normalizeConfidence(next.confidence)
+  if (next.deferUntil === null || next.deferUntil === "") {
+    delete next.deferUntil
+  }
+
+  if (next.parallelPlan === null) {
+    delete next.parallelPlan
+  } else if (isRecord(next.parallelPlan)) {
+    const plan: Record<string, unknown> = { ...next.parallelPlan }
+    if (typeof plan.lane === "string") {
+      plan.lane = plan.lane.trim().toLowerCase()
+    }
+    const concurrency = toNumber(plan.maxConcurrency)
+    if (concurrency !== undefined) {
+      plan.maxConcurrency = Math.max(1, Math.min(MAX_CONCURRENCY, Math.floor(concurrency)))
+    }
+    next.parallelPlan = plan
+  }
+  return next
+}
+
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): DecisionValidationError[] {
+  const fail = (message: string) => [{ path, message }]
+
+  if (schema.type === "object") {
+    if (!isRecord(value) || Array.isArray(value)) {
+      return fail("must be an object")
+    }
+    const errors: DecisionValidationError[] = []
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push({ path: joinPath(path, key), message: "is required" })
+      }
+    }
+    for (const [key, child] of Object.entries(schema.properties ?? {})) {
+      if (value[key] !== undefined) {
+        errors.push(...validateJsonSchema(value[key], child, joinPath(path, key)))
+      }
+    }
+    return errors
+  }
+
+  if (schema.type === "string" && typeof value !== "string") {
+    return fail("must be a string")
+  }
+  if ((schema.type === "number" || schema.type === "integer") && (typeof value !== "number" || !Number.isFinite(value))) {
+    return fail("must be a number")
+  }
+  if (schema.type === "integer" && !Number.isInteger(value)) {
+    return fail("must be an integer")
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return fail(`must be one of ${schema.enum.join(", ")}`)
+  }
+  if (schema.minLength !== undefined && typeof value === "string" && value.length < schema.minLength) {
+    return fail(schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters`)
+  }
+  if (schema.format === "date-time" && typeof value === "string" && Number.isNaN(Date.parse(value))) {
+    return fail("must be an ISO 8601 date-time")
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return fail(`must be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return fail(`must be <= ${schema.maximum}`)
+    }
+  }
+  return []
+}
+
+export function formatValidationErrors(errors: DecisionValidationError[]): string {
+  return errors.map((error) => `${error.path}: ${error.message}`).join("; ")
+}
+
+export function extractJsonObject(raw: string): unknown {
+  const trimmed = raw.trim()
+  const direct = tryParse(trimmed)
+  if (direct !== undefined) {
+    return direct
+  }
+
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(trimmed)
+  if (fenced) {
+    const parsed = tryParse(fenced[1]!.trim())
+    if (parsed !== undefined) {
+      return parsed
+    }
+  }
+
+  for (let start = trimmed.indexOf("{"); start >= 0; start = trimmed.indexOf("{", start + 1)) {
+    const end = findObjectEnd(trimmed, start)
+    if (end < 0) {
+      continue
+    }
+    const parsed = tryParse(trimmed.slice(start, end + 1))
+    if (parsed !== undefined) {
+      return parsed
+    }
+  }
+  return undefined
+}
+
+function findObjectEnd(text: string, start: number): number {
+  let depth = 0
+  let inString = false
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index]
+    if (inString) {
+      if (char === "\\") {
+        index += 1
+      } else if (char === "\"") {
+        inString = false
+      }
+      continue
+    }
+    if (char === "\"") {
+      inString = true
+    } else if (char === "{") {
+      depth += 1
+    } else if (char === "}") {
+      depth -= 1
+      if (depth === 0) {
+        return index
+      }
+    }
+  }
+  return -1
+}
+
+function normalizeConfidence(value: unknown): unknown {
+  const percent = typeof value === "string" && value.trim().endsWith("%")
+  const parsed = toNumber(percent ? (value as string).trim().slice(0, -1) : value)
+  if (parsed === undefined) {
+    return value
+  }
+  const wholePercent = Number.isInteger(parsed) && parsed >= 2 && parsed <= 100
+  if ((percent && parsed >= 0 && parsed <= 100) || (!percent && wholePercent)) {
+    return Number((parsed / 100).toFixed(4))
+  }
+  return parsed
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value.trim())
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+  return undefined
+}
+
+function tryParse(text: string): unknown {
+  if (text.length === 0) {
+    return undefined
+  }
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent === "$" ? key : `${parent}.${key}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
@@ -0,0 +1,103 @@
+import { expect, test } from "bun:test"
+import {
+  cosineSimilarity,
+  createHashedEmbeddingProvider,
+  createOpenAICompatibleEmbeddingProvider,
+  selectContextWithEmbeddings,
+  type EmbeddingProvider,
+} from "./embedding"
+import type { MemoryRecord } from "./memory"
+
+const records: MemoryRecord[] = [
+  {
+    id: "r1",
+    userId: "u1",
+    shard: "semantic",
+    content: "Nightly snapshots keep five days of history",
+    tags: ["backup"],
+    createdAt: "2026-02-10T10:00:00.000Z",
+    weight: 0.5,
+  },
+  {
+    id: "r2",
+    userId: "u1",
+    shard: "semantic",
+    content: "Judge credentials rotate every quarter",
+    tags: ["security"],
+    createdAt: "2026-02-10T10:00:00.000Z",
+    weight: 0.5,
+  },
+]
+
+test("hashed embedding provider is deterministic and normalized", async () => {
+  const provider = createHashedEmbeddingProvider({ dimensions: 64 })
+  const [first, second] = await provider.embed(["snapshot history", "snapshot history"])
+
+  expect(first).toEqual(second!)
+  expect(first).toHaveLength(64)
+  expect(cosineSimilarity(first!, second!)).toBeCloseTo(1, 6)
+})
+
+test("hashed embeddings recall morphological variants lexical search misses", async () => {
+  const provider = createHashedEmbeddingProvider()
+  const selected = await selectContextWithEmbeddings(records, { query: "snapshoot", limit: 1, provider })
+
+  expect(selected[0]?.id).toBe("r1")
+})
+
+test("semantic weight blends provider similarity with lexical score", async () => {
+  const provider: EmbeddingProvider = {
+    id: "fixed",
+    embed: async (texts) => texts.map((text) => (text.includes("credentials") || text === "keys" ? [1, 0] : [0, 1])),
+  }
+
+  const lexicalOnly = await selectContextWithEmbeddings(records, { query: "keys", limit: 2, provider, semanticWeight: 0 })
+  const semantic = await selectContextWithEmbeddings(records, { query: "keys", limit: 2, provider, semanticWeight: 1 })
+
+  expect(lexicalOnly).toEqual([])
+  expect(semantic[0]?.id).toBe("r2")
+})
+
+test("openai-compatible provider posts batch input and orders by index", async () => {
+  let body: { model?: string; input?: string[] } = {}
+  const provider = createOpenAICompatibleEmbeddingProvider({
+    apiUrl: "https://embeddings.example.test/v1/embeddings",
+    token: "embed-token",
+    modelID: "text-embedding-3-small",
+    fetch: (async (_url: string, init: RequestInit) => {
+      body = JSON.parse(String(init.body))
+      return new Response(
+        JSON.stringify({
+          data: [
+            { index: 1, embedding: [0, 1] },
+            { index: 0, embedding: [1, 0] },
+          ],
+        }),
+        { status: 200 },
+      )
+    }) as unknown as typeof fetch,
+  })
+
+  const vectors = await provider.embed(["a", "b"])
+  expect(body.model).toBe("text-embedding-3-small")
+  expect(body.input).toEqual(["a", "b"])
+  expect(vectors).toEqual([
+    [1, 0],
+    [0, 1],
+  ])
+})
+
+test("openai-compatible provider aborts a request that runs past its timeout", async () => {
+  const provider = createOpenAICompatibleEmbeddingProvider({
+    apiUrl: "https://embeddings.example.test/v1/embeddings",
+    token: "embed-token",
+    modelID: "text-embedding-3-small",
+    timeoutMs: 20,
+    fetch: ((_url: string, init: RequestInit) =>
+      new Promise<Response>((_, reject) => {
+        init.signal?.addEventListener("abort", () => reject(init.signal?.reason))
+      })) as unknown as typeof fetch,
+  })
+
+  await expect(provider.embed(["snapshot"])).rejects.toThrow()
+})
@@ -0,0 +1,197 @@
+import { createHash } from "node:crypto"
+import { isolateUserRecords, selectContext, type MemoryRecord, type MemoryUserScope, type MemoryWeighting } from "./memory"
+
+export type EmbeddingProvider = {
+  readonly id: string
+  embed: (texts: string[]) => Promise<number[][]>
+}
+
+export type HashedEmbeddingOptions = {
+  dimensions?: number
+  ngram?: number
+}
+
+export type OpenAICompatibleEmbeddingOptions = {
+  apiUrl: string
+  token: string
+  modelID: string
+  fetch?: typeof fetch
+  timeoutMs?: number
+}
+
+export type SemanticRecallInput = MemoryUserScope & {
+  query: string
+  limit: number
+  provider: EmbeddingProvider
+  semanticWeight?: number
+  weighting?: MemoryWeighting
+  cache?: EmbeddingCache
+}
+
+export const DEFAULT_SEMANTIC_WEIGHT = 0.5
+export const DEFAULT_EMBEDDING_TIMEOUT_MS = 10_000
+
+const DEFAULT_EMBEDDING_CACHE_SIZE = 5_000
+
+export class EmbeddingCache {
+  private readonly maxEntries: number
+  private readonly vectors = new Map<string, number[]>()
+
+  constructor(maxEntries = DEFAULT_EMBEDDING_CACHE_SIZE) {
+    this.maxEntries = Math.max(1, maxEntries)
+  }
+
+  get size(): number {
+    return this.vectors.size
+  }
+
+  get(key: string): number[] | undefined {
+    const vector = this.vectors.get(key)
+    if (vector) {
+      this.vectors.delete(key)
+      this.vectors.set(key, vector)
+    }
+    return vector
+  }
+
+  set(key: string, vector: number[]): void {
+    this.vectors.delete(key)
+    this.vectors.set(key, vector)
+    while (this.vectors.size > this.maxEntries) {
+      this.vectors.delete(this.vectors.keys().next().value!)
+    }
+  }
+}
+
+export function createHashedEmbeddingProvider(options: HashedEmbeddingOptions = {}): EmbeddingProvider {
+  const dimensions = Math.max(8, Math.floor(options.dimensions ?? 256))
+  const ngram = Math.max(1, Math.floor(options.ngram ?? 3))
+
+  return {
+    id: `hashed-ngram-${ngram}x${dimensions}`,
+    embed: async (texts) => texts.map((text) => hashedVector(text, dimensions, ngram)),
+  }
+}
+
+export function createOpenAICompatibleEmbeddingProvider(options: OpenAICompatibleEmbeddingOptions): EmbeddingProvider {
+  const request = options.fetch ?? fetch
+
+  return {
+    id: `openai-compatible:${options.modelID}`,
+    embed: async (texts) => {
+      if (texts.length === 0) {
+        return []
+      }
+
+      const response = await request(options.apiUrl, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${options.token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: options.modelID,
+          input: texts,
+        }),
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_EMBEDDING_TIMEOUT_MS),
+      })
+
+      if (!response.ok) {
+        throw new Error(`EMBEDDING_REQUEST_FAILED: HTTP ${response.status}`)
+      }
+
+      const payload = (await response.json().catch(() => ({}))) as {
+        data?: Array<{ index?: number; embedding?: unknown }>
+      }
+      const rows = [...(payload.data ?? [])].sort((left, right) => (left.index ?? 0) - (right.index ?? 0))
+      const vectors = rows.map((row) => row.embedding)
+      if (vectors.length !== texts.length || !vectors.every(isNumberArray)) {
+        throw new Error("EMBEDDING_REQUEST_FAILED: response did not include one embedding per input")
+      }
+      return vectors
+    },
+  }
+}
+
+export async function selectContextWithEmbeddings(records: MemoryRecord[], input: SemanticRecallInput): Promise<MemoryRecord[]> {
+  const scoped = isolateUserRecords(records, input)
+  const texts = scoped.map((record) => `${record.content} ${record.tags.join(" ")}`)
+  const keys = scoped.map((record, position) => embeddingCacheKey(input.provider, record, texts[position]!))
+  const missing = keys.flatMap((key, position) => (input.cache?.get(key) ? [] : [position]))
+  const [queryVector, ...embedded] = await input.provider.embed([input.query, ...missing.map((position) => texts[position]!)])
+  const fresh = new Map(missing.map((position, index) => [position, embedded[index] ?? []]))
+  for (const [position, vector] of fresh) {
+    input.cache?.set(keys[position]!, vector)
+  }
+  const recordVectors = keys.map((key, position) => fresh.get(position) ?? input.cache?.get(key) ?? [])
+
+  return selectContext(scoped, {
+    userId: input.userId,
+    allowCrossUser: input.allowCrossUser,
+    query: input.query,
+    limit: input.limit,
+    weighting: input.weighting,
+    semantic: {
+      similarities: recordVectors.map((vector) => cosineSimilarity(queryVector ?? [], vector)),
+      weight: input.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT,
+    },
+  })
+}
+
+export function cosineSimilarity(left: number[], right: number[]): number {
+  const length = Math.min(left.length, right.length)
+  let dot = 0
+  let leftNorm = 0
+  let rightNorm = 0
+
+  for (let index = 0; index < length; index += 1) {
+    const a = left[index] ?? 0
+    const b = right[index] ?? 0
+    dot += a * b
+    leftNorm += a * a
+    rightNorm += b * b
+  }
+
+  if (leftNorm === 0 || rightNorm === 0) {
+    return 0
+  }
+  return dot / (Math.sqrt(leftNorm) * Math.sqrt(rightNorm))
+}
+
+function embeddingCacheKey(provider: EmbeddingProvider, record: MemoryRecord, text: string): string {
+  return `${provider.id}:${record.id}:${createHash("sha256").update(text).digest("hex")}`
+}
+
+function hashedVector(text: string, dimensions: number, ngram: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0)
+
+  for (const word of words) {
+    const padded = `#${word}#`
+    const size = Math.min(ngram, padded.length)
+    for (let start = 0; start + size <= padded.length; start += 1) {
+      const hash = fnv1a(padded.slice(start, start + size))
+      const slot = hash % dimensions
+      vector[slot]! += (hash & 0x80000000) === 0 ? 1 : -1
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((acc, value) => acc + value * value, 0))
+  return norm === 0 ? vector : vector.map((value) => value / norm)
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "number")
+}
@@ -0,0 +1,57 @@
+import { randomUUID } from "node:crypto"
+import { open, readFile, stat, unlink } from "node:fs/promises"
+import os from "node:os"
+import { MachinaStorageError } from "./storage"
+
+export type FileLockOptions = {
+  code: string
+  message: string
+  timeoutMs?: number
+  staleMs?: number
+}
+
+const DEFAULT_LOCK_TIMEOUT_MS = 10_000
+const DEFAULT_LOCK_STALE_MS = 60_000
+const LOCK_RETRY_MS = 25
+
+export async function withFileLock<T>(lockPath: string, options: FileLockOptions, run: () => Promise<T>): Promise<T> {
+  const release = await acquireFileLock(lockPath, options)
+  try {
+    return await run()
+  } finally {
+    await release()
+  }
+}
+
+export async function acquireFileLock(lockPath: string, options: FileLockOptions): Promise<() => Promise<void>> {
+  const token = randomUUID()
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS)
+  while (true) {
+    try {
+      const handle = await open(lockPath, "wx")
+      await handle.writeFile(JSON.stringify({ token, pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() }))
+      await handle.close()
+      return async () => {
+        const holder = await readFile(lockPath, "utf8").catch(() => "")
+        if (holder.includes(token)) {
+          await unlink(lockPath).catch(() => undefined)
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error
+      }
+    }
+
+    const lockedAt = await stat(lockPath).then((info) => info.mtimeMs).catch(() => null)
+    if (lockedAt !== null && Date.now() - lockedAt > staleMs) {
+      await unlink(lockPath).catch(() => undefined)
+      continue
+    }
+    if (Date.now() >= deadline) {
+      throw new MachinaStorageError(options.code, `${options.message}: ${lockPath}`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+  }
+}
@@ -0,0 +1,90 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import type { OrchestrationDecision, OrchestrationInput } from "./autonomy"
+import { GuardrailEngine, parseGuardrails, resolveGuardrails } from "./guardrails"
+
+const input = (priority: "critical" | "medium"): OrchestrationInput => ({
+  now: "2026-02-11T10:00:00.000Z",
+  userMessage: "Stop and look at this now",
+  userIntent: "urgent-request",
+  persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+  activeWork: [{ id: "w1", title: "database migration", status: "running", priority, startedAt: "2026-02-11T09:00:00.000Z" }],
+  systemState: {},
+})
+
+const abort = (extra: Partial<OrchestrationDecision> = {}): OrchestrationDecision => ({
+  action: "abort",
+  confidence: 0.9,
+  reason: "user asked to stop",
+  priority: "high",
+  ...extra,
+})
+
+test("GuardrailEngine protects critical work unless the new intent is critical too", () => {
+  const engine = new GuardrailEngine()
+
+  const guarded = engine.apply(abort(), { input: input("critical"), sessionId: "s-1" })
+  expect(guarded.action).toBe("defer")
+  expect(guarded.reason).toBe("user asked to stop")
+  expect(guarded.guardrails).toEqual([
+    {
+      ruleId: "protect-critical-work",
+      type: "protect-critical",
+      from: "abort",
+      to: "defer",
+      reason: "abort would interrupt critical work (database migration) for a high request",
+    },
+  ])
+
+  const allowed = engine.apply(abort({ priority: "critical" }), { input: input("critical"), sessionId: "s-1" })
+  expect(allowed.action).toBe("abort")
+  expect(allowed.guardrails).toBeUndefined()
+})
+
+test("GuardrailEngine caps aborts per session within the window and enforces minimum confidence", () => {
+  let now = Date.parse("2026-02-11T10:00:00.000Z")
+  const engine = new GuardrailEngine({
+    rules: parseGuardrails({
+      guardrails: [
+        { id: "abort-cap", type: "abort-rate-limit", maxAborts: 2, windowMs: 60_000 },
+        { id: "parallel-floor", type: "min-confidence", action: "parallel", minConfidence: 0.7, fallback: "continue" },
+      ],
+    }),
+    now: () => new Date(now),
+  })
+
+  expect(engine.apply(abort(), { input: input("medium"), sessionId: "s-1" }).action).toBe("abort")
+  expect(engine.apply(abort(), { input: input("medium"), sessionId: "s-1" }).action).toBe("abort")
+  const capped = engine.apply(abort(), { input: input("medium"), sessionId: "s-1" })
+  expect(capped.action).toBe("defer")
+  expect(capped.guardrails?.[0]?.ruleId).toBe("abort-cap")
+  expect(engine.apply(abort(), { input: input("medium"), sessionId: "s-2" }).action).toBe("abort")
+
+  now += 60_000
+  expect(engine.apply(abort(), { input: input("medium"), sessionId: "s-1" }).action).toBe("abort")
+
+  const parallel = engine.apply(
+    abort({ action: "parallel", confidence: 0.55, parallelPlan: { lane: "background", maxConcurrency: 2 } }),
+    { input: input("medium"), sessionId: "s-1" },
+  )
+  expect(parallel.action).toBe("continue")
+  expect(parallel.parallelPlan).toBeUndefined()
+  expect(parallel.guardrails?.[0]?.reason).toBe("confidence 0.55 is below 0.7 for parallel")
+})
+
+test("resolveGuardrails reads files, supports off and rejects malformed rules", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "open-machina-guardrails-"))
+  const filePath = path.join(dir, "guardrails.json")
+  await writeFile(filePath, JSON.stringify([{ id: "abort-floor", type: "min-confidence", action: "abort", minConfidence: 0.95 }]))
+
+  expect((await resolveGuardrails({})).map((rule) => rule.id)).toContain("protect-critical-work")
+  expect(await resolveGuardrails({ MACHINA_GUARDRAILS: "off" })).toEqual([])
+  expect(await resolveGuardrails({ MACHINA_GUARDRAILS: filePath })).toHaveLength(1)
+  await expect(resolveGuardrails({ MACHINA_GUARDRAILS: path.join(dir, "missing.json") })).rejects.toThrow("GUARDRAILS_INVALID")
+  expect(() => parseGuardrails([{ id: "cap", type: "abort-rate-limit", maxAborts: 0, windowMs: 1000 }])).toThrow(
+    "GUARDRAILS_INVALID: guardrail cap needs positive maxAborts and windowMs",
+  )
+  expect(() => parseGuardrails([{ id: "x", type: "never" }])).toThrow("unknown type never")
+})
@@ -0,0 +1,194 @@
+import { readFile } from "node:fs/promises"
+import type { OrchestrationAction, OrchestrationDecision, OrchestrationInput } from "./autonomy"
+
+export type GuardrailType = "protect-critical" | "abort-rate-limit" | "min-confidence"
+
+export type GuardrailRule = {
+  id: string
+  type: GuardrailType
+  action?: OrchestrationAction
+  minConfidence?: number
+  maxAborts?: number
+  windowMs?: number
+  fallback?: OrchestrationAction
+}
+
+export type GuardrailOverride = {
+  ruleId: string
+  type: GuardrailType
+  from: OrchestrationAction
+  to: OrchestrationAction
+  reason: string
+}
+
+export type GuardrailContext = {
+  input: OrchestrationInput
+  sessionId?: string
+  rules?: GuardrailRule[]
+}
+
+export type GuardrailEngineOptions = {
+  rules?: GuardrailRule[]
+  now?: () => Date
+}
+
+export const DEFAULT_GUARDRAILS: GuardrailRule[] = [
+  { id: "protect-critical-work", type: "protect-critical", fallback: "defer" },
+  { id: "abort-rate-limit", type: "abort-rate-limit", maxAborts: 3, windowMs: 60 * 60_000, fallback: "defer" },
+  { id: "abort-min-confidence", type: "min-confidence", action: "abort", minConfidence: 0.6, fallback: "defer" },
+  { id: "parallel-min-confidence", type: "min-confidence", action: "parallel", minConfidence: 0.5, fallback: "continue" },
+]
+
+const GUARDRAIL_TYPES: GuardrailType[] = ["protect-critical", "abort-rate-limit", "min-confidence"]
+const ACTIONS: OrchestrationAction[] = ["abort", "defer", "parallel", "continue"]
+const SESSION_FALLBACK_KEY = "*"
+
+export class GuardrailEngine {
+  private readonly rules: GuardrailRule[]
+  private readonly now: () => Date
+  private readonly aborts = new Map<string, number[]>()
+
+  constructor(options: GuardrailEngineOptions = {}) {
+    this.rules = options.rules ?? DEFAULT_GUARDRAILS
+    this.now = options.now ?? (() => new Date())
+  }
+
+  apply(decision: OrchestrationDecision, context: GuardrailContext): OrchestrationDecision {
+    const rules = context.rules ?? this.rules
+    const now = this.now().getTime()
+    const sessionKey = context.sessionId ?? SESSION_FALLBACK_KEY
+    const history = this.pruneAborts(sessionKey, rules, now)
+    let current = decision
+    const overrides: GuardrailOverride[] = []
+
+    for (const rule of rules) {
+      const reason = this.evaluate(rule, current, context.input, history, now)
+      if (!reason) {
+        continue
+      }
+      const to = rule.fallback ?? "defer"
+      if (to === current.action) {
+        continue
+      }
+      overrides.push({ ruleId: rule.id, type: rule.type, from: current.action, to, reason })
+      current = retarget(current, to)
+    }
+
+    if (current.action === "abort") {
+      history.push(now)
+      this.aborts.set(sessionKey, history)
+    }
+    if (overrides.length === 0) {
+      return current
+    }
+    return { ...current, guardrails: [...(decision.guardrails ?? []), ...overrides] }
+  }
+
+  private evaluate(
+    rule: GuardrailRule,
+    decision: OrchestrationDecision,
+    input: OrchestrationInput,
+    aborts: number[],
+    now: number,
+  ): string | null {
+    if (rule.type === "protect-critical") {
+      const critical = (Array.isArray(input.activeWork) ? input.activeWork : []).filter(
+        (item) => item.status === "running" && item.priority === "critical",
+      )
+      if (decision.action === "abort" && critical.length > 0 && decision.priority !== "critical") {
+        return `abort would interrupt critical work (${critical.map((item) => item.title).join(", ")}) for a ${decision.priority} request`
+      }
+      return null
+    }
+
+    if (rule.type === "abort-rate-limit") {
+      const windowMs = rule.windowMs ?? 60 * 60_000
+      const recent = aborts.filter((timestamp) => now - timestamp < windowMs).length
+      if (decision.action === "abort" && recent >= (rule.maxAborts ?? 0)) {
+        return `${recent} aborts in the last ${Math.round(windowMs / 60_000)} minutes (limit ${rule.maxAborts ?? 0})`
+      }
+      return null
+    }
+
+    const minConfidence = rule.minConfidence ?? 0
+    if (decision.action === rule.action && decision.confidence < minConfidence) {
+      return `confidence ${decision.confidence} is below ${minConfidence} for ${decision.action}`
+    }
+    return null
+  }
+
+  private pruneAborts(sessionKey: string, rules: GuardrailRule[], now: number): number[] {
+    const horizon = Math.max(0, ...rules.map((rule) => (rule.type === "abort-rate-limit" ? (rule.windowMs ?? 60 * 60_000) : 0)))
+    const history = (this.aborts.get(sessionKey) ?? []).filter((timestamp) => now - timestamp < horizon)
+    this.aborts.set(sessionKey, history)
+    return history
+  }
+}
+
+export function parseGuardrails(raw: unknown): GuardrailRule[] {
+  const rules = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.guardrails) ? raw.guardrails : null
+  if (!rules) {
+    throw new Error("GUARDRAILS_INVALID: expected a guardrails array")
+  }
+
+  return rules.map((rule, index) => {
+    if (!isRecord(rule) || typeof rule.id !== "string" || rule.id.trim().length === 0) {
+      throw new Error(`GUARDRAILS_INVALID: guardrail at index ${index} is missing an id`)
+    }
+    if (!GUARDRAIL_TYPES.includes(rule.type as GuardrailType)) {
+      throw new Error(`GUARDRAILS_INVALID: guardrail ${rule.id} has unknown type ${String(rule.type)}`)
+    }
+    if (rule.fallback !== undefined && !ACTIONS.includes(rule.fallback as OrchestrationAction)) {
+      throw new Error(`GUARDRAILS_INVALID: guardrail ${rule.id} has an invalid fallback`)
+    }
+    if (rule.type === "abort-rate-limit" && !(isPositiveNumber(rule.maxAborts) && isPositiveNumber(rule.windowMs))) {
+      throw new Error(`GUARDRAILS_INVALID: guardrail ${rule.id} needs positive maxAborts and windowMs`)
+    }
+    if (rule.type === "min-confidence") {
+      if (!ACTIONS.includes(rule.action as OrchestrationAction)) {
+        throw new Error(`GUARDRAILS_INVALID: guardrail ${rule.id} needs an action`)
+      }
+      if (typeof rule.minConfidence !== "number" || rule.minConfidence < 0 || rule.minConfidence > 1) {
+        throw new Error(`GUARDRAILS_INVALID: guardrail ${rule.id} minConfidence must be between 0 and 1`)
+      }
+    }
+    return rule as GuardrailRule
+  })
+}
+
+export async function resolveGuardrails(env: NodeJS.ProcessEnv = process.env): Promise<GuardrailRule[]> {
+  const setting = env.MACHINA_GUARDRAILS?.trim()
+  if (!setting) {
+    return DEFAULT_GUARDRAILS
+  }
+  if (setting === "off") {
+    return []
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(await readFile(setting, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`GUARDRAILS_INVALID: unable to read ${setting}: ${message}`)
+  }
+  return parseGuardrails(raw)
+}
+
+function retarget(decision: OrchestrationDecision, action: OrchestrationAction): OrchestrationDecision {
+  const { deferUntil, parallelPlan, ...rest } = decision
+  return {
+    ...rest,
+    action,
+    ...(action === "defer" && deferUntil ? { deferUntil } : {}),
+    ...(action === "parallel" ? { parallelPlan: parallelPlan ?? { lane: "background" as const, maxConcurrency: 1 } } : {}),
+  }
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
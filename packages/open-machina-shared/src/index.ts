@@ -3,10 +3,30 @@ export function brand() {
 }
 
 export * from "./autonomy"
+export * from "./autonomy-eval"
+export * from "./autonomy-rules"
 export * from "./backup"
 export * from "./channel"
 export * from "./connectors"
+export * from "./consolidation"
+export * from "./cron"
+export * from "./decision-ledger"
+export * from "./decision-schema"
+export * from "./embedding"
+export * from "./file-lock"
+export * from "./guardrails"
+export * from "./judge-resilience"
+export * from "./judge-transport"
+export * from "./maintenance"
 export * from "./memory"
+export * from "./memory-store"
+export * from "./persona"
+export * from "./redaction"
 export * from "./storage"
+export * from "./storage-migration"
+export * from "./system-state"
 export * from "./tools"
+export * from "./work-scheduler"
 export * from "./workflow"
+export * from "./workflow-runs"
+export * from "./workflow-schedules"
@@ -0,0 +1,59 @@
+import { expect, test } from "bun:test"
+import { JudgeCircuitBreaker, JudgeUsageTracker, parseJudgePricing } from "./judge-resilience"
+
+test("JudgeCircuitBreaker opens after consecutive failures and half-opens for a single probe after the cooldown", () => {
+  let now = Date.parse("2026-02-11T10:00:00.000Z")
+  const breaker = new JudgeCircuitBreaker({ failureThreshold: 2, cooldownMs: 30_000, now: () => new Date(now) })
+
+  breaker.recordFailure("openai/gpt")
+  expect(breaker.state("openai/gpt")).toBe("closed")
+  breaker.recordFailure("openai/gpt")
+  expect(breaker.canRequest("openai/gpt")).toBe(false)
+  expect(breaker.snapshot()).toEqual([
+    {
+      key: "openai/gpt",
+      state: "open",
+      consecutiveFailures: 2,
+      openedAt: "2026-02-11T10:00:00.000Z",
+      retryAt: "2026-02-11T10:00:30.000Z",
+    },
+  ])
+
+  now += 30_000
+  expect(breaker.state("openai/gpt")).toBe("half-open")
+  expect(breaker.tryAcquire("openai/gpt")).toBe(true)
+  expect(breaker.tryAcquire("openai/gpt")).toBe(false)
+  expect(breaker.canRequest("openai/gpt")).toBe(false)
+  breaker.recordFailure("openai/gpt")
+  expect(breaker.state("openai/gpt")).toBe("open")
+
+  now += 30_000
+  expect(breaker.tryAcquire("openai/gpt")).toBe(true)
+  breaker.recordSuccess("openai/gpt")
+  expect(breaker.state("openai/gpt")).toBe("closed")
+  expect(breaker.snapshot()).toEqual([])
+})
+
+test("JudgeUsageTracker totals tokens, retries and priced cost per model", () => {
+  const tracker = new JudgeUsageTracker({ now: () => new Date("2026-02-11T10:00:00.000Z") })
+  tracker.record("anthropic/claude", { ok: true, attempts: 2, latencyMs: 300, usage: { inputTokens: 2_000, outputTokens: 500 } })
+  tracker.record("anthropic/claude", { ok: false, attempts: 1, latencyMs: 100, error: "AUTONOMY_JUDGE_FAILED: HTTP 500" })
+  tracker.record("ollama/qwen3", { ok: true, attempts: 1, latencyMs: 50, usage: { inputTokens: 800, outputTokens: 60 } })
+
+  const report = tracker.report(parseJudgePricing({ "anthropic/claude": { inputPerMillion: 3, outputPerMillion: 15 } }))
+  expect(report.since).toBe("2026-02-11T10:00:00.000Z")
+  expect(report.models[0]).toEqual({
+    key: "anthropic/claude",
+    calls: 2,
+    failures: 1,
+    retries: 1,
+    inputTokens: 2_000,
+    outputTokens: 500,
+    costUsd: 0.0135,
+    averageLatencyMs: 200,
+    lastError: "AUTONOMY_JUDGE_FAILED: HTTP 500",
+  })
+  expect(report.models[1]?.costUsd).toBeNull()
+  expect(report.totals).toEqual({ calls: 3, failures: 1, inputTokens: 2_800, outputTokens: 560, costUsd: 0.0135 })
+  expect(() => parseJudgePricing({ claude: { inputPerMillion: 3 } })).toThrow("JUDGE_PRICING_INVALID")
+})
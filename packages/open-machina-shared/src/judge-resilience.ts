@@ -0,0 +1,250 @@
+import { readFile } from "node:fs/promises"
+import type { JudgeCallReport } from "./judge-transport"
+
+export type CircuitState = "closed" | "open" | "half-open"
+
+export type CircuitSnapshot = {
+  key: string
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt?: string
+  retryAt?: string
+}
+
+export type JudgeCircuitBreakerOptions = {
+  failureThreshold?: number
+  cooldownMs?: number
+  now?: () => Date
+}
+
+export type JudgePrice = {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+export type JudgePricing = Record<string, JudgePrice>
+
+export type JudgeUsageSummary = {
+  key: string
+  calls: number
+  failures: number
+  retries: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number | null
+  averageLatencyMs: number
+  lastError?: string
+}
+
+export type JudgeUsageReport = {
+  since: string
+  models: JudgeUsageSummary[]
+  totals: {
+    calls: number
+    failures: number
+    inputTokens: number
+    outputTokens: number
+    costUsd: number | null
+  }
+}
+
+export type JudgeUsageTrackerOptions = {
+  pricing?: JudgePricing
+  now?: () => Date
+}
+
+type CircuitRecord = {
+  consecutiveFailures: number
+  openedAt?: number
+  probeStartedAt?: number
+}
+
+type UsageRecord = Omit<JudgeUsageSummary, "key" | "costUsd" | "averageLatencyMs"> & { totalLatencyMs: number }
+
+const DEFAULT_FAILURE_THRESHOLD = 3
+const DEFAULT_COOLDOWN_MS = 60_000
+
+export class JudgeCircuitBreaker {
+  private readonly failureThreshold: number
+  private readonly cooldownMs: number
+  private readonly now: () => Date
+  private readonly circuits = new Map<string, CircuitRecord>()
+
+  constructor(options: JudgeCircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)
+    this.cooldownMs = Math.max(0, options.cooldownMs ?? DEFAULT_COOLDOWN_MS)
+    this.now = options.now ?? (() => new Date())
+  }
+
+  state(key: string): CircuitState {
+    const circuit = this.circuits.get(key)
+    if (!circuit || circuit.openedAt === undefined) {
+      return "closed"
+    }
+    return this.now().getTime() - circuit.openedAt >= this.cooldownMs ? "half-open" : "open"
+  }
+
+  canRequest(key: string): boolean {
+    const state = this.state(key)
+    return state === "closed" || (state === "half-open" && !this.probing(key))
+  }
+
+  tryAcquire(key: string): boolean {
+    if (!this.canRequest(key)) {
+      return false
+    }
+    const circuit = this.circuits.get(key)
+    if (circuit && this.state(key) === "half-open") {
+      circuit.probeStartedAt = this.now().getTime()
+    }
+    return true
+  }
+
+  recordSuccess(key: string): void {
+    this.circuits.delete(key)
+  }
+
+  recordFailure(key: string): void {
+    const circuit = this.circuits.get(key) ?? { consecutiveFailures: 0 }
+    const halfOpen = this.state(key) === "half-open"
+    circuit.consecutiveFailures += 1
+    if (halfOpen || circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.openedAt = this.now().getTime()
+    }
+    circuit.probeStartedAt = undefined
+    this.circuits.set(key, circuit)
+  }
+
+  private probing(key: string): boolean {
+    const startedAt = this.circuits.get(key)?.probeStartedAt
+    return startedAt !== undefined && this.now().getTime() - startedAt < this.cooldownMs
+  }
+
+  snapshot(): CircuitSnapshot[] {
+    return [...this.circuits.entries()]
+      .map(([key, circuit]) => ({
+        key,
+        state: this.state(key),
+        consecutiveFailures: circuit.consecutiveFailures,
+        ...(circuit.openedAt !== undefined
+          ? {
+              openedAt: new Date(circuit.openedAt).toISOString(),
+              retryAt: new Date(circuit.openedAt + this.cooldownMs).toISOString(),
+            }
+          : {}),
+      }))
+      .sort((left, right) => left.key.localeCompare(right.key))
+  }
+}
+
+export class JudgeUsageTracker {
+  private readonly pricing: JudgePricing
+  private readonly since: string
+  private readonly records = new Map<string, UsageRecord>()
+
+  constructor(options: JudgeUsageTrackerOptions = {}) {
+    this.pricing = options.pricing ?? {}
+    this.since = (options.now ?? (() => new Date()))().toISOString()
+  }
+
+  record(key: string, report: JudgeCallReport): void {
+    const record = this.records.get(key) ?? {
+      calls: 0,
+      failures: 0,
+      retries: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalLatencyMs: 0,
+    }
+    record.calls += 1
+    record.failures += report.ok ? 0 : 1
+    record.retries += Math.max(0, report.attempts - 1)
+    record.inputTokens += report.usage?.inputTokens ?? 0
+    record.outputTokens += report.usage?.outputTokens ?? 0
+    record.totalLatencyMs += report.latencyMs
+    if (report.error) {
+      record.lastError = report.error
+    }
+    this.records.set(key, record)
+  }
+
+  report(pricing: JudgePricing = this.pricing): JudgeUsageReport {
+    const models = [...this.records.entries()]
+      .map(([key, record]): JudgeUsageSummary => {
+        const { totalLatencyMs, ...rest } = record
+        return {
+          key,
+          ...rest,
+          costUsd: estimateCost(pricing[key], record.inputTokens, record.outputTokens),
+          averageLatencyMs: record.calls > 0 ? Math.round(totalLatencyMs / record.calls) : 0,
+        }
+      })
+      .sort((left, right) => left.key.localeCompare(right.key))
+
+    const priced = models.filter((model) => model.costUsd !== null)
+    return {
+      since: this.since,
+      models,
+      totals: {
+        calls: sum(models.map((model) => model.calls)),
+        failures: sum(models.map((model) => model.failures)),
+        inputTokens: sum(models.map((model) => model.inputTokens)),
+        outputTokens: sum(models.map((model) => model.outputTokens)),
+        costUsd: priced.length > 0 ? roundCost(sum(priced.map((model) => model.costUsd ?? 0))) : null,
+      },
+    }
+  }
+}
+
+export function parseJudgePricing(raw: unknown): JudgePricing {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("JUDGE_PRICING_INVALID: expected an object keyed by provider/model")
+  }
+
+  const pricing: JudgePricing = {}
+  for (const [key, value] of Object.entries(raw)) {
+    const price = value as Partial<JudgePrice> | null
+    if (
+      !key.includes("/") ||
+      typeof price?.inputPerMillion !== "number" ||
+      typeof price.outputPerMillion !== "number" ||
+      price.inputPerMillion < 0 ||
+      price.outputPerMillion < 0
+    ) {
+      throw new Error(`JUDGE_PRICING_INVALID: ${key} needs non-negative inputPerMillion and outputPerMillion`)
+    }
+    pricing[key] = { inputPerMillion: price.inputPerMillion, outputPerMillion: price.outputPerMillion }
+  }
+  return pricing
+}
+
+export async function resolveJudgePricing(env: NodeJS.ProcessEnv = process.env): Promise<JudgePricing> {
+  const setting = env.MACHINA_JUDGE_PRICING?.trim()
+  if (!setting) {
+    return {}
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(await readFile(setting, "utf8"))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`JUDGE_PRICING_INVALID: unable to read ${setting}: ${message}`)
+  }
+  return parseJudgePricing(raw)
+}
+
+function estimateCost(price: JudgePrice | undefined, inputTokens: number, outputTokens: number): number | null {
+  if (!price) {
+    return null
+  }
+  return roundCost((inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000)
+}
+
+function roundCost(value: number): number {
+  return Number(value.toFixed(6))
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
@@ -0,0 +1,210 @@
+import { afterAll, beforeAll, expect, test } from "bun:test"
+import { decideOrchestration, type OrchestrationInput } from "./autonomy"
+import { ORCHESTRATION_DECISION_SCHEMA } from "./decision-schema"
+import {
+  ANTHROPIC_API_VERSION,
+  createJudgeTransport,
+  inferJudgeApiUrl,
+  inferJudgeTransportKind,
+  parseJudgeTransportKind,
+} from "./judge-transport"
+
+type Captured = { path: string; headers: Record<string, string>; body: Record<string, unknown> }
+
+const decision = { action: "defer", confidence: 0.8, reason: "not urgent", priority: "low" }
+const captured: Captured[] = []
+let server: ReturnType<typeof Bun.serve>
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch: async (request) => {
+      const path = new URL(request.url).pathname
+      const body = (await request.json()) as Record<string, unknown>
+      const headers: Record<string, string> = {}
+      request.headers.forEach((value, key) => {
+        headers[key] = value
+      })
+      captured.push({ path, headers, body })
+
+      if (path === "/v1/chat/completions") {
+        return Response.json({ choices: [{ message: { content: JSON.stringify(decision) } }] })
+      }
+      if (path === "/refuse/v1/chat/completions") {
+        return Response.json({ choices: [{ message: { content: null, refusal: "cannot help" } }] })
+      }
+      if (path === "/v1/messages") {
+        return Response.json({
+          content: [
+            { type: "text", text: "Recording the decision." },
+            { type: "tool_use", id: "toolu_1", name: "record_orchestration_decision", input: decision },
+          ],
+          stop_reason: "tool_use",
+        })
+      }
+      if (path === "/api/chat") {
+        return Response.json({ message: { role: "assistant", content: JSON.stringify(decision) }, done: true })
+      }
+      if (path === "/completion") {
+        return Response.json({ content: JSON.stringify(decision), stop: true })
+      }
+      return new Response("not found", { status: 404 })
+    },
+  })
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+const base = () => `http://127.0.0.1:${server.port}`
+const last = () => captured[captured.length - 1]!
+
+const input: OrchestrationInput = {
+  now: "2026-02-11T10:00:00.000Z",
+  userMessage: "Summarize the logs later",
+  userIntent: "deferred-request",
+  persona: { name: "machina", traits: [], goals: [], fixedPrinciples: [] },
+  activeWork: [],
+  systemState: {},
+}
+
+test("openai and openai-compatible transports request schema and JSON-object output", async () => {
+  const openai = createJudgeTransport({ kind: "openai", apiUrl: `${base()}/v1/chat/completions`, modelID: "gpt-judge", token: "sk-1" })
+  expect((await decideOrchestration(input, openai.call)).action).toBe("defer")
+  expect(last().headers.authorization).toBe("Bearer sk-1")
+  expect(last().body.response_format).toEqual({
+    type: "json_schema",
+    json_schema: { name: "orchestration_decision", schema: JSON.parse(JSON.stringify(ORCHESTRATION_DECISION_SCHEMA)) },
+  })
+
+  const compatible = createJudgeTransport({ kind: "openai-compatible", apiUrl: `${base()}/v1/chat/completions`, modelID: "grok", token: "k" })
+  await compatible.call("prompt")
+  expect(last().body.response_format).toEqual({ type: "json_object" })
+  expect(last().body.messages).toEqual([
+    { role: "system", content: "You are open-machina orchestration judge. Return strict JSON only." },
+    { role: "user", content: "prompt" },
+  ])
+
+  const refusing = createJudgeTransport({ kind: "openai", apiUrl: `${base()}/refuse/v1/chat/completions`, modelID: "gpt-judge", token: "k" })
+  await expect(refusing.call("prompt")).rejects.toThrow("AUTONOMY_JUDGE_FAILED: judge refused: cannot help")
+})
+
+test("anthropic transport forces the decision tool and reads its input", async () => {
+  const transport = createJudgeTransport({ kind: "anthropic", apiUrl: `${base()}/v1/messages`, modelID: "claude-judge", token: "ak-1" })
+  const raw = await transport.call("decide")
+
+  expect(JSON.parse(raw)).toEqual(decision)
+  expect(last().headers["x-api-key"]).toBe("ak-1")
+  expect(last().headers["anthropic-version"]).toBe(ANTHROPIC_API_VERSION)
+  expect(last().headers.authorization).toBeUndefined()
+  expect(last().body.max_tokens).toBe(1024)
+  expect(last().body.system).toContain("orchestration judge")
+  expect(last().body.tool_choice).toEqual({ type: "tool", name: "record_orchestration_decision" })
+  expect((last().body.tools as Array<{ input_schema: unknown }>)[0]?.input_schema).toEqual(
+    JSON.parse(JSON.stringify(ORCHESTRATION_DECISION_SCHEMA)),
+  )
+})
+
+test("ollama and llama.cpp transports pass the schema natively and need no token", async () => {
+  const ollama = createJudgeTransport({ kind: "ollama", apiUrl: `${base()}/api/chat`, modelID: "qwen3" })
+  expect((await decideOrchestration(input, ollama.call)).action).toBe("defer")
+  expect(last().headers.authorization).toBeUndefined()
+  expect(last().body.stream).toBe(false)
+  expect(last().body.format).toEqual(JSON.parse(JSON.stringify(ORCHESTRATION_DECISION_SCHEMA)))
+
+  const llamacpp = createJudgeTransport({ kind: "llamacpp", apiUrl: `${base()}/completion`, modelID: "local" })
+  expect((await decideOrchestration(input, llamacpp.call)).action).toBe("defer")
+  expect(last().body.json_schema).toEqual(JSON.parse(JSON.stringify(ORCHESTRATION_DECISION_SCHEMA)))
+  expect(String(last().body.prompt)).toStartWith("You are open-machina orchestration judge.")
+
+  const missing = createJudgeTransport({ kind: "ollama", apiUrl: `${base()}/missing`, modelID: "qwen3" })
+  await expect(missing.call("prompt")).rejects.toThrow("AUTONOMY_JUDGE_FAILED: HTTP 404")
+})
+
+test("provider ids map to transports and default endpoints", () => {
+  expect(inferJudgeTransportKind("Anthropic")).toBe("anthropic")
+  expect(inferJudgeTransportKind("llama.cpp")).toBe("llamacpp")
+  expect(inferJudgeTransportKind("openrouter")).toBe("openai-compatible")
+  expect(inferJudgeApiUrl("anthropic")).toBe("https://api.anthropic.com/v1/messages")
+  expect(inferJudgeApiUrl("ollama")).toBe("http://127.0.0.1:11434/api/chat")
+  expect(inferJudgeApiUrl("llamacpp")).toBe("http://127.0.0.1:8080/completion")
+  expect(inferJudgeApiUrl("custom")).toBeNull()
+  expect(parseJudgeTransportKind(" Ollama ")).toBe("ollama")
+  expect(parseJudgeTransportKind(undefined)).toBeUndefined()
+  expect(() => parseJudgeTransportKind("grpc")).toThrow("AUTONOMY_JUDGE_TRANSPORT_INVALID")
+})
+
+test("transport retries 429 and 5xx with jittered backoff, honours Retry-After and reports usage", async () => {
+  const statuses = [429, 503, 200]
+  const delays: number[] = []
+  const reports: unknown[] = []
+  const transport = createJudgeTransport({
+    kind: "anthropic",
+    apiUrl: "https://judge.example.test/v1/messages",
+    modelID: "claude-judge",
+    token: "ak",
+    retry: { maxAttempts: 3, baseDelayMs: 100 },
+    random: () => 0.5,
+    sleep: async (ms) => {
+      delays.push(ms)
+    },
+    onCall: (report) => reports.push(report),
+    fetch: (async () => {
+      const status = statuses.shift() ?? 200
+      if (status !== 200) {
+        return new Response("busy", { status, headers: status === 429 ? { "retry-after": "2" } : {} })
+      }
+      return Response.json({
+        content: [{ type: "tool_use", name: "record_orchestration_decision", input: decision }],
+        usage: { input_tokens: 900, output_tokens: 40 },
+      })
+    }) as unknown as typeof fetch,
+  })
+
+  expect(JSON.parse(await transport.call("decide"))).toEqual(decision)
+  expect(delays).toEqual([2000, 150])
+  expect(reports).toEqual([
+    expect.objectContaining({ ok: true, attempts: 3, status: 200, usage: { inputTokens: 900, outputTokens: 40 } }),
+  ])
+
+  const failing = createJudgeTransport({
+    kind: "openai",
+    apiUrl: "https://judge.example.test/v1/chat/completions",
+    modelID: "gpt-judge",
+    retry: { maxAttempts: 5 },
+    sleep: async () => undefined,
+    onCall: (report) => reports.push(report),
+    fetch: (async () => new Response("bad", { status: 400 })) as unknown as typeof fetch,
+  })
+  await expect(failing.call("decide")).rejects.toThrow("AUTONOMY_JUDGE_FAILED: HTTP 400")
+  expect(reports[1]).toEqual(expect.objectContaining({ ok: false, attempts: 1, status: 400 }))
+})
+
+test("transport times out a hung judge endpoint and stops at the decision deadline", async () => {
+  const hung = Bun.serve({
+    port: 0,
+    fetch: () => new Promise<Response>((resolve) => setTimeout(() => resolve(new Response("late")), 2_000)),
+  })
+  try {
+    const transport = createJudgeTransport({
+      kind: "ollama",
+      apiUrl: `http://127.0.0.1:${hung.port}/api/chat`,
+      modelID: "qwen3",
+      timeoutMs: 50,
+    })
+    await expect(transport.call("decide")).rejects.toThrow("AUTONOMY_JUDGE_TIMEOUT: no response within 50ms")
+
+    const bounded = createJudgeTransport({
+      kind: "ollama",
+      apiUrl: `http://127.0.0.1:${hung.port}/api/chat`,
+      modelID: "qwen3",
+      timeoutMs: 1_000,
+      signal: AbortSignal.timeout(30),
+    })
+    await expect(bounded.call("decide")).rejects.toThrow("AUTONOMY_JUDGE_DEADLINE: decision deadline exceeded")
+    await expect(bounded.call("decide")).rejects.toThrow("AUTONOMY_JUDGE_DEADLINE")
+  } finally {
+    hung.stop(true)
+  }
+})
@@ -0,0 +1,398 @@
+import type { OrchestrationJudge } from "./autonomy"
+import { ORCHESTRATION_DECISION_SCHEMA, type JsonSchema } from "./decision-schema"
+
+export type JudgeTransportKind = "openai" | "openai-compatible" | "anthropic" | "ollama" | "llamacpp"
+
+export type JudgeTransportOptions = {
+  kind: JudgeTransportKind
+  apiUrl: string
+  modelID: string
+  token?: string
+  schema?: JsonSchema
+  systemPrompt?: string
+  temperature?: number
+  maxTokens?: number
+  timeoutMs?: number
+  signal?: AbortSignal
+  retry?: JudgeRetryPolicy
+  onCall?: (report: JudgeCallReport) => void
+  fetch?: typeof fetch
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+}
+
+export type JudgeRetryPolicy = {
+  maxAttempts?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+export type JudgeUsage = {
+  inputTokens: number
+  outputTokens: number
+}
+
+export type JudgeCallReport = {
+  ok: boolean
+  attempts: number
+  latencyMs: number
+  status?: number
+  usage?: JudgeUsage
+  error?: string
+}
+
+export type JudgeTransport = {
+  kind: JudgeTransportKind
+  apiUrl: string
+  call: OrchestrationJudge
+}
+
+type TransportRequest = {
+  headers: Record<string, string>
+  body: Record<string, unknown>
+}
+
+type TransportAdapter = {
+  build: (options: ResolvedTransportOptions, prompt: string) => TransportRequest
+  read: (payload: unknown) => string | undefined
+  usage: (payload: unknown) => JudgeUsage | undefined
+}
+
+type ResolvedTransportOptions = Required<
+  Omit<JudgeTransportOptions, "token" | "timeoutMs" | "signal" | "retry" | "onCall" | "fetch" | "sleep" | "random">
+> & { token?: string }
+
+export const JUDGE_TRANSPORT_KINDS: JudgeTransportKind[] = ["openai", "openai-compatible", "anthropic", "ollama", "llamacpp"]
+
+export const ANTHROPIC_API_VERSION = "2023-06-01"
+
+const DEFAULT_SYSTEM_PROMPT = "You are open-machina orchestration judge. Return strict JSON only."
+const DECISION_TOOL_NAME = "record_orchestration_decision"
+const SCHEMA_NAME = "orchestration_decision"
+const DEFAULT_TIMEOUT_MS = 30_000
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_BASE_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 8_000
+
+const ADAPTERS: Record<JudgeTransportKind, TransportAdapter> = {
+  openai: {
+    build: (options, prompt) => ({
+      headers: bearer(options.token),
+      body: {
+        model: options.modelID,
+        response_format: { type: "json_schema", json_schema: { name: SCHEMA_NAME, schema: options.schema } },
+        messages: chatMessages(options, prompt),
+        temperature: options.temperature,
+      },
+    }),
+    read: readChatCompletion,
+    usage: (payload) => readUsage(payload, "prompt_tokens", "completion_tokens"),
+  },
+  "openai-compatible": {
+    build: (options, prompt) => ({
+      headers: bearer(options.token),
+      body: {
+        model: options.modelID,
+        response_format: { type: "json_object" },
+        messages: chatMessages(options, prompt),
+        temperature: options.temperature,
+      },
+    }),
+    read: readChatCompletion,
+    usage: (payload) => readUsage(payload, "prompt_tokens", "completion_tokens"),
+  },
+  anthropic: {
+    build: (options, prompt) => ({
+      headers: {
+        ...(options.token ? { "x-api-key": options.token } : {}),
+        "anthropic-version": ANTHROPIC_API_VERSION,
+      },
+      body: {
+        model: options.modelID,
+        max_tokens: options.maxTokens,
+        system: options.systemPrompt,
+        messages: [{ role: "user", content: prompt }],
+        tools: [
+          {
+            name: DECISION_TOOL_NAME,
+            description: "Record the orchestration decision.",
+            input_schema: options.schema,
+          },
+        ],
+        tool_choice: { type: "tool", name: DECISION_TOOL_NAME },
+        temperature: options.temperature,
+      },
+    }),
+    read: (payload) => {
+      const content = isRecord(payload) && Array.isArray(payload.content) ? payload.content.filter(isRecord) : []
+      const tool = content.find((block) => block.type === "tool_use" && block.name === DECISION_TOOL_NAME)
+      if (tool && isRecord(tool.input)) {
+        return JSON.stringify(tool.input)
+      }
+      const text = content
+        .filter((block) => block.type === "text" && typeof block.text === "string")
+        .map((block) => block.text as string)
+        .join("")
+      return text || undefined
+    },
+    usage: (payload) => readUsage(payload, "input_tokens", "output_tokens"),
+  },
+  ollama: {
+    build: (options, prompt) => ({
+      headers: bearer(options.token),
+      body: {
+        model: options.modelID,
+        messages: chatMessages(options, prompt),
+        format: options.schema,
+        stream: false,
+        options: { temperature: options.temperature, num_predict: options.maxTokens },
+      },
+    }),
+    read: (payload) => {
+      const message = isRecord(payload) && isRecord(payload.message) ? payload.message : undefined
+      return typeof message?.content === "string" ? message.content : undefined
+    },
+    usage: (payload) => readCounts(payload, "prompt_eval_count", "eval_count"),
+  },
+  llamacpp: {
+    build: (options, prompt) => ({
+      headers: bearer(options.token),
+      body: {
+        prompt: `${options.systemPrompt}\n\n${prompt}`,
+        json_schema: options.schema,
+        temperature: options.temperature,
+        n_predict: options.maxTokens,
+        stream: false,
+      },
+    }),
+    read: (payload) => (isRecord(payload) && typeof payload.content === "string" ? payload.content : undefined),
+    usage: (payload) => readCounts(payload, "tokens_evaluated", "tokens_predicted"),
+  },
+}
+
+export function createJudgeTransport(options: JudgeTransportOptions): JudgeTransport {
+  const adapter = ADAPTERS[options.kind]
+  if (!adapter) {
+    throw new Error(`AUTONOMY_JUDGE_TRANSPORT_INVALID: unknown transport ${String(options.kind)}`)
+  }
+  const request = options.fetch ?? fetch
+  const resolved: ResolvedTransportOptions = {
+    kind: options.kind,
+    apiUrl: options.apiUrl,
+    modelID: options.modelID,
+    token: options.token,
+    schema: options.schema ?? ORCHESTRATION_DECISION_SCHEMA,
+    systemPrompt: options.systemPrompt ?? DEFAULT_SYSTEM_PROMPT,
+    temperature: options.temperature ?? 0.2,
+    maxTokens: options.maxTokens ?? 1024,
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const maxAttempts = Math.max(1, Math.floor(options.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS))
+  const baseDelayMs = options.retry?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS
+  const maxDelayMs = options.retry?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+  const random = options.random ?? Math.random
+
+  const attempt = async (prompt: string): Promise<{ response: Response } | { status: number; retryAfterMs?: number }> => {
+    const { headers, body } = adapter.build(resolved, prompt)
+    let response: Response
+    try {
+      response = await request(options.apiUrl, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: options.signal ? AbortSignal.any([AbortSignal.timeout(timeoutMs), options.signal]) : AbortSignal.timeout(timeoutMs),
+      })
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw deadlineError()
+      }
+      if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+        throw new Error(`AUTONOMY_JUDGE_TIMEOUT: no response within ${timeoutMs}ms`)
+      }
+      throw error
+    }
+    if (response.ok) {
+      return { response }
+    }
+    await response.body?.cancel().catch(() => undefined)
+    return { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get("retry-after")) }
+  }
+
+  return {
+    kind: options.kind,
+    apiUrl: options.apiUrl,
+    call: async (prompt) => {
+      const startedAt = Date.now()
+      let attempts = 0
+      let status: number | undefined
+      let usage: JudgeUsage | undefined
+      try {
+        for (;;) {
+          if (options.signal?.aborted) {
+            throw deadlineError()
+          }
+          attempts += 1
+          const result = await attempt(prompt)
+          if ("response" in result) {
+            status = result.response.status
+            const payload = await result.response.json().catch(() => ({}))
+            usage = adapter.usage(payload)
+            const refusal = readRefusal(payload)
+            if (refusal) {
+              throw new Error(`AUTONOMY_JUDGE_FAILED: judge refused: ${refusal}`)
+            }
+            const text = adapter.read(payload)
+            if (!text) {
+              throw new Error("AUTONOMY_JUDGE_FAILED: empty response")
+            }
+            options.onCall?.({ ok: true, attempts, latencyMs: Date.now() - startedAt, status, usage })
+            return text
+          }
+
+          status = result.status
+          if (!isRetryableStatus(result.status) || attempts >= maxAttempts) {
+            throw new Error(`AUTONOMY_JUDGE_FAILED: HTTP ${result.status}`)
+          }
+          const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1))
+          await sleep(Math.min(maxDelayMs, result.retryAfterMs ?? Math.round(backoff / 2 + random() * (backoff / 2))))
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        options.onCall?.({ ok: false, attempts, latencyMs: Date.now() - startedAt, status, usage, error: message })
+        throw error
+      }
+    },
+  }
+}
+
+export function inferJudgeTransportKind(providerID: string): JudgeTransportKind {
+  const provider = providerID.trim().toLowerCase()
+  if (provider === "openai" || provider === "anthropic" || provider === "ollama") {
+    return provider
+  }
+  if (provider === "llamacpp" || provider === "llama.cpp" || provider === "llama-cpp") {
+    return "llamacpp"
+  }
+  return "openai-compatible"
+}
+
+export function inferJudgeApiUrl(providerID: string): string | null {
+  const provider = providerID.trim().toLowerCase()
+  if (provider === "openai") {
+    return "https://api.openai.com/v1/chat/completions"
+  }
+  if (provider === "openrouter") {
+    return "https://openrouter.ai/api/v1/chat/completions"
+  }
+  if (provider === "xai") {
+    return "https://api.x.ai/v1/chat/completions"
+  }
+  if (provider === "anthropic") {
+    return "https://api.anthropic.com/v1/messages"
+  }
+  if (provider === "ollama") {
+    return "http://127.0.0.1:11434/api/chat"
+  }
+  if (inferJudgeTransportKind(provider) === "llamacpp") {
+    return "http://127.0.0.1:8080/completion"
+  }
+  return null
+}
+
+export function parseJudgeTransportKind(value: string | undefined): JudgeTransportKind | undefined {
+  const kind = value?.trim().toLowerCase()
+  if (!kind) {
+    return undefined
+  }
+  if (!JUDGE_TRANSPORT_KINDS.includes(kind as JudgeTransportKind)) {
+    throw new Error(`AUTONOMY_JUDGE_TRANSPORT_INVALID: expected one of ${JUDGE_TRANSPORT_KINDS.join(", ")}`)
+  }
+  return kind as JudgeTransportKind
+}
+
+export function judgeTransportRequiresToken(kind: JudgeTransportKind): boolean {
+  return kind !== "ollama" && kind !== "llamacpp"
+}
+
+function chatMessages(options: ResolvedTransportOptions, prompt: string) {
+  return [
+    { role: "system", content: options.systemPrompt },
+    { role: "user", content: prompt },
+  ]
+}
+
+function readChatCompletion(payload: unknown): string | undefined {
+  const choices = isRecord(payload) && Array.isArray(payload.choices) ? payload.choices : []
+  const message = isRecord(choices[0]) && isRecord(choices[0].message) ? choices[0].message : undefined
+  if (typeof message?.content === "string") {
+    return message.content
+  }
+  if (Array.isArray(message?.content)) {
+    return message.content
+      .filter((part): part is Record<string, unknown> => isRecord(part) && typeof part.text === "string")
+      .map((part) => part.text as string)
+      .join("")
+  }
+  return undefined
+}
+
+function readRefusal(payload: unknown): string | undefined {
+  const choices = isRecord(payload) && Array.isArray(payload.choices) ? payload.choices : []
+  const message = isRecord(choices[0]) && isRecord(choices[0].message) ? choices[0].message : undefined
+  if (typeof message?.refusal === "string" && message.refusal.length > 0) {
+    return message.refusal
+  }
+  if (isRecord(payload) && payload.stop_reason === "refusal") {
+    return "stop_reason=refusal"
+  }
+  return undefined
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+function deadlineError(): Error {
+  return new Error("AUTONOMY_JUDGE_DEADLINE: decision deadline exceeded")
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000
+  }
+  const at = Date.parse(value)
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now())
+}
+
+function readUsage(payload: unknown, inputKey: string, outputKey: string): JudgeUsage | undefined {
+  return readCounts(isRecord(payload) ? payload.usage : undefined, inputKey, outputKey)
+}
+
+function readCounts(source: unknown, inputKey: string, outputKey: string): JudgeUsage | undefined {
+  if (!isRecord(source)) {
+    return undefined
+  }
+  const input = source[inputKey]
+  const output = source[outputKey]
+  if (typeof input !== "number" && typeof output !== "number") {
+    return undefined
+  }
+  return {
+    inputTokens: typeof input === "number" ? input : 0,
+    outputTokens: typeof output === "number" ? output : 0,
+  }
+}
+
+function bearer(token: string | undefined): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
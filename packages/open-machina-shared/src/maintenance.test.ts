@@ -0,0 +1,82 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { SnapshotItem } from "./backup"
+import { NIGHTLY_MAINTENANCE_WORKFLOW, createNightlyMaintenanceWorkflow, type MaintenanceReport } from "./maintenance"
+import { ensureStorageInitialized, writeSessionRecords } from "./storage"
+import { WorkflowEngine } from "./workflow"
+
+test("nightly maintenance checks, compacts, snapshots and verifies connectors in dependency order", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-maintenance-"))
+
+  try {
+    await ensureStorageInitialized(storageDir)
+    await writeSessionRecords(storageDir, [
+      { id: "s1", updatedAt: "2026-02-01T00:00:00.000Z", payload: { turn: 1 } },
+      { id: "s1", updatedAt: "2026-02-02T00:00:00.000Z", payload: { turn: 2 } },
+    ])
+    await writeFile(
+      join(storageDir, "channels-accounts.json"),
+      JSON.stringify({
+        schemaVersion: 1,
+        accounts: {
+          "ops-bot": {
+            accountId: "ops-bot",
+            connectorId: "telegram",
+            config: { accountId: "ops-bot", endpoint: "telegram://ops", accessToken: "telegram-token-12345" },
+            updatedAt: "2026-02-01T00:00:00.000Z",
+          },
+          "old-bot": {
+            accountId: "old-bot",
+            connectorId: "telegram",
+            config: { accountId: "old-bot", endpoint: "telegram://old" },
+            updatedAt: "2026-02-01T00:00:00.000Z",
+          },
+        },
+      }),
+    )
+
+    const snapshots: SnapshotItem[] = []
+    const roots: string[] = []
+    const engine = new WorkflowEngine()
+    engine.register(
+      createNightlyMaintenanceWorkflow({
+        now: () => new Date("2026-02-11T03:00:00.000Z"),
+        snapshotAdapter: (rootDir) => {
+          roots.push(rootDir)
+          return {
+            os: "linux",
+            create: async () => {
+              const item = { id: "snap-1", createdAt: "2026-02-11T03:00:00.000Z", source: "test" }
+              snapshots.push(item)
+              return item
+            },
+            list: async () => [...snapshots],
+            remove: async () => undefined,
+          }
+        },
+      }),
+    )
+
+    const execution = await engine.run<{ storageDir: string }, MaintenanceReport>(NIGHTLY_MAINTENANCE_WORKFLOW, {
+      payload: { storageDir },
+    })
+
+    expect(execution.status).toBe("completed")
+    expect(execution.result?.integrity?.healthy).toBe(true)
+    expect(execution.result?.compaction).toEqual({ before: 2, after: 1, removed: 1 })
+    expect(execution.result?.snapshot?.created?.id).toBe("snap-1")
+    expect(roots).toEqual([storageDir])
+    expect(execution.result?.connectors?.map((check) => `${check.accountId}:${check.status}`).sort()).toEqual([
+      "old-bot:failed",
+      "ops-bot:skipped",
+    ])
+    const completed = execution.completedSteps ?? []
+    expect(completed.indexOf("integrity")).toBeLessThan(completed.indexOf("compaction"))
+    expect(completed.indexOf("compaction")).toBeLessThan(completed.indexOf("snapshot"))
+    expect(completed).toContain("connectors")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,120 @@
+import {
+  DEFAULT_SNAPSHOT_POLICY,
+  createNativeSnapshotAdapter,
+  runSnapshotCycle,
+  type SnapshotAdapter,
+  type SnapshotPolicy,
+  type SnapshotRunResult,
+} from "./backup"
+import { ChannelRegistry } from "./channel"
+import { verifyConnectorConfig } from "./connectors"
+import {
+  checkSessionIntegrity,
+  compactSessions,
+  getStoragePaths,
+  type CompactionReport,
+  type IntegrityReport,
+} from "./storage"
+import { defineWorkflowSteps, type WorkflowDefinition } from "./workflow"
+
+export type MaintenancePayload = {
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  live?: boolean
+}
+
+export type ConnectorCheck = {
+  accountId: string
+  connectorId: string
+  status: "verified" | "skipped" | "failed"
+  message: string
+}
+
+export type MaintenanceReport = {
+  integrity?: IntegrityReport
+  compaction?: CompactionReport
+  snapshot?: SnapshotRunResult
+  connectors?: ConnectorCheck[]
+}
+
+export type MaintenanceWorkflowOptions = {
+  snapshotAdapter?: (rootDir: string) => SnapshotAdapter
+  snapshotPolicy?: SnapshotPolicy
+  concurrency?: number
+  now?: () => Date
+}
+
+export const NIGHTLY_MAINTENANCE_WORKFLOW = "maintenance.nightly"
+
+export function createNightlyMaintenanceWorkflow(
+  options: MaintenanceWorkflowOptions = {},
+): WorkflowDefinition<MaintenancePayload, MaintenanceReport> {
+  const snapshotAdapter = options.snapshotAdapter ?? ((rootDir: string) => createNativeSnapshotAdapter({ rootPath: rootDir }))
+  const now = options.now ?? (() => new Date())
+
+  return {
+    name: NIGHTLY_MAINTENANCE_WORKFLOW,
+    concurrency: options.concurrency ?? 2,
+    steps: defineWorkflowSteps<MaintenancePayload, MaintenanceReport, MaintenanceReport>({
+      initialState: () => ({}),
+      steps: [
+        {
+          name: "integrity",
+          dependsOn: [],
+          run: async (_, { payload }) => ({ integrity: await checkSessionIntegrity(payload.storageDir, payload.env) }),
+        },
+        {
+          name: "compaction",
+          dependsOn: ["integrity"],
+          run: async (state, { payload }) => {
+            if (state.integrity && !state.integrity.healthy) {
+              throw new Error(
+                `MAINTENANCE_INTEGRITY_FAILED: ${state.integrity.issueCount} session journal issue(s); skipping compaction`,
+              )
+            }
+            return { compaction: await compactSessions(payload.storageDir, payload.env) }
+          },
+        },
+        {
+          name: "snapshot",
+          dependsOn: ["compaction"],
+          run: async (_, { payload }) => ({
+            snapshot: await runSnapshotCycle(
+              snapshotAdapter(getStoragePaths(payload.storageDir, payload.env).rootDir),
+              options.snapshotPolicy ?? DEFAULT_SNAPSHOT_POLICY,
+              now(),
+            ),
+          }),
+        },
+        {
+          name: "connectors",
+          dependsOn: [],
+          run: async (_, { payload, throwIfAborted }) => {
+            const storageDir = getStoragePaths(payload.storageDir, payload.env).rootDir
+            const accounts = await new ChannelRegistry({ storageDir }).listAccounts()
+            const checks: ConnectorCheck[] = []
+            for (const account of accounts) {
+              throwIfAborted()
+              checks.push(await verifyAccount(account.accountId, account.connectorId, account.config, payload.live ?? false))
+            }
+            return { connectors: checks }
+          },
+        },
+      ],
+      result: (state) => state,
+    }),
+    persistPayload: (payload) => ({ storageDir: payload.storageDir, live: payload.live }),
+    resume: (record, { env }) => ({ ...(record.input as Omit<MaintenancePayload, "env">), env }),
+  }
+}
+
+async function verifyAccount(accountId: string, connectorId: string, config: unknown, live: boolean): Promise<ConnectorCheck> {
+  try {
+    const verification = await verifyConnectorConfig(connectorId, config, { live })
+    return { accountId, connectorId, status: verification.status, message: verification.message }
+  } catch (error) {
+    const code = (error as { code?: unknown }).code
+    const message = error instanceof Error ? error.message : String(error)
+    return { accountId, connectorId, status: "failed", message: typeof code === "string" ? `${code}: ${message}` : message }
+  }
+}
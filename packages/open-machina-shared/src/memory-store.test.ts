@@ -0,0 +1,250 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { MemoryStore, formatMemoryExport } from "./memory-store"
+import { MachinaStorageError, getStoragePaths } from "./storage"
+
+test("MemoryStore persists append/update/delete across instances", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-store-"))
+
+  try {
+    const store = new MemoryStore({ storageDir, now: () => new Date("2026-02-11T10:00:00.000Z") })
+    const created = await store.append({
+      id: "m1",
+      userId: "u1",
+      shard: "semantic",
+      content: "Primary project goal is autonomous orchestration",
+      tags: ["goal", "orchestration"],
+      weight: 1,
+    })
+    expect(created.createdAt).toBe("2026-02-11T10:00:00.000Z")
+
+    await store.append({ id: "m2", userId: "u1", shard: "episodic", content: "Asked for concise updates", tags: ["style"], weight: 0.5 })
+    await store.update("m1", { tags: ["goal"], weight: 0.7 })
+    expect(await store.delete("m2")).toBe(true)
+    expect(await store.delete("m2")).toBe(false)
+
+    const reopened = new MemoryStore({ storageDir })
+    const records = await reopened.query()
+    expect(records.map((record) => record.id)).toEqual(["m1"])
+    expect(records[0]?.tags).toEqual(["goal"])
+    expect(records[0]?.weight).toBe(0.7)
+    expect(await reopened.get("m2")).toBeNull()
+
+    const integrity = await reopened.integrity()
+    expect(integrity.healthy).toBe(true)
+    expect(integrity.schemaVersion).toBe(3)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore query filters by user, shard and tags", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-query-"))
+
+  try {
+    const store = new MemoryStore({ storageDir })
+    await store.append({ id: "a", userId: "u1", shard: "procedural", content: "Daily backup", tags: ["backup", "policy"], weight: 1 })
+    await store.append({ id: "b", userId: "u1", shard: "semantic", content: "Backup target is nas", tags: ["backup"], weight: 1 })
+    await store.append({ id: "c", userId: "u2", shard: "procedural", content: "Weekly report", tags: ["policy"], weight: 1 })
+
+    expect((await store.query({ userId: "u1" })).map((record) => record.id)).toEqual(["a", "b"])
+    expect((await store.query({ shard: "procedural" })).map((record) => record.id)).toEqual(["a", "c"])
+    expect((await store.query({ userId: "u1", tags: ["backup", "policy"] })).map((record) => record.id)).toEqual(["a"])
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore compact drops superseded and tombstoned journal entries", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-compact-"))
+
+  try {
+    const store = new MemoryStore({ storageDir })
+    await store.append({ id: "a", userId: "u1", shard: "episodic", content: "first", tags: [], weight: 1 })
+    await store.update("a", { content: "second" })
+    await store.append({ id: "b", userId: "u1", shard: "episodic", content: "gone", tags: [], weight: 1 })
+    await store.delete("b")
+
+    const report = await store.compact()
+    expect(report).toEqual({ before: 4, after: 1, removed: 3 })
+
+    const lines = (await readFile(getStoragePaths(storageDir).memoryFile, "utf8")).trim().split("\n")
+    expect(lines).toHaveLength(1)
+    expect((await store.get("a"))?.content).toBe("second")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore rejects writes until storage is migrated to v3", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-outdated-"))
+
+  try {
+    await writeFile(
+      getStoragePaths(storageDir).schemaStateFile,
+      JSON.stringify({ schemaVersion: 2, status: "ready", targetVersion: null, migrationId: null, backupPath: null }) + "\n",
+      "utf8",
+    )
+
+    const store = new MemoryStore({ storageDir })
+    let code = ""
+    try {
+      await store.append({ userId: "u1", shard: "episodic", content: "note", tags: [], weight: 1 })
+    } catch (error) {
+      code = (error as MachinaStorageError).code
+    }
+
+    expect(code).toBe("MEMORY_SCHEMA_OUTDATED")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore reinforce persists boosted weight with a valid checksum", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-reinforce-"))
+
+  try {
+    const store = new MemoryStore({ storageDir, now: () => new Date("2026-02-11T10:00:00.000Z") })
+    await store.append({ id: "a", userId: "u1", shard: "episodic", content: "note", tags: [], weight: 0.5 })
+
+    const reinforced = await store.reinforce(["a", "a", "missing"])
+    expect(reinforced).toHaveLength(1)
+
+    const stored = await store.get("a")
+    expect(stored?.weight).toBeCloseTo(0.55, 6)
+    expect(stored?.reinforcedAt).toBe("2026-02-11T10:00:00.000Z")
+    expect((await store.integrity()).healthy).toBe(true)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore serializes concurrent appends and reinforcements without losing updates", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-concurrent-"))
+
+  try {
+    const store = new MemoryStore({ storageDir, now: () => new Date("2026-02-11T10:00:00.000Z") })
+    await store.append({ id: "seed", userId: "u1", shard: "episodic", content: "seed note", tags: [], weight: 0.5 })
+
+    await Promise.all([
+      ...Array.from({ length: 6 }, (_, index) =>
+        store.append({ id: `c${index}`, userId: "u1", shard: "episodic", content: `note ${index}`, tags: [], weight: 0.5 }),
+      ),
+      store.reinforce(["seed"]),
+      store.reinforce(["seed"]),
+    ])
+
+    const records = await new MemoryStore({ storageDir }).query()
+    expect(records.map((record) => record.id).sort()).toEqual(["c0", "c1", "c2", "c3", "c4", "c5", "seed"])
+    expect(records.find((record) => record.id === "seed")?.reinforcementCount).toBe(2)
+    expect((await store.integrity()).healthy).toBe(true)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore instances sharing a journal lock it so no update is lost", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-file-lock-"))
+
+  try {
+    const seed = new MemoryStore({ storageDir })
+    await seed.append({ id: "seed", userId: "u1", shard: "episodic", content: "seed note", tags: [], weight: 0.5 })
+
+    await Promise.all([
+      ...Array.from({ length: 6 }, (_, index) =>
+        new MemoryStore({ storageDir }).append({ id: `p${index}`, userId: "u1", shard: "episodic", content: `note ${index}`, tags: [], weight: 0.5 }),
+      ),
+      new MemoryStore({ storageDir }).reinforce(["seed"]),
+      new MemoryStore({ storageDir }).reinforce(["seed"]),
+    ])
+
+    const records = await new MemoryStore({ storageDir }).query()
+    expect(records.map((record) => record.id).sort()).toEqual(["p0", "p1", "p2", "p3", "p4", "p5", "seed"])
+    expect(records.find((record) => record.id === "seed")?.reinforcementCount).toBe(2)
+    expect(await readdir(storageDir)).not.toContain("memory.jsonl.lock")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore scrubs PII before persisting and audits redaction counts", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-redaction-"))
+
+  try {
+    const store = new MemoryStore({ storageDir, now: () => new Date("2026-02-11T10:00:00.000Z") })
+    const saved = await store.append({
+      id: "r1",
+      userId: "u1",
+      shard: "episodic",
+      content: "Email me at jane@example.com, token=abc123secret",
+      tags: ["contact"],
+      weight: 0.5,
+    })
+    expect(saved.content).toBe("Email me at [REDACTED:email], token=[REDACTED:token]")
+
+    const journal = await readFile(getStoragePaths(storageDir).memoryFile, "utf8")
+    expect(journal).not.toContain("jane@example.com")
+    expect(journal).not.toContain("abc123secret")
+
+    const strict = new MemoryStore({ storageDir, redaction: { overrides: { email: "drop" } } })
+    let code = ""
+    try {
+      await strict.update("r1", { content: "New address bob@example.com" })
+    } catch (error) {
+      code = (error as MachinaStorageError).code
+    }
+    expect(code).toBe("MEMORY_RECORD_DROPPED")
+    expect((await strict.get("r1"))?.content).toBe(saved.content)
+
+    const audit = (await readFile(join(storageDir, "audit-log.jsonl"), "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { eventType: string; recordId: string; action: string; counts: Record<string, number> })
+    expect(audit).toEqual([
+      expect.objectContaining({ eventType: "MEMORY_REDACTION", recordId: "r1", action: "mask", counts: { email: 1, token: 1 } }),
+      expect.objectContaining({ eventType: "MEMORY_REDACTION", recordId: "r1", action: "drop", counts: { email: 1 } }),
+    ])
+
+    const raw = new MemoryStore({ storageDir, redaction: false })
+    expect((await raw.append({ userId: "u1", shard: "episodic", content: "ops@example.org", tags: [], weight: 0.1 })).content).toBe("ops@example.org")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("MemoryStore exports one user's records and erases them with compaction", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-memory-export-"))
+
+  try {
+    const store = new MemoryStore({ storageDir, now: () => new Date("2026-02-11T10:00:00.000Z") })
+    await store.append({ id: "a1", userId: "alice", shard: "semantic", content: "Alice works on the CLI", tags: ["cli"], weight: 1 })
+    await store.append({ id: "a2", userId: "alice", shard: "episodic", content: "Alice asked for a release", tags: [], weight: 0.5 })
+    await store.append({ id: "b1", userId: "bob", shard: "semantic", content: "Bob owns backups", tags: ["backup"], weight: 1 })
+    await store.update("a2", { weight: 0.6 })
+
+    const bundle = await store.exportUser("alice")
+    expect(bundle.header).toEqual({
+      type: "header",
+      format: "open-machina-memory-export",
+      version: 1,
+      userId: "alice",
+      exportedAt: "2026-02-11T10:00:00.000Z",
+      count: 2,
+    })
+    const lines = formatMemoryExport(bundle).trim().split("\n").map((line) => JSON.parse(line) as { type: string; record?: { id: string } })
+    expect(lines.map((line) => line.record?.id ?? line.type)).toEqual(["header", "a1", "a2"])
+
+    const report = await store.eraseUser("alice")
+    expect(report.erased).toEqual(["a1", "a2"])
+    expect(report.compaction.after).toBe(1)
+
+    const journal = await readFile(getStoragePaths(storageDir).memoryFile, "utf8")
+    expect(journal).not.toContain("alice")
+    expect((await store.query()).map((record) => record.id)).toEqual(["b1"])
+    expect((await store.exportUser("alice")).records).toEqual([])
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,369 @@
+import { randomUUID } from "node:crypto"
+import { appendFile } from "node:fs/promises"
+import { withFileLock } from "./file-lock"
+import { reinforceRecord, type MemoryRecord } from "./memory"
+import { scrubMemoryRecord, type RedactionCounts, type RedactionMode, type RedactionPolicy } from "./redaction"
+import {
+  MachinaStorageError,
+  ensureStorageInitialized,
+  readJournalRecords,
+  readSchemaState,
+  verifyJournalRecords,
+  writeJournalRecords,
+  type CompactionReport,
+  type IntegrityReport,
+  type SessionRecord,
+} from "./storage"
+
+export type MemoryShard = MemoryRecord["shard"]
+
+export type MemoryRecordInput = Omit<MemoryRecord, "id" | "createdAt"> & {
+  id?: string
+  createdAt?: string
+}
+
+export type MemoryRecordPatch = Partial<Pick<MemoryRecord, "shard" | "content" | "tags" | "weight" | "archivedAt">>
+
+export type MemoryQuery = {
+  userId?: string
+  shard?: MemoryShard
+  tags?: string[]
+  includeArchived?: boolean
+}
+
+export type MemoryStoreOptions = {
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  now?: () => Date
+  redaction?: RedactionPolicy | false
+}
+
+export type MemoryRedactionAuditRecord = {
+  eventType: "MEMORY_REDACTION"
+  timestamp: string
+  recordId: string
+  userId: string
+  action: RedactionMode
+  counts: RedactionCounts
+}
+
+export type MemoryExportHeader = {
+  type: "header"
+  format: "open-machina-memory-export"
+  version: 1
+  userId: string
+  exportedAt: string
+  count: number
+}
+
+export type MemoryExportBundle = {
+  header: MemoryExportHeader
+  records: MemoryRecord[]
+}
+
+export type MemoryEraseReport = {
+  userId: string
+  erased: string[]
+  compaction: CompactionReport
+}
+
+export const MEMORY_SHARDS: MemoryShard[] = ["episodic", "semantic", "procedural"]
+
+export class MemoryStore {
+  private readonly storageDir?: string
+  private readonly env: NodeJS.ProcessEnv
+  private readonly now: () => Date
+  private readonly redaction: RedactionPolicy | false
+  private lock: Promise<unknown> = Promise.resolve()
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.storageDir = options.storageDir
+    this.env = options.env ?? process.env
+    this.now = options.now ?? (() => new Date())
+    this.redaction = options.redaction ?? {}
+  }
+
+  append(input: MemoryRecordInput): Promise<MemoryRecord> {
+    return this.mutate(async () => {
+      const journal = await this.readJournal()
+      const id = input.id?.trim() || createMemoryRecordId()
+      if (latestById(journal).has(id)) {
+        throw new MachinaStorageError("MEMORY_RECORD_EXISTS", `Memory record already exists: ${id}`)
+      }
+
+      const record = await this.scrub(
+        validateMemoryRecord({
+          id,
+          userId: input.userId,
+          shard: input.shard,
+          content: input.content,
+          tags: input.tags,
+          createdAt: input.createdAt ?? this.now().toISOString(),
+          weight: input.weight,
+          sourceIds: input.sourceIds,
+        }),
+      )
+      await this.writeJournal([...journal, this.toEntry(record, false)])
+      return record
+    })
+  }
+
+  update(id: string, patch: MemoryRecordPatch): Promise<MemoryRecord> {
+    return this.mutate(async () => {
+      const journal = await this.readJournal()
+      const current = latestById(journal).get(id)
+      if (!current || current.deleted) {
+        throw new MachinaStorageError("MEMORY_RECORD_NOT_FOUND", `Memory record not found: ${id}`)
+      }
+
+      const record = await this.scrub(validateMemoryRecord({ ...(current.payload as MemoryRecord), ...patch, id }))
+      await this.writeJournal([...journal, this.toEntry(record, false)])
+      return record
+    })
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.mutate(async () => {
+      const journal = await this.readJournal()
+      const current = latestById(journal).get(id)
+      if (!current || current.deleted) {
+        return false
+      }
+
+      await this.writeJournal([...journal, this.toEntry(current.payload as MemoryRecord, true)])
+      return true
+    })
+  }
+
+  reinforce(ids: string[], boost?: number): Promise<MemoryRecord[]> {
+    return this.mutate(async () => {
+      const journal = await this.readJournal()
+      const latest = latestById(journal)
+      const now = this.now()
+      const reinforced = [...new Set(ids)]
+        .map((id) => latest.get(id))
+        .filter((entry): entry is SessionRecord => Boolean(entry && !entry.deleted))
+        .map((entry) => reinforceRecord(entry.payload as MemoryRecord, now, boost))
+
+      if (reinforced.length > 0) {
+        await this.writeJournal([...journal, ...reinforced.map((record) => this.toEntry(record, false))])
+      }
+      return reinforced
+    })
+  }
+
+  async get(id: string): Promise<MemoryRecord | null> {
+    const current = latestById(await this.readJournal()).get(id)
+    if (!current || current.deleted) {
+      return null
+    }
+    return current.payload as MemoryRecord
+  }
+
+  async query(query: MemoryQuery = {}): Promise<MemoryRecord[]> {
+    const tags = (query.tags ?? []).map((tag) => tag.trim()).filter((tag) => tag.length > 0)
+
+    return [...latestById(await this.readJournal()).values()]
+      .filter((entry) => !entry.deleted)
+      .map((entry) => entry.payload as MemoryRecord)
+      .filter((record) => query.includeArchived || record.archivedAt === undefined)
+      .filter((record) => query.userId === undefined || record.userId === query.userId)
+      .filter((record) => query.shard === undefined || record.shard === query.shard)
+      .filter((record) => tags.every((tag) => record.tags.includes(tag)))
+      .sort((left, right) => left.createdAt.localeCompare(right.createdAt) || left.id.localeCompare(right.id))
+  }
+
+  async exportUser(userId: string): Promise<MemoryExportBundle> {
+    const user = requireUserId(userId)
+    const records = await this.query({ userId: user, includeArchived: true })
+    return {
+      header: {
+        type: "header",
+        format: "open-machina-memory-export",
+        version: 1,
+        userId: user,
+        exportedAt: this.now().toISOString(),
+        count: records.length,
+      },
+      records,
+    }
+  }
+
+  eraseUser(userId: string): Promise<MemoryEraseReport> {
+    return this.mutate(async () => {
+      const user = requireUserId(userId)
+      const journal = await this.readJournal()
+      const targets = [...latestById(journal).values()].filter(
+        (entry) => !entry.deleted && (entry.payload as MemoryRecord).userId === user,
+      )
+
+      if (targets.length > 0) {
+        await this.writeJournal([...journal, ...targets.map((entry) => this.toEntry(entry.payload as MemoryRecord, true))])
+      }
+
+      return {
+        userId: user,
+        erased: targets.map((entry) => entry.id).sort(),
+        compaction: await this.compactJournal(),
+      }
+    })
+  }
+
+  compact(): Promise<CompactionReport> {
+    return this.mutate(() => this.compactJournal())
+  }
+
+  async integrity(): Promise<IntegrityReport> {
+    const paths = await ensureStorageInitialized(this.storageDir, this.env)
+    const state = await readSchemaState(paths)
+    const issues = verifyJournalRecords(await readJournalRecords(paths.memoryFile, "memory"), state.schemaVersion, "memory")
+
+    return {
+      healthy: issues.length === 0,
+      schemaVersion: state.schemaVersion,
+      issueCount: issues.length,
+      issues,
+    }
+  }
+
+  private async scrub(record: MemoryRecord): Promise<MemoryRecord> {
+    if (this.redaction === false) {
+      return record
+    }
+
+    const scrubbed = scrubMemoryRecord(record, this.redaction)
+    if (Object.keys(scrubbed.counts).length === 0) {
+      return record
+    }
+
+    await this.appendRedactionAudit({
+      eventType: "MEMORY_REDACTION",
+      timestamp: this.now().toISOString(),
+      recordId: record.id,
+      userId: record.userId,
+      action: scrubbed.dropped ? "drop" : "mask",
+      counts: scrubbed.counts,
+    })
+    if (scrubbed.dropped) {
+      throw new MachinaStorageError(
+        "MEMORY_RECORD_DROPPED",
+        `Memory record ${record.id} dropped by redaction policy (${Object.keys(scrubbed.counts).sort().join(", ")})`,
+      )
+    }
+    return validateMemoryRecord(scrubbed.record)
+  }
+
+  private async appendRedactionAudit(entry: MemoryRedactionAuditRecord): Promise<void> {
+    const paths = await ensureStorageInitialized(this.storageDir, this.env)
+    await appendFile(paths.auditLogFile, `${JSON.stringify(entry)}\n`, "utf8")
+  }
+
+  private async compactJournal(): Promise<CompactionReport> {
+    const journal = await this.readJournal()
+    const compacted = [...latestById(journal).values()].filter((entry) => !entry.deleted)
+    await this.writeJournal(compacted)
+
+    return {
+      before: journal.length,
+      after: compacted.length,
+      removed: journal.length - compacted.length,
+    }
+  }
+
+  private mutate<T>(update: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(async () => {
+      const paths = await ensureStorageInitialized(this.storageDir, this.env)
+      const lock = { code: "MEMORY_LOCKED", message: "Memory journal is locked by another process" }
+      return withFileLock(`${paths.memoryFile}.lock`, lock, update)
+    })
+    this.lock = run.catch(() => undefined)
+    return run
+  }
+
+  private async readJournal(): Promise<SessionRecord[]> {
+    const paths = await ensureStorageInitialized(this.storageDir, this.env)
+    return readJournalRecords(paths.memoryFile, "memory")
+  }
+
+  private async writeJournal(entries: SessionRecord[]): Promise<void> {
+    const paths = await ensureStorageInitialized(this.storageDir, this.env)
+    const state = await readSchemaState(paths)
+    if (state.status !== "ready" || state.schemaVersion < 3) {
+      throw new MachinaStorageError(
+        "MEMORY_SCHEMA_OUTDATED",
+        `Memory store requires schema v3+ (current: v${state.schemaVersion}, status: ${state.status}); run storage migrate`,
+      )
+    }
+    await writeJournalRecords(paths.memoryFile, entries, state.schemaVersion)
+  }
+
+  private toEntry(record: MemoryRecord, deleted: boolean): SessionRecord {
+    return {
+      id: record.id,
+      updatedAt: this.now().toISOString(),
+      payload: record,
+      deleted: deleted || undefined,
+    }
+  }
+}
+
+export function formatMemoryExport(bundle: MemoryExportBundle): string {
+  return [bundle.header, ...bundle.records.map((record) => ({ type: "record", record }))]
+    .map((line) => JSON.stringify(line))
+    .join("\n")
+    .concat("\n")
+}
+
+export function createMemoryRecordId(): string {
+  return `mem-${randomUUID()}`
+}
+
+function latestById(journal: SessionRecord[]): Map<string, SessionRecord> {
+  const latest = new Map<string, SessionRecord>()
+  for (const entry of journal) {
+    latest.set(entry.id, entry)
+  }
+  return latest
+}
+
+function requireUserId(userId: string): string {
+  if (typeof userId !== "string" || userId.trim().length === 0) {
+    throw new MachinaStorageError("MEMORY_USER_REQUIRED", "Memory user id must not be empty")
+  }
+  return userId.trim()
+}
+
+function validateMemoryRecord(record: MemoryRecord): MemoryRecord {
+  if (typeof record.userId !== "string" || record.userId.trim().length === 0) {
+    throw new MachinaStorageError("MEMORY_RECORD_INVALID", "Memory record userId must not be empty")
+  }
+  if (!MEMORY_SHARDS.includes(record.shard)) {
+    throw new MachinaStorageError("MEMORY_RECORD_INVALID", `Unsupported memory shard: ${String(record.shard)}`)
+  }
+  if (typeof record.content !== "string" || record.content.trim().length === 0) {
+    throw new MachinaStorageError("MEMORY_RECORD_INVALID", "Memory record content must not be empty")
+  }
+  if (!Array.isArray(record.tags) || record.tags.some((tag) => typeof tag !== "string")) {
+    throw new MachinaStorageError("MEMORY_RECORD_INVALID", "Memory record tags must be a string array")
+  }
+  if (record.sourceIds !== undefined && (!Array.isArray(record.sourceIds) || record.sourceIds.some((id) => typeof id !== "string"))) {
+    throw new MachinaStorageError("MEMORY_RECORD_INVALID", "Memory record sourceIds must be a string array")
+  }
+  if (typeof record.weight !== "number" || !Number.isFinite(record.weight)) {
+    throw new MachinaStorageError("MEMORY_RECORD_INVALID", "Memory record weight must be a finite number")
+  }
+
+  return {
+    id: record.id,
+    userId: record.userId.trim(),
+    shard: record.shard,
+    content: record.content,
+    tags: [...new Set(record.tags.map((tag) => tag.trim()).filter((tag) => tag.length > 0))],
+    createdAt: record.createdAt,
+    weight: record.weight,
+    ...(record.reinforcedAt ? { reinforcedAt: record.reinforcedAt } : {}),
+    ...(record.reinforcementCount ? { reinforcementCount: record.reinforcementCount } : {}),
+    ...(record.sourceIds && record.sourceIds.length > 0 ? { sourceIds: [...new Set(record.sourceIds)] } : {}),
+    ...(record.archivedAt ? { archivedAt: record.archivedAt } : {}),
+  }
+}
@@ -1,5 +1,19 @@
 import { expect, test } from "bun:test"
-import { compressRecords, createMemoryShards, selectContext, type MemoryRecord } from "./memory"
+import {
+  analyzeText,
+  approximateTokenCount,
+  buildMemoryIndex,
+  DEFAULT_DECAY_POLICY,
+  compressRecords,
+  createMemoryShards,
+  effectiveWeight,
+  isolateUserRecords,
+  reinforceRecord,
+  scoreMemoryIndex,
+  selectContext,
+  stemToken,
+  type MemoryRecord,
+} from "./memory"
 
 const data: MemoryRecord[] = [
   {
@@ -44,7 +58,153 @@ test("selectContext ranks relevant records", () => {
 })
 
 test("compressRecords returns bounded summary text", () => {
-  const output = compressRecords(data, 120)
-  expect(output.length).toBeLessThanOrEqual(120)
-  expect(output.length).toBeGreaterThan(0)
+  const output = compressRecords(data, { maxTokens: 30 })
+  expect(output.tokens).toBeLessThanOrEqual(30)
+  expect(output.text.length).toBeGreaterThan(0)
+  expect([...output.included, ...output.excluded].sort()).toEqual(data.map((record) => record.id).sort())
+})
+
+const corpus: MemoryRecord[] = [
+  ["c1", "episodic", "Deployment to staging failed because the migration timed out", ["deploy", "incident"]],
+  ["c2", "semantic", "The project uses Bun for builds, tests and the CLI runtime", ["tooling"]],
+  ["c3", "procedural", "Before deploying, run the storage migration and check integrity", ["deploy", "storage"]],
+  ["c4", "episodic", "User mentioned the project goal a long time ago during onboarding", ["onboarding"]],
+  ["c5", "semantic", "The project goal is a dependable autonomous orchestration agent", ["goal"]],
+  ["c6", "episodic", "The user said the project is important and the project is urgent", ["project"]],
+  ["c7", "procedural", "Rotate judge credentials through opencode auth login every quarter", ["security", "judge"]],
+  ["c8", "semantic", "Snapshots are retained for five days with one snapshot per day", ["backup", "policy"]],
+].map(([id, shard, content, tags]) => ({
+  id: id as string,
+  userId: "u1",
+  shard: shard as MemoryRecord["shard"],
+  content: content as string,
+  tags: tags as string[],
+  createdAt: "2026-02-10T10:00:00.000Z",
+  weight: 0.5,
+}))
+
+test("analyzeText drops stopwords and stems inflections", () => {
+  expect(analyzeText("The deployments were running")).toEqual(["deploy", "run"])
+  expect(stemToken("orchestrated")).toBe(stemToken("orchestration"))
+  expect(stemToken("policies")).toBe("policy")
+})
+
+test("buildMemoryIndex builds postings over content and tags", () => {
+  const index = buildMemoryIndex(corpus)
+  expect(index.postings.get("deploy")?.sort()).toEqual([0, 2])
+  expect(index.postings.get("snapshot")).toEqual([7])
+  expect(index.averageLength).toBeGreaterThan(0)
+})
+
+test("selectContext ranks fixture corpus by BM25 relevance", () => {
+  const cases: Array<{ query: string; expected: string }> = [
+    { query: "what checks run before deploying", expected: "c3" },
+    { query: "what is the project goal", expected: "c5" },
+    { query: "snapshot retention days", expected: "c8" },
+    { query: "rotate judge credentials", expected: "c7" },
+    { query: "staging deployment failure", expected: "c1" },
+  ]
+
+  for (const entry of cases) {
+    expect(selectContext(corpus, { query: entry.query, limit: 3 })[0]?.id).toBe(entry.expected)
+  }
+})
+
+test("selectContext ignores tokens embedded inside unrelated words and returns no unscored records", () => {
+  const selected = selectContext(corpus, { query: "go", limit: 1 })
+  const scores = scoreMemoryIndex(buildMemoryIndex(corpus), "go")
+  expect(scores.every((value) => value === 0)).toBe(true)
+  expect(selected).toEqual([])
+  expect(selectContext(corpus, { query: "postgres", limit: 5 })).toEqual([])
+})
+
+test("selectContext weighs rare terms above frequent ones", () => {
+  const scores = scoreMemoryIndex(buildMemoryIndex(corpus), "project onboarding")
+  const ranked = selectContext(corpus, { query: "project onboarding", limit: 2 })
+  expect(ranked[0]?.id).toBe("c4")
+  expect(scores[3]!).toBeGreaterThan(scores[5]!)
+})
+
+test("effectiveWeight halves episodic weight per half-life and never decays procedural", () => {
+  const halfLife = DEFAULT_DECAY_POLICY.episodic.halfLifeMs ?? 0
+  const createdAt = "2026-02-01T00:00:00.000Z"
+  const now = new Date(Date.parse(createdAt) + halfLife)
+  const episodic: MemoryRecord = { ...data[0]!, createdAt, weight: 0.8 }
+  const procedural: MemoryRecord = { ...data[2]!, createdAt, weight: 0.9 }
+
+  expect(effectiveWeight(episodic, now)).toBeCloseTo(0.4, 6)
+  expect(effectiveWeight(episodic, new Date(Date.parse(createdAt) + halfLife * 20))).toBe(DEFAULT_DECAY_POLICY.episodic.floor)
+  expect(effectiveWeight(procedural, new Date("2030-01-01T00:00:00.000Z"))).toBe(0.9)
+})
+
+test("reinforceRecord boosts weight and restarts decay from reinforcement time", () => {
+  const now = new Date("2026-03-01T00:00:00.000Z")
+  const stale: MemoryRecord = { ...data[0]!, createdAt: "2026-01-01T00:00:00.000Z", weight: 0.5 }
+  const reinforced = reinforceRecord(stale, now)
+
+  expect(reinforced.weight).toBeCloseTo(0.55, 6)
+  expect(reinforced.reinforcedAt).toBe(now.toISOString())
+  expect(reinforced.reinforcementCount).toBe(1)
+  expect(effectiveWeight(reinforced, now)).toBeCloseTo(0.55, 6)
+  expect(effectiveWeight(stale, now)).toBeLessThan(0.1)
+})
+
+test("compressRecords prefers fresh episodic notes over decayed ones at a given now", () => {
+  const now = new Date("2026-06-01T00:00:00.000Z")
+  const old: MemoryRecord = { ...data[0]!, id: "old", content: "old note", createdAt: "2026-01-01T00:00:00.000Z", weight: 1 }
+  const fresh: MemoryRecord = { ...data[0]!, id: "fresh", content: "fresh note", createdAt: "2026-05-31T00:00:00.000Z", weight: 0.6 }
+
+  expect(compressRecords([old, fresh], { maxTokens: 200 }).included[0]).toBe("old")
+  expect(compressRecords([old, fresh], { maxTokens: 200 }, { now }).included[0]).toBe("fresh")
+})
+
+test("approximateTokenCount splits words and punctuation into token-sized pieces", () => {
+  expect(approximateTokenCount("")).toBe(0)
+  expect(approximateTokenCount("run tests")).toBe(3)
+  expect(approximateTokenCount("orchestration, please!")).toBe(8)
+})
+
+test("compressRecords honours an injected tokenizer and reports dropped records", () => {
+  const words = (text: string) => text.split(/\s+/).length
+  const output = compressRecords(corpus, { maxTokens: 20, tokenizer: words })
+
+  expect(output.tokens).toBeLessThanOrEqual(20)
+  expect(output.text.split("\n")).toHaveLength(output.included.length)
+  expect(output.excluded.length).toBeGreaterThan(0)
+  expect(output.included.some((id) => output.excluded.includes(id))).toBe(false)
+})
+
+test("compressRecords reserves per-shard quotas before filling by weight", () => {
+  const weighted = corpus.map((record) => ({ ...record, weight: record.shard === "procedural" ? 0.1 : 0.9 }))
+  const words = (text: string) => text.split(/\s+/).length
+
+  const unreserved = compressRecords(weighted, { maxTokens: 30, tokenizer: words })
+  expect(unreserved.included).not.toContain("c3")
+  expect(unreserved.included).not.toContain("c7")
+
+  const reserved = compressRecords(weighted, { maxTokens: 30, tokenizer: words, quotas: { procedural: 0.3 } })
+  const procedural = weighted.filter((record) => record.shard === "procedural" && reserved.included.includes(record.id))
+  const proceduralTokens = procedural.reduce((total, record) => total + words(`${record.shard}:${record.tags.join(",")}:${record.content}`), 0)
+  expect(proceduralTokens).toBeGreaterThanOrEqual(9)
+  expect(reserved.tokens).toBeLessThanOrEqual(30)
+})
+
+test("selectContext refuses to mix users unless scoped or explicitly allowed", () => {
+  const mixed: MemoryRecord[] = [
+    { ...corpus[2]!, id: "a1", userId: "alice" },
+    { ...corpus[2]!, id: "b1", userId: "bob", content: "Before deploying, bob runs the storage migration twice" },
+  ]
+
+  expect(() => selectContext(mixed, { query: "storage migration", limit: 2 })).toThrow("MEMORY_CROSS_USER_CONTEXT")
+  expect(selectContext(mixed, { query: "storage migration", limit: 2, userId: "bob" }).map((record) => record.id)).toEqual(["b1"])
+  expect(selectContext(mixed, { query: "storage migration", limit: 2, allowCrossUser: true })).toHaveLength(2)
+  expect(isolateUserRecords(mixed, { userId: "carol" })).toEqual([])
+
+  const semantic = selectContext(mixed, {
+    query: "unrelated",
+    limit: 1,
+    userId: "bob",
+    semantic: { similarities: [0.9, 0.1], weight: 1 },
+  })
+  expect(semantic.map((record) => record.id)).toEqual(["b1"])
 })
@@ -20,6 +20,22 @@ export type MemoryRecord = {
   tags: string[]
   createdAt: string
   weight: number
+  reinforcedAt?: string
+  reinforcementCount?: number
+  sourceIds?: string[]
+  archivedAt?: string
+}
+
+export type MemoryShardDecay = {
+  halfLifeMs: number | null
+  floor: number
+}
+
+export type MemoryDecayPolicy = Record<MemoryRecord["shard"], MemoryShardDecay>
+
+export type MemoryWeighting = {
+  now: Date
+  decay?: MemoryDecayPolicy
 }
 
 export type MemoryShardSet = {
@@ -36,45 +52,387 @@ export function createMemoryShards(records: MemoryRecord[]): MemoryShardSet {
   }
 }
 
-export function selectContext(records: MemoryRecord[], input: { query: string; limit: number }): MemoryRecord[] {
-  const q = tokenize(input.query)
-  const scored = records
-    .map((item) => ({
-      item,
-      score: score(item, q),
+export type Bm25Options = {
+  k1: number
+  b: number
+  tagBoost: number
+}
+
+export type MemoryIndexDocument = {
+  record: MemoryRecord
+  length: number
+  termFrequencies: Map<string, number>
+}
+
+export type MemoryIndex = {
+  documents: MemoryIndexDocument[]
+  postings: Map<string, number[]>
+  averageLength: number
+  options: Bm25Options
+}
+
+export type MemoryUserScope = {
+  userId?: string
+  allowCrossUser?: boolean
+}
+
+export type SelectContextInput = MemoryUserScope & {
+  query: string
+  limit: number
+  weighting?: MemoryWeighting
+  semantic?: {
+    similarities: number[]
+    weight: number
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type Tokenizer = (text: string) => number
+
+export type ContextBudget = {
+  maxTokens: number
+  tokenizer?: Tokenizer
+  quotas?: Partial<Record<MemoryRecord["shard"], number>>
+}
+
+export type CompressedContext = {
+  text: string
+  tokens: number
+  included: string[]
+  excluded: string[]
+}
+
+export const DEFAULT_DECAY_POLICY: MemoryDecayPolicy = {
+  episodic: { halfLifeMs: 14 * DAY_MS, floor: 0.05 },
+  semantic: { halfLifeMs: 180 * DAY_MS, floor: 0.2 },
+  procedural: { halfLifeMs: null, floor: 0 },
+}
+
+export const DEFAULT_REINFORCEMENT_BOOST = 0.1
+
+export const DEFAULT_BM25_OPTIONS: Bm25Options = {
+  k1: 1.2,
+  b: 0.75,
+  tagBoost: 2,
+}
+
+export function selectContext(records: MemoryRecord[], input: SelectContextInput): MemoryRecord[] {
+  const positions = scopePositions(records, input)
+  const index = buildMemoryIndex(positions.map((position) => records[position]!))
+  const lexical = scoreMemoryIndex(index, input.query)
+  const scores = input.semantic
+    ? blendScores(
+        lexical,
+        positions.map((position) => input.semantic?.similarities[position] ?? 0),
+        input.semantic.weight,
+      )
+    : lexical
+  const scored = index.documents
+    .map((document, position) => ({
+      item: document.record,
+      score: scores[position] ?? 0,
+      weight: resolveWeight(document.record, input.weighting),
     }))
-    .sort((a, b) => b.score - a.score)
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || b.weight - a.weight)
 
   return scored.slice(0, Math.max(1, input.limit)).map((entry) => entry.item)
 }
 
-export function compressRecords(records: MemoryRecord[], maxChars: number): string {
-  const lines = records
-    .sort((a, b) => b.weight - a.weight)
-    .map((item) => `${item.shard}:${item.tags.join(",")}:${item.content}`)
+export function isolateUserRecords(records: MemoryRecord[], scope: MemoryUserScope = {}): MemoryRecord[] {
+  return scopePositions(records, scope).map((position) => records[position]!)
+}
 
-  const out: string[] = []
-  let used = 0
-  for (const line of lines) {
-    const next = used + line.length + 1
-    if (next > maxChars) {
-      break
+export function buildMemoryIndex(records: MemoryRecord[], options: Partial<Bm25Options> = {}): MemoryIndex {
+  const resolved: Bm25Options = { ...DEFAULT_BM25_OPTIONS, ...options }
+  const postings = new Map<string, number[]>()
+  const documents = records.map((record, position) => {
+    const termFrequencies = new Map<string, number>()
+    let length = 0
+
+    for (const term of analyzeText(record.content)) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1)
+      length += 1
+    }
+    for (const term of analyzeText(record.tags.join(" "))) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + resolved.tagBoost)
+      length += resolved.tagBoost
     }
-    out.push(line)
-    used = next
+
+    for (const term of termFrequencies.keys()) {
+      const list = postings.get(term) ?? []
+      list.push(position)
+      postings.set(term, list)
+    }
+
+    return { record, length, termFrequencies }
+  })
+
+  const totalLength = documents.reduce((acc, document) => acc + document.length, 0)
+  return {
+    documents,
+    postings,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    options: resolved,
   }
-  return out.join("\n")
 }
 
-function score(item: MemoryRecord, tokens: string[]): number {
-  const body = `${item.content} ${item.tags.join(" ")}`.toLowerCase()
-  const overlap = tokens.reduce((acc, token) => (body.includes(token) ? acc + 1 : acc), 0)
-  return overlap * 10 + item.weight
+export function scoreMemoryIndex(index: MemoryIndex, query: string): number[] {
+  const scores = index.documents.map(() => 0)
+  const count = index.documents.length
+  const { k1, b } = index.options
+
+  for (const term of new Set(analyzeText(query))) {
+    const matches = index.postings.get(term)
+    if (!matches) {
+      continue
+    }
+
+    const idf = Math.log(1 + (count - matches.length + 0.5) / (matches.length + 0.5))
+    for (const position of matches) {
+      const document = index.documents[position]!
+      const frequency = document.termFrequencies.get(term) ?? 0
+      const norm = index.averageLength > 0 ? document.length / index.averageLength : 0
+      scores[position]! += idf * ((frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * norm)))
+    }
+  }
+
+  return scores
 }
 
-function tokenize(input: string): string[] {
+export function analyzeText(input: string): string[] {
   return input
     .toLowerCase()
     .split(/[^a-z0-9]+/)
-    .filter((item) => item.length > 1)
+    .filter((item) => item.length > 1 && !STOPWORDS.has(item))
+    .map((item) => stemToken(item))
 }
+
+export function stemToken(token: string): string {
+  if (token.length <= 3 || /^[0-9]+$/.test(token)) {
+    return token
+  }
+
+  let stem = token
+  if (stem.endsWith("sses")) {
+    stem = stem.slice(0, -2)
+  } else if (stem.endsWith("ies")) {
+    stem = `${stem.slice(0, -3)}y`
+  } else if (stem.endsWith("s") && !stem.endsWith("ss") && !stem.endsWith("us") && !stem.endsWith("is")) {
+    stem = stem.slice(0, -1)
+  }
+
+  for (const suffix of ["ing", "ed"]) {
+    const base = stem.slice(0, -suffix.length)
+    if (stem.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      stem = restoreStem(base)
+      break
+    }
+  }
+
+  for (const [suffix, replacement] of DERIVATIONAL_SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = `${stem.slice(0, -suffix.length)}${replacement}`
+      break
+    }
+  }
+
+  return stem
+}
+
+export function effectiveWeight(record: MemoryRecord, now: Date, policy: MemoryDecayPolicy = DEFAULT_DECAY_POLICY): number {
+  const decay = policy[record.shard]
+  if (!decay || decay.halfLifeMs === null || decay.halfLifeMs <= 0) {
+    return record.weight
+  }
+
+  const anchor = Date.parse(record.reinforcedAt ?? record.createdAt)
+  if (Number.isNaN(anchor)) {
+    return record.weight
+  }
+
+  const ageMs = Math.max(0, now.getTime() - anchor)
+  const decayed = record.weight * Math.pow(0.5, ageMs / decay.halfLifeMs)
+  return Math.max(Math.min(record.weight, decay.floor), decayed)
+}
+
+export function reinforceRecord(record: MemoryRecord, now: Date, boost = DEFAULT_REINFORCEMENT_BOOST): MemoryRecord {
+  return {
+    ...record,
+    weight: Math.min(1, record.weight + boost * (1 - record.weight)),
+    reinforcedAt: now.toISOString(),
+    reinforcementCount: (record.reinforcementCount ?? 0) + 1,
+  }
+}
+
+export function approximateTokenCount(text: string): number {
+  const pieces = text.match(/[A-Za-z0-9]+|[^\sA-Za-z0-9]/g) ?? []
+  return pieces.reduce((total, piece) => total + Math.ceil(piece.length / 4), 0)
+}
+
+export function compressRecords(records: MemoryRecord[], budget: ContextBudget, weighting?: MemoryWeighting): CompressedContext {
+  const tokenizer = budget.tokenizer ?? approximateTokenCount
+  const maxTokens = Math.max(0, Math.floor(budget.maxTokens))
+  const entries = records
+    .map((item) => ({ item, weight: resolveWeight(item, weighting) }))
+    .sort((a, b) => b.weight - a.weight)
+    .map(({ item }) => {
+      const line = `${item.shard}:${item.tags.join(",")}:${item.content}`
+      return { item, line, cost: tokenizer(line) }
+    })
+
+  const selected = new Set<string>()
+  let used = 0
+  const take = (entry: (typeof entries)[number]) => {
+    selected.add(entry.item.id)
+    used += entry.cost
+  }
+
+  for (const [shard, share] of Object.entries(budget.quotas ?? {})) {
+    const reserved = Math.floor(Math.max(0, Math.min(1, share ?? 0)) * maxTokens)
+    let shardUsed = 0
+    for (const entry of entries) {
+      if (entry.item.shard !== shard || selected.has(entry.item.id)) {
+        continue
+      }
+      if (shardUsed + entry.cost > reserved || used + entry.cost > maxTokens) {
+        continue
+      }
+      take(entry)
+      shardUsed += entry.cost
+    }
+  }
+
+  for (const entry of entries) {
+    if (!selected.has(entry.item.id) && used + entry.cost <= maxTokens) {
+      take(entry)
+    }
+  }
+
+  const included = entries.filter((entry) => selected.has(entry.item.id))
+  return {
+    text: included.map((entry) => entry.line).join("\n"),
+    tokens: used,
+    included: included.map((entry) => entry.item.id),
+    excluded: entries.filter((entry) => !selected.has(entry.item.id)).map((entry) => entry.item.id),
+  }
+}
+
+function scopePositions(records: MemoryRecord[], scope: MemoryUserScope): number[] {
+  const positions = records.map((_, position) => position)
+  if (scope.userId !== undefined) {
+    return positions.filter((position) => records[position]!.userId === scope.userId)
+  }
+
+  const users = new Set(records.map((record) => record.userId))
+  if (users.size > 1 && !scope.allowCrossUser) {
+    throw new Error(`MEMORY_CROSS_USER_CONTEXT: records span ${users.size} users; pass userId or allowCrossUser`)
+  }
+  return positions
+}
+
+function resolveWeight(record: MemoryRecord, weighting?: MemoryWeighting): number {
+  return weighting ? effectiveWeight(record, weighting.now, weighting.decay) : record.weight
+}
+
+function blendScores(lexical: number[], similarities: number[], weight: number): number[] {
+  const semanticWeight = Math.max(0, Math.min(1, weight))
+  const maxLexical = Math.max(0, ...lexical)
+
+  return lexical.map((value, position) => {
+    const normalized = maxLexical > 0 ? value / maxLexical : 0
+    const similarity = Math.max(0, similarities[position] ?? 0)
+    return (1 - semanticWeight) * normalized + semanticWeight * similarity
+  })
+}
+
+function restoreStem(base: string): string {
+  if (base.endsWith("at") || base.endsWith("bl") || base.endsWith("iz")) {
+    return `${base}e`
+  }
+  const last = base.charAt(base.length - 1)
+  if (last === base.charAt(base.length - 2) && !"lsz".includes(last) && !/[aeiou]/.test(last)) {
+    return base.slice(0, -1)
+  }
+  return base
+}
+
+const DERIVATIONAL_SUFFIXES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["iveness", "ive"],
+  ["ness", ""],
+  ["ment", ""],
+  ["ly", ""],
+]
+
+const STOPWORDS = new Set([
+  "a",
+  "about",
+  "after",
+  "all",
+  "an",
+  "and",
+  "any",
+  "are",
+  "as",
+  "at",
+  "be",
+  "been",
+  "but",
+  "by",
+  "can",
+  "do",
+  "does",
+  "for",
+  "from",
+  "had",
+  "has",
+  "have",
+  "he",
+  "her",
+  "his",
+  "how",
+  "i",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "me",
+  "my",
+  "no",
+  "not",
+  "of",
+  "on",
+  "or",
+  "our",
+  "she",
+  "so",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "to",
+  "was",
+  "we",
+  "were",
+  "what",
+  "when",
+  "which",
+  "who",
+  "will",
+  "with",
+  "you",
+  "your",
+])
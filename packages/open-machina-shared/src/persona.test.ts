@@ -0,0 +1,96 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { DEFAULT_PERSONA_CORE, PersonaRuntimeError, PersonaService } from "./persona"
+
+test("PersonaService seeds core persona from config and persists it", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-persona-"))
+
+  try {
+    const configPath = join(storageDir, "persona-config.json")
+    await writeFile(configPath, JSON.stringify({ traits: ["calm", "precise"] }), "utf8")
+    const env = { MACHINA_PERSONA_CONFIG: configPath }
+
+    const service = new PersonaService({ storageDir, env, defaults: { name: "machina-test" }, now: () => new Date("2026-03-01T00:00:00.000Z") })
+    const state = await service.load()
+    expect(state.core.name).toBe("machina-test")
+    expect(state.core.traits).toEqual(["calm", "precise"])
+    expect(state.core.principles).toEqual(DEFAULT_PERSONA_CORE.principles)
+    expect(state.core.createdAt).toBe("2026-03-01T00:00:00.000Z")
+
+    await writeFile(configPath, JSON.stringify({ traits: ["changed"] }), "utf8")
+    const reopened = await new PersonaService({ storageDir, env }).load()
+    expect(reopened.core.traits).toEqual(["calm", "precise"])
+
+    const updated = await new PersonaService({ storageDir, env }).updateCore({ goals: ["ship the release"] })
+    expect(updated.core.goals).toEqual(["ship the release"])
+    const raw = JSON.parse(await readFile(join(storageDir, "persona.json"), "utf8")) as { core: { goals: string[] } }
+    expect(raw.core.goals).toEqual(["ship the release"])
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("PersonaService adapts style hints and topic weights from observed messages", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-persona-adapt-"))
+
+  try {
+    const service = new PersonaService({ storageDir, env: {} })
+    await service.observe("Keep it concise please, the deployment pipeline is broken")
+    await service.observe("The deployment failed again, fix it right now")
+    let adaptive = await service.observe("Explain why the deployment failed in depth")
+
+    expect(adaptive.styleHints).toEqual(["detailed", "action-first"])
+    expect(Object.keys(adaptive.topicWeights)[0]).toBe("deploy")
+
+    adaptive = await service.observe("short answer only")
+    expect(adaptive.styleHints).toEqual(["concise", "action-first"])
+
+    const persona = await service.toOrchestrationPersona()
+    expect(persona.traits).toContain("style:concise")
+    expect(persona.goals.at(-1)).toContain("deploy")
+    expect(persona.fixedPrinciples).toEqual(DEFAULT_PERSONA_CORE.principles)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("PersonaService scrubs observed text and debounces persona writes", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-persona-debounce-"))
+  const personaPath = join(storageDir, "persona.json")
+  const readTopics = async () =>
+    Object.keys((JSON.parse(await readFile(personaPath, "utf8")) as { adaptive: { topicWeights: Record<string, number> } }).adaptive.topicWeights)
+
+  try {
+    const service = new PersonaService({ storageDir, env: {}, writeDebounceMs: 60_000 })
+    await service.observe("Rotate key sk-proj-abcdefghijklmnopqrstuv and mail alice.smith@example.com about billing")
+    await service.observe("Card 4111 1111 1111 1111 failed during billing")
+
+    expect(await readTopics()).toEqual([])
+    expect((await service.toOrchestrationPersona()).goals.at(-1)).toContain("bill")
+
+    await service.flush()
+    const topics = await readTopics()
+    expect(topics).toContain("bill")
+    expect(topics.join(" ")).not.toMatch(/alice|example|abcdefgh|4111|redact/)
+
+    expect(await new PersonaService({ storageDir, env: {} }).resetAdaptive()).toBe(true)
+    expect(await readTopics()).toEqual([])
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("PersonaService rejects unreadable persona config", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-persona-invalid-"))
+
+  try {
+    const service = new PersonaService({ storageDir, env: { MACHINA_PERSONA_CONFIG: join(storageDir, "missing.json") } })
+    const error = await service.load().catch((cause) => cause)
+    expect(error).toBeInstanceOf(PersonaRuntimeError)
+    expect((error as PersonaRuntimeError).code).toBe("PERSONA_CONFIG_INVALID")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
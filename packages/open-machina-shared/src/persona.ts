@@ -0,0 +1,290 @@
+import { readFile, rename, stat, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import type { OrchestrationInput } from "./autonomy"
+import { analyzeText, type PersonaAdaptive, type PersonaCore } from "./memory"
+import { scrubText } from "./redaction"
+import { ensureStorageInitialized } from "./storage"
+
+export type PersonaState = {
+  schemaVersion: 1
+  core: PersonaCore
+  adaptive: PersonaAdaptive
+}
+
+export type PersonaServiceOptions = {
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  now?: () => Date
+  defaults?: Partial<Omit<PersonaCore, "createdAt">>
+  topicDecay?: number
+  maxTopics?: number
+  maxStyleHints?: number
+  writeDebounceMs?: number
+}
+
+export class PersonaRuntimeError extends Error {
+  readonly code: string
+
+  constructor(code: string, message: string) {
+    super(message)
+    this.name = "PersonaRuntimeError"
+    this.code = code
+  }
+}
+
+export const DEFAULT_PERSONA_CORE: Omit<PersonaCore, "createdAt"> = {
+  name: "open-machina",
+  traits: ["autonomous", "proactive", "user-aligned"],
+  goals: ["maximize user goal completion", "maintain continuity"],
+  principles: ["prevent direct harm to user or humans"],
+}
+
+const PERSONA_FILE = "persona.json"
+const DEFAULT_TOPIC_DECAY = 0.9
+const DEFAULT_MAX_TOPICS = 32
+const DEFAULT_MAX_STYLE_HINTS = 8
+const MIN_TOPIC_WEIGHT = 0.01
+const PROMPT_TOPICS = 5
+const DEFAULT_WRITE_DEBOUNCE_MS = 5_000
+const REDACTED_PLACEHOLDER = /\[REDACTED:[^\]]+\]/g
+
+const STYLE_SIGNALS: Array<{ hint: string; pattern: RegExp; conflicts?: string[] }> = [
+  { hint: "concise", pattern: /\b(concise|brief|short|tl;?dr|terse|just the)\b/i, conflicts: ["detailed"] },
+  { hint: "detailed", pattern: /\b(detailed|in depth|thorough|explain why|step by step)\b/i, conflicts: ["concise"] },
+  { hint: "bullet-lists", pattern: /^\s*(?:[-*]|\d+\.)\s+/m },
+  { hint: "code-first", pattern: /```|\b(show (?:me )?the code|code snippet)\b/i },
+  { hint: "action-first", pattern: /\b(just do it|go ahead|asap|right now|immediately)\b/i },
+]
+
+export class PersonaService {
+  private readonly storageDir?: string
+  private readonly env: NodeJS.ProcessEnv
+  private readonly now: () => Date
+  private readonly defaults: Partial<Omit<PersonaCore, "createdAt">>
+  private readonly topicDecay: number
+  private readonly maxTopics: number
+  private readonly maxStyleHints: number
+  private readonly writeDebounceMs: number
+  private pending: { state: PersonaState; filePath: string } | null = null
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options: PersonaServiceOptions = {}) {
+    this.storageDir = options.storageDir
+    this.env = options.env ?? process.env
+    this.now = options.now ?? (() => new Date())
+    this.defaults = options.defaults ?? {}
+    this.topicDecay = Math.max(0, Math.min(1, options.topicDecay ?? DEFAULT_TOPIC_DECAY))
+    this.maxTopics = options.maxTopics ?? DEFAULT_MAX_TOPICS
+    this.maxStyleHints = options.maxStyleHints ?? DEFAULT_MAX_STYLE_HINTS
+    this.writeDebounceMs = Math.max(0, options.writeDebounceMs ?? DEFAULT_WRITE_DEBOUNCE_MS)
+  }
+
+  async load(): Promise<PersonaState> {
+    const filePath = await this.getFilePath()
+    if (this.pending?.filePath === filePath) {
+      return this.pending.state
+    }
+    const stored = await readPersonaFile(filePath)
+    if (stored) {
+      return stored
+    }
+
+    const createdAt = this.now().toISOString()
+    const state: PersonaState = {
+      schemaVersion: 1,
+      core: { ...(await this.resolveCore()), createdAt },
+      adaptive: { styleHints: [], topicWeights: {}, updatedAt: createdAt },
+    }
+    await this.write(filePath, state)
+    return state
+  }
+
+  async updateCore(patch: Partial<Omit<PersonaCore, "createdAt">>): Promise<PersonaState> {
+    const current = await this.load()
+    const next: PersonaState = {
+      ...current,
+      core: validatePersonaCore({ ...current.core, ...patch }),
+    }
+    this.pending = { state: next, filePath: await this.getFilePath() }
+    await this.flush()
+    return next
+  }
+
+  async observe(message: string): Promise<PersonaAdaptive> {
+    const text = scrubText(message).text.replace(REDACTED_PLACEHOLDER, " ")
+    const current = await this.load()
+    const adaptive: PersonaAdaptive = {
+      styleHints: this.adaptStyleHints(current.adaptive.styleHints, text),
+      topicWeights: this.adaptTopicWeights(current.adaptive.topicWeights, text),
+      updatedAt: this.now().toISOString(),
+    }
+    this.pending = { state: { ...current, adaptive }, filePath: await this.getFilePath() }
+    if (this.writeDebounceMs === 0) {
+      await this.flush()
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null
+        void this.flush().catch(() => undefined)
+      }, this.writeDebounceMs)
+      this.flushTimer.unref?.()
+    }
+    return adaptive
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    const pending = this.pending
+    if (!pending) {
+      return
+    }
+    await this.write(pending.filePath, pending.state)
+    if (this.pending === pending) {
+      this.pending = null
+    }
+  }
+
+  async resetAdaptive(): Promise<boolean> {
+    await this.flush()
+    const filePath = await this.getFilePath()
+    const current = await readPersonaFile(filePath)
+    if (!current) {
+      return false
+    }
+    await this.write(filePath, { ...current, adaptive: { styleHints: [], topicWeights: {}, updatedAt: this.now().toISOString() } })
+    return true
+  }
+
+  async toOrchestrationPersona(): Promise<OrchestrationInput["persona"]> {
+    return toOrchestrationPersona(await this.load())
+  }
+
+  private adaptStyleHints(current: string[], message: string): string[] {
+    let hints = [...current]
+    for (const signal of STYLE_SIGNALS) {
+      if (!signal.pattern.test(message)) {
+        continue
+      }
+      const conflicts = new Set([signal.hint, ...(signal.conflicts ?? [])])
+      hints = [signal.hint, ...hints.filter((hint) => !conflicts.has(hint))]
+    }
+    return hints.slice(0, this.maxStyleHints)
+  }
+
+  private adaptTopicWeights(current: Record<string, number>, message: string): Record<string, number> {
+    const terms = new Set(analyzeText(message))
+    const next = new Map<string, number>()
+
+    for (const [topic, weight] of Object.entries(current)) {
+      next.set(topic, weight * this.topicDecay)
+    }
+    for (const term of terms) {
+      next.set(term, (next.get(term) ?? 0) + (1 - this.topicDecay))
+    }
+
+    return Object.fromEntries(
+      [...next.entries()]
+        .filter(([, weight]) => weight >= MIN_TOPIC_WEIGHT)
+        .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+        .slice(0, this.maxTopics)
+        .map(([topic, weight]) => [topic, Number(weight.toFixed(4))]),
+    )
+  }
+
+  private async resolveCore(): Promise<Omit<PersonaCore, "createdAt">> {
+    const configPath = this.env.MACHINA_PERSONA_CONFIG?.trim()
+    let configured: Partial<PersonaCore> = {}
+    if (configPath) {
+      try {
+        configured = JSON.parse(await readFile(configPath, "utf8")) as Partial<PersonaCore>
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new PersonaRuntimeError("PERSONA_CONFIG_INVALID", `Unable to read persona config ${configPath}: ${message}`)
+      }
+    }
+
+    const { createdAt: _createdAt, ...core } = validatePersonaCore({
+      ...DEFAULT_PERSONA_CORE,
+      ...this.defaults,
+      ...configured,
+      createdAt: "",
+    })
+    return core
+  }
+
+  private async write(filePath: string, state: PersonaState): Promise<void> {
+    const tempPath = `${filePath}.tmp-${Date.now()}-${Math.random().toString(16).slice(2)}`
+    await writeFile(tempPath, `${JSON.stringify(state, null, 2)}\n`, "utf8")
+    await rename(tempPath, filePath)
+  }
+
+  private async getFilePath(): Promise<string> {
+    const storage = await ensureStorageInitialized(this.storageDir, this.env)
+    return join(storage.rootDir, PERSONA_FILE)
+  }
+}
+
+export function toOrchestrationPersona(state: PersonaState): OrchestrationInput["persona"] {
+  const topics = Object.entries(state.adaptive.topicWeights)
+    .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+    .slice(0, PROMPT_TOPICS)
+    .map(([topic]) => topic)
+
+  return {
+    name: state.core.name,
+    traits: [...state.core.traits, ...state.adaptive.styleHints.map((hint) => `style:${hint}`)],
+    goals: topics.length > 0 ? [...state.core.goals, `stay focused on: ${topics.join(", ")}`] : [...state.core.goals],
+    fixedPrinciples: [...state.core.principles],
+  }
+}
+
+async function readPersonaFile(filePath: string): Promise<PersonaState | null> {
+  if (!(await fileExists(filePath))) {
+    return null
+  }
+
+  const parsed = JSON.parse(await readFile(filePath, "utf8")) as Partial<PersonaState>
+  if (parsed.schemaVersion !== 1 || !parsed.core || !parsed.adaptive) {
+    throw new PersonaRuntimeError("PERSONA_STATE_INVALID", "Persona state file is invalid")
+  }
+
+  return {
+    schemaVersion: 1,
+    core: validatePersonaCore(parsed.core),
+    adaptive: {
+      styleHints: Array.isArray(parsed.adaptive.styleHints) ? parsed.adaptive.styleHints : [],
+      topicWeights: parsed.adaptive.topicWeights ?? {},
+      updatedAt: parsed.adaptive.updatedAt ?? parsed.core.createdAt,
+    },
+  }
+}
+
+function validatePersonaCore(core: PersonaCore): PersonaCore {
+  if (typeof core.name !== "string" || core.name.trim().length === 0) {
+    throw new PersonaRuntimeError("PERSONA_CORE_INVALID", "Persona name must not be empty")
+  }
+  for (const key of ["traits", "goals", "principles"] as const) {
+    if (!Array.isArray(core[key]) || core[key].some((entry) => typeof entry !== "string")) {
+      throw new PersonaRuntimeError("PERSONA_CORE_INVALID", `Persona ${key} must be a string array`)
+    }
+  }
+
+  return {
+    name: core.name.trim(),
+    traits: [...core.traits],
+    goals: [...core.goals],
+    principles: [...core.principles],
+    createdAt: core.createdAt,
+  }
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,58 @@
+import { expect, test } from "bun:test"
+import { DEFAULT_REDACTION_DETECTORS, scrubMemoryRecord, scrubText } from "./redaction"
+
+test("scrubText masks built-in PII and secret patterns with per-detector counts", () => {
+  const result = scrubText(
+    [
+      "Mail jane.doe@example.com or call +1 415-555-0132.",
+      "Card 4111 1111 1111 1111 expires soon.",
+      "Key sk-proj-abcdefghijklmnop1234 and ghp_abcdefghijklmnopqrstuvwx12.",
+      "Header Bearer abcdefghijklmnopqrstuv and password=hunter2!",
+    ].join("\n"),
+  )
+
+  expect(result.dropped).toBe(false)
+  expect(result.counts).toEqual({ "api-key": 2, token: 2, email: 1, "credit-card": 1, phone: 1 })
+  expect(result.text).toContain("Mail [REDACTED:email] or call [REDACTED:phone].")
+  expect(result.text).toContain("Card [REDACTED:credit-card] expires soon.")
+  expect(result.text).toContain("password=[REDACTED:token]")
+  expect(result.text).not.toContain("hunter2")
+  expect(result.text).not.toContain("sk-proj-")
+})
+
+test("scrubText leaves dates, versions and non-Luhn digit runs untouched", () => {
+  const text = "Deployed v1.4.3 on 2026-02-11T10:00:00.000Z, build 1234 5678 9012 3456, port 4444"
+  const result = scrubText(text)
+  expect(result.text).toBe(text)
+  expect(result.counts).toEqual({})
+})
+
+test("scrubText supports drop overrides and custom detectors", () => {
+  const policy = {
+    detectors: [...DEFAULT_REDACTION_DETECTORS, { id: "employee-id", pattern: /\bEMP-\d{6}\b/g }],
+    overrides: { "credit-card": "drop" as const },
+  }
+
+  const masked = scrubText("Ticket for EMP-004211", policy)
+  expect(masked.text).toBe("Ticket for [REDACTED:employee-id]")
+  expect(masked.dropped).toBe(false)
+
+  expect(scrubText("Pay with 4111-1111-1111-1111", policy).dropped).toBe(true)
+  expect(scrubText("mail a@b.io", { mode: "drop" }).dropped).toBe(true)
+})
+
+test("scrubMemoryRecord scrubs content and tags together", () => {
+  const result = scrubMemoryRecord({
+    id: "m1",
+    userId: "u1",
+    shard: "episodic",
+    content: "Reach me at ops@example.org",
+    tags: ["contact", "ops@example.org"],
+    createdAt: "2026-02-11T10:00:00.000Z",
+    weight: 0.5,
+  })
+
+  expect(result.record.content).toBe("Reach me at [REDACTED:email]")
+  expect(result.record.tags).toEqual(["contact", "[REDACTED:email]"])
+  expect(result.counts).toEqual({ email: 2 })
+})
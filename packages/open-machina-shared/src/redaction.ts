@@ -0,0 +1,136 @@
+import type { MemoryRecord } from "./memory"
+
+export type RedactionMode = "mask" | "drop"
+
+export type RedactionDetector = {
+  id: string
+  pattern: RegExp
+  validate?: (match: string) => boolean
+}
+
+export type RedactionPolicy = {
+  detectors?: RedactionDetector[]
+  mode?: RedactionMode
+  overrides?: Record<string, RedactionMode>
+}
+
+export type RedactionCounts = Record<string, number>
+
+export type ScrubResult = {
+  text: string
+  dropped: boolean
+  counts: RedactionCounts
+}
+
+export type ScrubbedMemoryRecord = {
+  record: MemoryRecord
+  dropped: boolean
+  counts: RedactionCounts
+}
+
+export const API_KEY_DETECTOR: RedactionDetector = {
+  id: "api-key",
+  pattern:
+    /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{16,}|gh[pousr]_[A-Za-z0-9]{20,}|xox[abprs]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35})/g,
+}
+
+export const TOKEN_DETECTOR: RedactionDetector = {
+  id: "token",
+  pattern:
+    /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}|(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{16,}=*|(?<=\b(?:token|secret|password|api[_-]?key|credential|auth)\s*[:=]\s*)[^\s,;"'}\]]+/gi,
+  validate: (match) => !match.startsWith("[REDACTED"),
+}
+
+export const EMAIL_DETECTOR: RedactionDetector = {
+  id: "email",
+  pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+}
+
+export const CREDIT_CARD_DETECTOR: RedactionDetector = {
+  id: "credit-card",
+  pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+  validate: (match) => passesLuhn(match.replace(/\D/g, "")),
+}
+
+export const PHONE_DETECTOR: RedactionDetector = {
+  id: "phone",
+  pattern: /(?<![\w+]|\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{2,4}[\s.-]\d{3,4}[\s.-]?\d{3,4}(?![\w]|[\s.-]\d)/g,
+  validate: (match) => {
+    const digits = match.replace(/\D/g, "").length
+    return digits >= 10 && digits <= 15
+  },
+}
+
+export const SECRET_REDACTION_DETECTORS: RedactionDetector[] = [API_KEY_DETECTOR, TOKEN_DETECTOR]
+
+export const DEFAULT_REDACTION_DETECTORS: RedactionDetector[] = [
+  ...SECRET_REDACTION_DETECTORS,
+  EMAIL_DETECTOR,
+  CREDIT_CARD_DETECTOR,
+  PHONE_DETECTOR,
+]
+
+export function scrubText(text: string, policy: RedactionPolicy = {}): ScrubResult {
+  const detectors = policy.detectors ?? DEFAULT_REDACTION_DETECTORS
+  const counts: RedactionCounts = {}
+  let dropped = false
+  let scrubbed = text
+
+  for (const detector of detectors) {
+    const pattern = new RegExp(detector.pattern.source, detector.pattern.flags.includes("g") ? detector.pattern.flags : `${detector.pattern.flags}g`)
+    scrubbed = scrubbed.replace(pattern, (match) => {
+      if (detector.validate && !detector.validate(match)) {
+        return match
+      }
+      counts[detector.id] = (counts[detector.id] ?? 0) + 1
+      if ((policy.overrides?.[detector.id] ?? policy.mode ?? "mask") === "drop") {
+        dropped = true
+      }
+      return `[REDACTED:${detector.id}]`
+    })
+  }
+
+  return { text: scrubbed, dropped, counts }
+}
+
+export function scrubMemoryRecord(record: MemoryRecord, policy: RedactionPolicy = {}): ScrubbedMemoryRecord {
+  const counts: RedactionCounts = {}
+  let dropped = false
+  const apply = (value: string) => {
+    const result = scrubText(value, policy)
+    dropped = dropped || result.dropped
+    mergeCounts(counts, result.counts)
+    return result.text
+  }
+
+  return {
+    record: { ...record, content: apply(record.content), tags: record.tags.map(apply) },
+    dropped,
+    counts,
+  }
+}
+
+function mergeCounts(target: RedactionCounts, source: RedactionCounts): void {
+  for (const [id, count] of Object.entries(source)) {
+    target[id] = (target[id] ?? 0) + count
+  }
+}
+
+function passesLuhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) {
+    return false
+  }
+
+  let sum = 0
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index])
+    if (index % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
@@ -0,0 +1,30 @@
+import { applyMigration, listMigrationIds, prepareMigrations, type MigrationRunResult } from "./storage"
+import { defineWorkflowSteps, type WorkflowContext, type WorkflowDefinition } from "./workflow"
+
+export const STORAGE_MIGRATION_WORKFLOW = "storage.migrate"
+
+export type StorageWorkflowPayload = {
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+}
+
+export function createStorageMigrationWorkflow(): WorkflowDefinition<StorageWorkflowPayload, MigrationRunResult> {
+  return {
+    name: STORAGE_MIGRATION_WORKFLOW,
+    steps: defineWorkflowSteps<StorageWorkflowPayload, MigrationRunResult | null, MigrationRunResult>({
+      initialState: () => null,
+      steps: [
+        {
+          name: "prepare",
+          run: async (_, { payload }) => prepareMigrations({ storageDir: payload.storageDir }, payload.env),
+        },
+        ...listMigrationIds().map((migrationId) => ({
+          name: migrationId,
+          run: async (progress: MigrationRunResult | null, { payload }: WorkflowContext<StorageWorkflowPayload>) =>
+            applyMigration(progress!, migrationId, { storageDir: payload.storageDir }, payload.env),
+        })),
+      ],
+      result: (progress) => progress!,
+    }),
+  }
+}
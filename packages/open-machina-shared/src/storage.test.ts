@@ -47,8 +47,8 @@ test("migration happy path preserves session fixture from v1 to v2", async () =>
 
     expect(result.status).toBe("migrated")
     expect(result.fromVersion).toBe(1)
-    expect(result.toVersion).toBe(2)
-    expect(result.applied).toEqual(["v1-to-v2"])
+    expect(result.toVersion).toBe(3)
+    expect(result.applied).toEqual(["v1-to-v2", "v2-to-v3"])
     expect(migrated).toHaveLength(1)
     expect(migrated[0]?.id).toBe("session-1")
     expect(typeof migrated[0]?.checksum).toBe("string")
@@ -101,7 +101,7 @@ test("interrupted migration recovers cleanly on next run", async () => {
 
     expect(recovered.status).toBe("migrated")
     expect(recovered.recovered).toBe(true)
-    expect(recovered.applied).toEqual(["v1-to-v2"])
+    expect(recovered.applied).toEqual(["v1-to-v2", "v2-to-v3"])
     expect(record.id).toBe("session-2")
     expect(typeof record.checksum).toBe("string")
     expect((record.checksum ?? "").length).toBeGreaterThan(0)
@@ -145,7 +145,7 @@ test("interrupted migration with missing backup recovers by resetting state and
 
     expect(recovered.status).toBe("migrated")
     expect(recovered.recovered).toBe(true)
-    expect(recovered.applied).toEqual(["v1-to-v2"])
+    expect(recovered.applied).toEqual(["v1-to-v2", "v2-to-v3"])
     expect(record.id).toBe("session-4")
     expect(typeof record.checksum).toBe("string")
     expect((record.checksum ?? "").length).toBeGreaterThan(0)
@@ -228,9 +228,48 @@ test("integrity check reports healthy for valid v2 data", async () => {
     const report = await checkSessionIntegrity(storageDir)
 
     expect(report.healthy).toBe(true)
-    expect(report.schemaVersion).toBe(2)
+    expect(report.schemaVersion).toBe(3)
     expect(report.issueCount).toBe(0)
   } finally {
     await rm(storageDir, { recursive: true, force: true })
   }
 })
+
+test("v2-to-v3 migration stamps checksums on legacy memory journal entries", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-storage-memory-"))
+
+  try {
+    const paths = getStoragePaths(storageDir)
+    await writeFile(
+      paths.schemaStateFile,
+      JSON.stringify(
+        {
+          schemaVersion: 2,
+          status: "ready",
+          targetVersion: null,
+          migrationId: null,
+          backupPath: null,
+          updatedAt: "2026-02-11T00:00:00.000Z",
+        },
+        null,
+        2,
+      ) + "\n",
+      "utf8",
+    )
+    await writeFile(
+      paths.memoryFile,
+      `${JSON.stringify({ id: "mem-1", updatedAt: "2026-02-11T00:00:00.000Z", payload: { content: "legacy" } })}\n`,
+      "utf8",
+    )
+
+    const result = await runMigrations({ storageDir })
+    const lines = (await readFile(paths.memoryFile, "utf8")).trim().split("\n")
+    const entry = JSON.parse(lines[0] ?? "{}") as SessionRecord
+
+    expect(result.applied).toEqual(["v2-to-v3"])
+    expect(entry.id).toBe("mem-1")
+    expect((entry.checksum ?? "").length).toBeGreaterThan(0)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
@@ -5,8 +5,14 @@ import { dirname, join } from "node:path"
 const SESSION_FILE = "sessions.jsonl"
 const STATE_FILE = "schema-state.json"
 const BACKUP_FILE = "sessions.backup.jsonl"
+const MEMORY_FILE = "memory.jsonl"
+const AUDIT_FILE = "audit-log.jsonl"
+const DECISION_LEDGER_FILE = "decision-ledger.jsonl"
+const SCHEDULED_WORK_FILE = "scheduled-work.json"
+const WORKFLOW_RUNS_DIR = "workflow-runs"
+const WORKFLOW_SCHEDULES_FILE = "workflow-schedules.json"
 
-export const CURRENT_SCHEMA_VERSION = 2
+export const CURRENT_SCHEMA_VERSION = 3
 
 export type SchemaStateStatus = "ready" | "migrating"
 
@@ -27,6 +33,8 @@ export type SessionRecord = {
   checksum?: string
 }
 
+export type JournalLabel = "session" | "memory"
+
 export type StoragePolicy = {
   source: "explicit" | "env" | "default"
   rootDir: string
@@ -37,6 +45,12 @@ export type StoragePaths = {
   sessionsFile: string
   schemaStateFile: string
   backupFile: string
+  memoryFile: string
+  auditLogFile: string
+  decisionLedgerFile: string
+  scheduledWorkFile: string
+  workflowRunsDir: string
+  workflowSchedulesFile: string
 }
 
 export type MigrationRunOptions = {
@@ -111,6 +125,12 @@ export function getStoragePaths(storageDir?: string, env: NodeJS.ProcessEnv = pr
     sessionsFile: join(policy.rootDir, SESSION_FILE),
     schemaStateFile: join(policy.rootDir, STATE_FILE),
     backupFile: join(policy.rootDir, BACKUP_FILE),
+    memoryFile: join(policy.rootDir, MEMORY_FILE),
+    auditLogFile: join(policy.rootDir, AUDIT_FILE),
+    decisionLedgerFile: join(policy.rootDir, DECISION_LEDGER_FILE),
+    scheduledWorkFile: join(policy.rootDir, SCHEDULED_WORK_FILE),
+    workflowRunsDir: join(policy.rootDir, WORKFLOW_RUNS_DIR),
+    workflowSchedulesFile: join(policy.rootDir, WORKFLOW_SCHEDULES_FILE),
   }
 }
 
@@ -126,10 +146,32 @@ export async function ensureStorageInitialized(storageDir?: string, env: NodeJS.
     await writeFile(paths.sessionsFile, "", "utf8")
   }
 
+  if (!(await fileExists(paths.memoryFile))) {
+    await writeFile(paths.memoryFile, "", "utf8")
+  }
+
   return paths
 }
 
 export async function runMigrations(options: MigrationRunOptions = {}, env: NodeJS.ProcessEnv = process.env): Promise<MigrationRunResult> {
+  let progress = await prepareMigrations(options, env)
+  const targetVersion = options.targetVersion ?? CURRENT_SCHEMA_VERSION
+
+  for (let version = progress.toVersion; version < targetVersion; version += 1) {
+    const migrationId = `v${version}-to-v${version + 1}`
+    if (!MIGRATIONS.has(migrationId)) {
+      throw new MachinaStorageError("MIGRATION_PATH_MISSING", `No migration registered for ${migrationId}`)
+    }
+    progress = await applyMigration(progress, migrationId, options, env)
+  }
+
+  return progress
+}
+
+export async function prepareMigrations(
+  options: MigrationRunOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<MigrationRunResult> {
   const paths = await ensureStorageInitialized(options.storageDir, env)
   let state = await readSchemaState(paths)
   const targetVersion = options.targetVersion ?? CURRENT_SCHEMA_VERSION
@@ -152,96 +194,91 @@ export async function runMigrations(options: MigrationRunOptions = {}, env: Node
     )
   }
 
-  const applied: string[] = []
-  const fromVersion = state.schemaVersion
+  return {
+    status: "up-to-date",
+    fromVersion: state.schemaVersion,
+    toVersion: state.schemaVersion,
+    recovered,
+    applied: [],
+  }
+}
 
-  for (let version = state.schemaVersion; version < targetVersion; version += 1) {
-    const nextVersion = version + 1
-    const migrationId = `v${version}-to-v${nextVersion}`
-    const migrate = MIGRATIONS.get(migrationId)
+export async function applyMigration(
+  progress: MigrationRunResult,
+  migrationId: string,
+  options: MigrationRunOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<MigrationRunResult> {
+  const migrate = MIGRATIONS.get(migrationId)
+  if (!migrate) {
+    throw new MachinaStorageError("MIGRATION_PATH_MISSING", `No migration registered for ${migrationId}`)
+  }
 
-    if (!migrate) {
-      throw new MachinaStorageError("MIGRATION_PATH_MISSING", `No migration registered for ${migrationId}`)
-    }
+  const paths = getStoragePaths(options.storageDir, env)
+  let state = await readSchemaState(paths)
+  let recovered = progress.recovered
+  if (state.status === "migrating") {
+    await recoverInterruptedMigration(paths, state)
+    recovered = true
+    state = await readSchemaState(paths)
+  }
 
-    const activeState: SchemaState = {
-      schemaVersion: version,
-      status: "migrating",
-      targetVersion: nextVersion,
-      migrationId,
-      backupPath: paths.backupFile,
-      updatedAt: new Date().toISOString(),
-    }
+  const version = state.schemaVersion
+  const nextVersion = version + 1
+  const targetVersion = options.targetVersion ?? CURRENT_SCHEMA_VERSION
+  if (migrationId !== `v${version}-to-v${nextVersion}` || nextVersion > targetVersion) {
+    return { ...progress, recovered }
+  }
 
-    await writeJsonAtomic(paths.schemaStateFile, activeState)
+  const activeState: SchemaState = {
+    schemaVersion: version,
+    status: "migrating",
+    targetVersion: nextVersion,
+    migrationId,
+    backupPath: paths.backupFile,
+    updatedAt: new Date().toISOString(),
+  }
 
-    try {
-      await backupSessions(paths)
+  await writeJsonAtomic(paths.schemaStateFile, activeState)
 
-      if (options.interruptAfterStateWrite) {
-        throw new MachinaStorageError(
-          "MIGRATION_INTERRUPTED",
-          `Simulated interruption after migration state write for ${migrationId}`,
-        )
-      }
+  try {
+    await backupSessions(paths)
 
-      await migrate(paths)
-      await writeJsonAtomic(paths.schemaStateFile, createReadyState(nextVersion))
-      await deleteIfExists(paths.backupFile)
-      applied.push(migrationId)
-    } catch (error) {
+    if (options.interruptAfterStateWrite) {
       throw new MachinaStorageError(
-        "MIGRATION_FAILED",
-        `Migration ${migrationId} failed: ${error instanceof Error ? error.message : String(error)}`,
+        "MIGRATION_INTERRUPTED",
+        `Simulated interruption after migration state write for ${migrationId}`,
       )
     }
-  }
 
-  if (applied.length === 0) {
-    return {
-      status: "up-to-date",
-      fromVersion,
-      toVersion: fromVersion,
-      recovered,
-      applied,
-    }
+    await migrate(paths)
+    await writeJsonAtomic(paths.schemaStateFile, createReadyState(nextVersion))
+    await deleteIfExists(paths.backupFile)
+  } catch (error) {
+    throw new MachinaStorageError(
+      "MIGRATION_FAILED",
+      `Migration ${migrationId} failed: ${error instanceof Error ? error.message : String(error)}`,
+    )
   }
 
   return {
     status: "migrated",
-    fromVersion,
-    toVersion: targetVersion,
+    fromVersion: progress.fromVersion,
+    toVersion: nextVersion,
     recovered,
-    applied,
+    applied: [...progress.applied, migrationId],
   }
 }
 
+export function listMigrationIds(): string[] {
+  return [...MIGRATIONS.keys()]
+}
+
 export async function checkSessionIntegrity(storageDir?: string, env: NodeJS.ProcessEnv = process.env): Promise<IntegrityReport> {
   const paths = await ensureStorageInitialized(storageDir, env)
   const state = await readSchemaState(paths)
-  const issues: IntegrityIssue[] = []
   const records = await readSessionRecords(paths.sessionsFile)
-
-  records.forEach((record, index) => {
-    if (record.id.trim().length === 0) {
-      issues.push({ code: "SESSION_ID_EMPTY", message: "Session id must not be empty", line: index + 1 })
-    }
-
-    if (record.updatedAt.trim().length === 0) {
-      issues.push({ code: "SESSION_UPDATED_AT_EMPTY", message: "Session updatedAt must not be empty", line: index + 1 })
-    }
-
-    if (state.schemaVersion >= 2) {
-      if (!record.checksum) {
-        issues.push({ code: "CHECKSUM_MISSING", message: "Checksum is required for schema v2+", line: index + 1 })
-      } else {
-        const expected = computeChecksum(record.id, record.updatedAt, record.payload, Boolean(record.deleted))
-        if (record.checksum !== expected) {
-          issues.push({ code: "CHECKSUM_INVALID", message: "Checksum validation failed", line: index + 1 })
-        }
-      }
-    }
-  })
+  const issues = verifyJournalRecords(records, state.schemaVersion, "session")
 
   return {
     healthy: issues.length === 0,
@@ -276,16 +313,19 @@ export async function compactSessions(storageDir?: string, env: NodeJS.ProcessEn
 export async function writeSessionRecords(storageDir: string, records: SessionRecord[]): Promise<void> {
   const paths = await ensureStorageInitialized(storageDir)
   const state = await readSchemaState(paths)
-  const normalized = records.map((record) => normalizeRecordForSchema(record, state.schemaVersion))
-  await writeSessionsAtomic(paths.sessionsFile, normalized)
+  await writeJournalRecords(paths.sessionsFile, records, state.schemaVersion)
 }
 
 export async function readSessionRecords(sessionsFile: string): Promise<SessionRecord[]> {
-  if (!(await fileExists(sessionsFile))) {
+  return readJournalRecords(sessionsFile, "session")
+}
+
+export async function readJournalRecords(path: string, label: JournalLabel): Promise<SessionRecord[]> {
+  if (!(await fileExists(path))) {
     return []
   }
 
-  const content = await readFile(sessionsFile, "utf8")
+  const content = await readFile(path, "utf8")
   if (content.trim().length === 0) {
     return []
   }
@@ -304,13 +344,60 @@ export async function readSessionRecords(sessionsFile: string): Promise<SessionR
       return parsed
     } catch (error) {
       throw new MachinaStorageError(
-        "SESSION_PARSE_FAILED",
-        `Failed to parse session record at line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
+        `${label.toUpperCase()}_PARSE_FAILED`,
+        `Failed to parse ${label} record at line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
       )
     }
   })
 }
 
+export async function writeJournalRecords(path: string, records: SessionRecord[], schemaVersion: number): Promise<void> {
+  const normalized = records.map((record) => normalizeRecordForSchema(record, schemaVersion))
+  await writeSessionsAtomic(path, normalized)
+}
+
+export function verifyJournalRecords(records: SessionRecord[], schemaVersion: number, label: JournalLabel): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = []
+  const prefix = label.toUpperCase()
+  const title = `${label.charAt(0).toUpperCase()}${label.slice(1)}`
+
+  records.forEach((record, index) => {
+    if (record.id.trim().length === 0) {
+      issues.push({ code: `${prefix}_ID_EMPTY`, message: `${title} id must not be empty`, line: index + 1 })
+    }
+
+    if (record.updatedAt.trim().length === 0) {
+      issues.push({ code: `${prefix}_UPDATED_AT_EMPTY`, message: `${title} updatedAt must not be empty`, line: index + 1 })
+    }
+
+    if (schemaVersion >= 2) {
+      if (!record.checksum) {
+        issues.push({ code: "CHECKSUM_MISSING", message: "Checksum is required for schema v2+", line: index + 1 })
+      } else {
+        const expected = computeChecksum(record.id, record.updatedAt, record.payload, Boolean(record.deleted))
+        if (record.checksum !== expected) {
+          issues.push({ code: "CHECKSUM_INVALID", message: "Checksum validation failed", line: index + 1 })
+        }
+      }
+    }
+  })
+
+  return issues
+}
+
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => stableStringify(entry)).join(",")}]`
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([left], [right]) => left.localeCompare(right))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`
+  }
+
+  return JSON.stringify(value)
+}
+
 export async function readSchemaState(paths: StoragePaths): Promise<SchemaState> {
   const raw = await readFile(paths.schemaStateFile, "utf8")
   const parsed = JSON.parse(raw) as Partial<SchemaState>
@@ -393,19 +480,6 @@ function computeChecksum(id: string, updatedAt: string, payload: unknown, delete
   return createHash("sha256").update(serialized).digest("hex")
 }
 
-function stableStringify(value: unknown): string {
-  if (Array.isArray(value)) {
-    return `[${value.map((entry) => stableStringify(entry)).join(",")}]`
-  }
-
-  if (value && typeof value === "object") {
-    const entries = Object.entries(value as Record<string, unknown>).sort(([left], [right]) => left.localeCompare(right))
-    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`
-  }
-
-  return JSON.stringify(value)
-}
-
 async function writeSessionsAtomic(path: string, records: SessionRecord[]): Promise<void> {
   const content = records.map((record) => JSON.stringify(record)).join("\n")
   await writeTextAtomic(path, content.length > 0 ? `${content}\n` : "")
@@ -453,4 +527,11 @@ const MIGRATIONS = new Map<string, (paths: StoragePaths) => Promise<void>>([
       await writeSessionsAtomic(paths.sessionsFile, migrated)
     },
   ],
+  [
+    "v2-to-v3",
+    async (paths: StoragePaths) => {
+      const memories = await readJournalRecords(paths.memoryFile, "memory")
+      await writeJournalRecords(paths.memoryFile, memories, 3)
+    },
+  ],
 ])
@@ -0,0 +1,71 @@
+import { expect, test } from "bun:test"
+import { SystemStateSampler, probeNetworkHealth } from "./system-state"
+
+test("SystemStateSampler derives load ratios from the source and caches within the ttl", async () => {
+  let clock = 0
+  let reads = 0
+  const sampler = new SystemStateSampler({
+    env: {},
+    ttlMs: 1_000,
+    now: () => clock,
+    source: {
+      loadAverage: () => {
+        reads += 1
+        return [reads === 1 ? 3 : 10, 2, 1]
+      },
+      cpuCount: () => 4,
+      totalMemory: () => 8_000,
+      freeMemory: () => 2_000,
+      probeNetwork: async () => "degraded",
+    },
+  })
+
+  const [first, concurrent] = await Promise.all([sampler.sample(), sampler.sample()])
+  expect(first).toEqual({ cpuLoad: 0.75, memoryLoad: 0.75, networkHealth: "degraded" })
+  expect(concurrent).toEqual(first)
+  expect(reads).toBe(1)
+
+  clock = 999
+  expect((await sampler.sample()).cpuLoad).toBe(0.75)
+  clock = 1_000
+  expect((await sampler.sample()).cpuLoad).toBe(1)
+  expect(reads).toBe(2)
+})
+
+test("SystemStateSampler omits unknown readings and treats probe failures as down", async () => {
+  const sampler = new SystemStateSampler({
+    env: {},
+    source: {
+      loadAverage: () => null,
+      totalMemory: () => 0,
+      probeNetwork: async () => {
+        throw new Error("probe exploded")
+      },
+    },
+  })
+
+  expect(await sampler.sample()).toEqual({ networkHealth: "down" })
+  expect(await new SystemStateSampler({ env: {}, source: { probeNetwork: async () => undefined } }).sample()).not.toHaveProperty(
+    "networkHealth",
+  )
+})
+
+test("probeNetworkHealth classifies a local endpoint as good, degraded or down", async () => {
+  const server = Bun.serve({
+    port: 0,
+    fetch: (request) => new Response("ok", { status: new URL(request.url).pathname === "/health" ? 200 : 503 }),
+  })
+
+  try {
+    const base = `http://127.0.0.1:${server.port}`
+    expect(await probeNetworkHealth(`${base}/health`)).toBe("good")
+    expect(await probeNetworkHealth(`${base}/broken`)).toBe("degraded")
+
+    let tick = 0
+    expect(await probeNetworkHealth(`${base}/health`, { degradedMs: 100, now: () => (tick += 500) })).toBe("degraded")
+  } finally {
+    server.stop(true)
+  }
+
+  expect(await probeNetworkHealth("http://127.0.0.1:9/health", { timeoutMs: 500 })).toBe("down")
+})
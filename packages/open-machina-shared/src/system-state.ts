@@ -0,0 +1,129 @@
+import os from "node:os"
+import type { OrchestrationInput } from "./autonomy"
+
+export type SystemState = OrchestrationInput["systemState"]
+
+export type NetworkHealth = NonNullable<SystemState["networkHealth"]>
+
+export type SystemStateSource = {
+  loadAverage: () => number[] | null
+  cpuCount: () => number
+  totalMemory: () => number
+  freeMemory: () => number
+  probeNetwork: () => Promise<NetworkHealth | undefined>
+}
+
+export type SystemStateSamplerOptions = {
+  env?: NodeJS.ProcessEnv
+  source?: Partial<SystemStateSource>
+  ttlMs?: number
+  now?: () => number
+}
+
+export type NetworkProbeOptions = {
+  timeoutMs?: number
+  degradedMs?: number
+  fetch?: typeof fetch
+  now?: () => number
+}
+
+const DEFAULT_TTL_MS = 5_000
+const DEFAULT_PROBE_TIMEOUT_MS = 1_500
+const DEFAULT_PROBE_DEGRADED_MS = 750
+
+export class SystemStateSampler {
+  private readonly source: SystemStateSource
+  private readonly ttlMs: number
+  private readonly now: () => number
+  private cached: { state: SystemState; sampledAt: number } | null = null
+  private pending: Promise<SystemState> | null = null
+
+  constructor(options: SystemStateSamplerOptions = {}) {
+    this.source = { ...createOsSystemStateSource(options.env ?? process.env), ...options.source }
+    this.ttlMs = Math.max(0, options.ttlMs ?? readPositiveNumber((options.env ?? process.env).MACHINA_SYSTEM_STATE_TTL_MS) ?? DEFAULT_TTL_MS)
+    this.now = options.now ?? (() => Date.now())
+  }
+
+  async sample(): Promise<SystemState> {
+    if (this.cached && this.now() - this.cached.sampledAt < this.ttlMs) {
+      return { ...this.cached.state }
+    }
+    if (!this.pending) {
+      this.pending = this.read().finally(() => {
+        this.pending = null
+      })
+    }
+    return { ...(await this.pending) }
+  }
+
+  invalidate(): void {
+    this.cached = null
+  }
+
+  private async read(): Promise<SystemState> {
+    const state: SystemState = {}
+
+    const load = this.source.loadAverage()
+    const cpus = this.source.cpuCount()
+    if (load && load.length > 0 && cpus > 0) {
+      state.cpuLoad = ratio(load[0]! / cpus)
+    }
+
+    const total = this.source.totalMemory()
+    if (total > 0) {
+      state.memoryLoad = ratio(1 - this.source.freeMemory() / total)
+    }
+
+    const network = await this.source.probeNetwork().catch(() => "down" as const)
+    if (network) {
+      state.networkHealth = network
+    }
+
+    this.cached = { state, sampledAt: this.now() }
+    return state
+  }
+}
+
+export function createOsSystemStateSource(env: NodeJS.ProcessEnv = process.env): SystemStateSource {
+  const probeUrl = env.MACHINA_NETWORK_PROBE_URL?.trim()
+  const probeOptions: NetworkProbeOptions = {
+    timeoutMs: readPositiveNumber(env.MACHINA_NETWORK_PROBE_TIMEOUT_MS),
+    degradedMs: readPositiveNumber(env.MACHINA_NETWORK_PROBE_DEGRADED_MS),
+  }
+
+  return {
+    loadAverage: () => (process.platform === "win32" ? null : os.loadavg()),
+    cpuCount: () => (typeof os.availableParallelism === "function" ? os.availableParallelism() : os.cpus().length),
+    totalMemory: () => os.totalmem(),
+    freeMemory: () => os.freemem(),
+    probeNetwork: async () => (probeUrl ? probeNetworkHealth(probeUrl, probeOptions) : undefined),
+  }
+}
+
+export async function probeNetworkHealth(url: string, options: NetworkProbeOptions = {}): Promise<NetworkHealth> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS
+  const degradedMs = options.degradedMs ?? DEFAULT_PROBE_DEGRADED_MS
+  const now = options.now ?? (() => performance.now())
+  const request = options.fetch ?? fetch
+
+  const startedAt = now()
+  try {
+    const response = await request(url, { method: "GET", signal: AbortSignal.timeout(timeoutMs) })
+    await response.body?.cancel().catch(() => undefined)
+    if (!response.ok) {
+      return "degraded"
+    }
+    return now() - startedAt > degradedMs ? "degraded" : "good"
+  } catch {
+    return "down"
+  }
+}
+
+function ratio(value: number): number {
+  return Number(Math.max(0, Math.min(1, value)).toFixed(4))
+}
+
+function readPositiveNumber(value: string | undefined): number | undefined {
+  const parsed = Number(value?.trim() || Number.NaN)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
@@ -238,7 +238,7 @@ test("privileged runtime errors are redacted before surfacing to callers", async
         capabilities: ["test"],
       },
       run: async ({ input }) => {
-        throw new ToolRuntimeError("SIM_FAIL", `failure token=${input.token}`)
+        throw new ToolRuntimeError("SIM_FAIL", `failure token=${input.token} auth: basic-abc123 key sk-ant-REDACTED`)
       },
     })
 
@@ -261,6 +261,8 @@ test("privileged runtime errors are redacted before surfacing to callers", async
     expect(code).toBe("SIM_FAIL")
     expect(message).toContain("[REDACTED]")
     expect(message.includes(secret)).toBe(false)
+    expect(message).toContain("auth: [REDACTED:token]")
+    expect(message).toContain("key [REDACTED:api-key]")
 
     const auditRaw = await readFile(join(storageDir, AUDIT_LOG_FILE_NAME), "utf8")
     expect(auditRaw.includes(secret)).toBe(false)
@@ -1,10 +1,18 @@
-import { appendFile, writeFile } from "node:fs/promises"
-import { join } from "node:path"
+import { appendFile, mkdir, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
 import { createDefaultChannelConnectors } from "./connectors"
+import { DecisionLedger } from "./decision-ledger"
+import { MemoryStore, formatMemoryExport, type MemoryEraseReport } from "./memory-store"
+import { SECRET_REDACTION_DETECTORS, scrubText } from "./redaction"
 import { ensureStorageInitialized } from "./storage"
 
 export const AUDIT_LOG_FILE_NAME = "audit-log.jsonl"
 export const MAINTENANCE_MARKER_FILE_NAME = "maintenance-marker.txt"
+export const MEMORY_EXPORT_DIR_NAME = "exports"
+
+export type UserDataEraseReport = MemoryEraseReport & {
+  ledgerPromptsErased: number
+}
 
 export type ToolCategory = "runtime" | "channel" | "storage"
 export type PermissionClass = "safe" | "privileged"
@@ -325,6 +333,60 @@ export function createMachinaToolRegistry(): ToolRegistry {
     },
   })
 
+  registry.register<{ userId?: string; outputPath?: string }, { userId: string; count: number; exportedAt: string; outputPath: string }>({
+    id: "memory.export",
+    category: "storage",
+    permissionClass: "privileged",
+    metadata: {
+      displayName: "Export User Memories",
+      description: "Writes a portable JSONL bundle of one user's memory records.",
+      deterministic: false,
+      capabilities: ["memory", "export", "audit"],
+    },
+    run: async ({ input, storageDir, env }) => {
+      const userId = requireUserIdInput(input.userId)
+      const bundle = await new MemoryStore({ storageDir, env }).exportUser(userId)
+      const storage = await ensureStorageInitialized(storageDir, env)
+      const outputPath =
+        typeof input.outputPath === "string" && input.outputPath.trim().length > 0
+          ? input.outputPath.trim()
+          : join(
+              storage.rootDir,
+              MEMORY_EXPORT_DIR_NAME,
+              `memory-${userId.replace(/[^a-zA-Z0-9._-]+/g, "-")}-${bundle.header.exportedAt.replace(/[:.]/g, "-")}.jsonl`,
+            )
+      await mkdir(dirname(outputPath), { recursive: true })
+      await writeFile(outputPath, formatMemoryExport(bundle), "utf8")
+      return {
+        userId,
+        count: bundle.header.count,
+        exportedAt: bundle.header.exportedAt,
+        outputPath,
+      }
+    },
+  })
+
+  registry.register<{ userId?: string }, UserDataEraseReport>({
+    id: "memory.erase",
+    category: "storage",
+    permissionClass: "privileged",
+    metadata: {
+      displayName: "Erase User Memories",
+      description:
+        "Tombstones every memory record of one user, compacts the journal and erases that user's decision ledger prompts.",
+      deterministic: true,
+      capabilities: ["memory", "erase", "audit"],
+    },
+    run: async ({ input, storageDir, env }) => {
+      const userId = requireUserIdInput(input.userId)
+      const report = await new MemoryStore({ storageDir, env }).eraseUser(userId)
+      return {
+        ...report,
+        ledgerPromptsErased: await new DecisionLedger({ storageDir, env }).erasePrompts(userId),
+      }
+    },
+  })
+
   return registry
 }
 
@@ -355,6 +417,13 @@ async function appendPrivilegedAuditRecord<Input, Output>(
   return record
 }
 
+function requireUserIdInput(value: unknown): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new ToolRuntimeError("INVALID_INPUT", "userId must be a non-empty string")
+  }
+  return value.trim()
+}
+
 function extractInputKeys(input: unknown): string[] {
   if (!input || typeof input !== "object" || Array.isArray(input)) {
     return []
@@ -398,8 +467,7 @@ function redactSecrets(message: string, input: unknown): string {
     }
   }
 
-  sanitized = sanitized.replace(/(token|secret|password|api[_-]?key|credential|auth)\s*[:=]\s*[^\s,;"'}]+/gi, "$1=[REDACTED]")
-  return sanitized
+  return scrubText(sanitized, { detectors: SECRET_REDACTION_DETECTORS }).text
 }
 
 function collectSensitiveValues(input: unknown): string[] {
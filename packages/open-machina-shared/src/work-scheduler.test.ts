@@ -0,0 +1,149 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { WorkScheduler, type ScheduledWorkItem } from "./work-scheduler"
+
+test("WorkScheduler persists deferred work and dispatches it once the deadline passes", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-scheduler-"))
+
+  try {
+    let now = new Date("2026-02-11T10:00:00.000Z")
+    const dispatched: ScheduledWorkItem[] = []
+    const options = { storageDir, env: {}, now: () => now, dispatch: async (item: ScheduledWorkItem) => void dispatched.push(item) }
+
+    const item = await new WorkScheduler(options).defer({
+      sessionId: "s-1",
+      title: "reindex",
+      prompt: "resume reindex",
+      priority: "medium",
+      deferUntil: "2026-02-11T10:30:00.000Z",
+    })
+    expect(item.dueAt).toBe("2026-02-11T10:30:00.000Z")
+
+    const restarted = new WorkScheduler(options)
+    expect(await restarted.tick()).toEqual([])
+
+    now = new Date("2026-02-11T10:30:00.000Z")
+    expect((await restarted.tick()).map((entry) => entry.id)).toEqual([item.id])
+    await restarted.idle()
+    expect(dispatched.map((entry) => entry.prompt)).toEqual(["resume reindex"])
+    expect((await restarted.list("s-1"))[0]).toMatchObject({ status: "done", finishedAt: "2026-02-11T10:30:00.000Z" })
+    expect(await restarted.tick()).toEqual([])
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("WorkScheduler runs parallel items up to the lane concurrency and records failures", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-scheduler-parallel-"))
+
+  try {
+    const releases: Array<() => void> = []
+    const scheduler = new WorkScheduler({
+      storageDir,
+      env: {},
+      dispatch: (item) =>
+        item.title === "broken"
+          ? Promise.reject(new Error("session gone"))
+          : new Promise<void>((resolve) => {
+              releases.push(resolve)
+            }),
+    })
+
+    const plan = { lane: "background" as const, maxConcurrency: 2 }
+    for (const title of ["a", "b", "c"]) {
+      await scheduler.enqueueParallel({ sessionId: "s-1", title, prompt: title, priority: "medium", parallelPlan: plan })
+    }
+    await scheduler.enqueueParallel({
+      sessionId: "s-1",
+      title: "broken",
+      prompt: "x",
+      priority: "high",
+      parallelPlan: { lane: "foreground", maxConcurrency: 1 },
+    })
+
+    expect((await scheduler.tick()).map((item) => item.title)).toEqual(["broken", "a", "b"])
+    expect(await scheduler.tick()).toEqual([])
+
+    releases.shift()?.()
+    await Bun.sleep(10)
+    expect((await scheduler.tick()).map((item) => item.title)).toEqual(["c"])
+
+    for (const release of releases) {
+      release()
+    }
+    await scheduler.idle()
+    const items = await scheduler.list()
+    expect(items.find((item) => item.title === "broken")).toMatchObject({ status: "failed", error: "session gone" })
+    expect(items.filter((item) => item.status === "done")).toHaveLength(3)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("WorkScheduler does not create storage until work is scheduled and recovers interrupted items", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-scheduler-recover-"))
+
+  try {
+    const rootDir = join(storageDir, "root")
+    const idle = new WorkScheduler({ storageDir: rootDir, env: {}, dispatch: async () => undefined })
+    expect(await idle.tick()).toEqual([])
+    expect(await readdir(storageDir)).toEqual([])
+
+    const crashed = new WorkScheduler({ storageDir: rootDir, env: {}, dispatch: () => new Promise<void>(() => undefined) })
+    await crashed.enqueueParallel({ sessionId: "s-1", title: "long", prompt: "long", priority: "low" })
+    await crashed.tick()
+
+    const restarted = new WorkScheduler({ storageDir: rootDir, env: {}, dispatch: async () => undefined })
+    expect(await restarted.recover()).toBe(1)
+    expect((await restarted.list())[0]?.status).toBe("pending")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("WorkScheduler claims each item once across processes and only recovers items whose owner is gone", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-scheduler-owners-"))
+
+  try {
+    const dispatched: string[] = []
+    const schedulers = Array.from(
+      { length: 3 },
+      () =>
+        new WorkScheduler({
+          storageDir,
+          env: {},
+          dispatch: async (item) => {
+            dispatched.push(item.id)
+          },
+        }),
+    )
+    const item = await schedulers[0]!.enqueueParallel({ sessionId: "s-1", title: "index", prompt: "index", priority: "low" })
+    const claims = await Promise.all(schedulers.map((scheduler) => scheduler.tick()))
+    await Promise.all(schedulers.map((scheduler) => scheduler.idle()))
+    expect(claims.flat().map((claimed) => claimed.id)).toEqual([item.id])
+    expect(dispatched).toEqual([item.id])
+
+    const elsewhere = new WorkScheduler({ storageDir, env: {}, dispatch: () => new Promise<void>(() => undefined) })
+    await elsewhere.enqueueParallel({ sessionId: "s-2", title: "build", prompt: "build", priority: "low" })
+    await elsewhere.tick()
+    const file = join(storageDir, "scheduled-work.json")
+    const state = (await Bun.file(file).json()) as { schemaVersion: 1; items: ScheduledWorkItem[] }
+    for (const candidate of state.items) {
+      if (candidate.status === "running") {
+        candidate.owner = { pid: 424242, hostname: "other-host" }
+      }
+    }
+    await Bun.write(file, JSON.stringify(state))
+
+    const live = new WorkScheduler({ storageDir, env: {}, dispatch: async () => undefined, isOwnerAlive: () => true })
+    expect(await live.recover()).toBe(0)
+    const dead = new WorkScheduler({ storageDir, env: {}, dispatch: async () => undefined, isOwnerAlive: () => false })
+    expect(await dead.recover()).toBe(1)
+    expect((await dead.list("s-2"))[0]).toMatchObject({ status: "pending" })
+    expect((await dead.list("s-2"))[0]?.owner).toBeUndefined()
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,326 @@
+import { randomUUID } from "node:crypto"
+import { readFile, rename, stat, writeFile } from "node:fs/promises"
+import os from "node:os"
+import type { OrchestrationDecision } from "./autonomy"
+import { withFileLock } from "./file-lock"
+import { MachinaStorageError, ensureStorageInitialized, getStoragePaths } from "./storage"
+import { isLocalProcessAlive, type WorkflowRunOwner } from "./workflow-runs"
+
+export type ScheduledWorkKind = "deferred" | "parallel"
+
+export type ScheduledWorkLane = "foreground" | "background"
+
+export type ScheduledWorkStatus = "pending" | "running" | "done" | "failed"
+
+export type ScheduledWorkItem = {
+  id: string
+  sessionId: string
+  kind: ScheduledWorkKind
+  title: string
+  prompt: string
+  priority: OrchestrationDecision["priority"]
+  lane: ScheduledWorkLane
+  maxConcurrency: number
+  dueAt?: string
+  status: ScheduledWorkStatus
+  owner?: WorkflowRunOwner
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  error?: string
+}
+
+export type DeferWorkInput = {
+  sessionId: string
+  title: string
+  prompt: string
+  priority: OrchestrationDecision["priority"]
+  deferUntil?: string
+}
+
+export type ParallelWorkInput = {
+  sessionId: string
+  title: string
+  prompt: string
+  priority: OrchestrationDecision["priority"]
+  parallelPlan?: OrchestrationDecision["parallelPlan"]
+}
+
+export type WorkDispatcher = (item: ScheduledWorkItem) => Promise<void>
+
+export type WorkSchedulerOptions = {
+  dispatch: WorkDispatcher
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  now?: () => Date
+  pollIntervalMs?: number
+  defaultDeferMs?: number
+  retainFinished?: number
+  isOwnerAlive?: (owner: WorkflowRunOwner) => boolean
+}
+
+type ScheduledWorkFile = {
+  schemaVersion: 1
+  items: ScheduledWorkItem[]
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 15_000
+const DEFAULT_DEFER_MS = 15 * 60_000
+const DEFAULT_RETAIN_FINISHED = 200
+const PRIORITY_RANK: Record<OrchestrationDecision["priority"], number> = { critical: 0, high: 1, medium: 2, low: 3 }
+
+export class WorkScheduler {
+  private readonly dispatch: WorkDispatcher
+  private readonly storageDir?: string
+  private readonly env: NodeJS.ProcessEnv
+  private readonly now: () => Date
+  private readonly pollIntervalMs: number
+  private readonly defaultDeferMs: number
+  private readonly retainFinished: number
+  private readonly isOwnerAlive: (owner: WorkflowRunOwner) => boolean
+  private readonly inFlight = new Map<string, Promise<void>>()
+  private lock: Promise<unknown> = Promise.resolve()
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(options: WorkSchedulerOptions) {
+    this.dispatch = options.dispatch
+    this.storageDir = options.storageDir
+    this.env = options.env ?? process.env
+    this.now = options.now ?? (() => new Date())
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+    this.defaultDeferMs = options.defaultDeferMs ?? DEFAULT_DEFER_MS
+    this.retainFinished = options.retainFinished ?? DEFAULT_RETAIN_FINISHED
+    this.isOwnerAlive = options.isOwnerAlive ?? isLocalProcessAlive
+  }
+
+  async defer(input: DeferWorkInput): Promise<ScheduledWorkItem> {
+    const now = this.now()
+    const parsed = input.deferUntil ? Date.parse(input.deferUntil) : Number.NaN
+    const dueAt = new Date(Number.isNaN(parsed) ? now.getTime() + this.defaultDeferMs : parsed).toISOString()
+    return this.add({
+      ...this.baseItem(input, now),
+      kind: "deferred",
+      lane: "foreground",
+      maxConcurrency: 1,
+      dueAt,
+    })
+  }
+
+  async enqueueParallel(input: ParallelWorkInput): Promise<ScheduledWorkItem> {
+    return this.add({
+      ...this.baseItem(input, this.now()),
+      kind: "parallel",
+      lane: input.parallelPlan?.lane ?? "background",
+      maxConcurrency: input.parallelPlan?.maxConcurrency ?? 1,
+    })
+  }
+
+  async list(sessionId?: string): Promise<ScheduledWorkItem[]> {
+    const items = await this.readItems()
+    return sessionId === undefined ? items : items.filter((item) => item.sessionId === sessionId)
+  }
+
+  async tick(): Promise<ScheduledWorkItem[]> {
+    const started = await this.mutate((items) => {
+      const now = this.now().getTime()
+      const running = new Map<string, number>()
+      for (const item of items) {
+        if (item.status === "running") {
+          running.set(laneKey(item), (running.get(laneKey(item)) ?? 0) + 1)
+        }
+      }
+
+      const ready = items
+        .filter((item) => item.status === "pending" && (item.dueAt === undefined || Date.parse(item.dueAt) <= now))
+        .sort(
+          (left, right) =>
+            laneOrder(left) - laneOrder(right) ||
+            PRIORITY_RANK[left.priority] - PRIORITY_RANK[right.priority] ||
+            left.createdAt.localeCompare(right.createdAt),
+        )
+
+      const launched: ScheduledWorkItem[] = []
+      for (const item of ready) {
+        const key = laneKey(item)
+        const active = running.get(key) ?? 0
+        if (item.kind === "parallel" && active >= item.maxConcurrency) {
+          continue
+        }
+        running.set(key, active + 1)
+        item.status = "running"
+        item.owner = { pid: process.pid, hostname: os.hostname() }
+        item.startedAt = new Date(now).toISOString()
+        launched.push({ ...item })
+      }
+      return launched
+    })
+
+    for (const item of started) {
+      const run = this.dispatch(item)
+        .then(
+          () => this.finish(item.id, "done"),
+          (error) => this.finish(item.id, "failed", error instanceof Error ? error.message : String(error)),
+        )
+        .finally(() => {
+          this.inFlight.delete(item.id)
+        })
+      this.inFlight.set(item.id, run)
+    }
+    return started
+  }
+
+  async idle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all([...this.inFlight.values()])
+    }
+  }
+
+  async recover(): Promise<number> {
+    return this.mutate((items) => {
+      let recovered = 0
+      for (const item of items) {
+        if (item.status !== "running" || this.inFlight.has(item.id)) {
+          continue
+        }
+        const ownedHere = item.owner?.pid === process.pid && item.owner.hostname === os.hostname()
+        if (item.owner && !ownedHere && this.isOwnerAlive(item.owner)) {
+          continue
+        }
+        item.status = "pending"
+        item.owner = undefined
+        item.startedAt = undefined
+        recovered += 1
+      }
+      return recovered
+    })
+  }
+
+  start(): void {
+    if (this.timer) {
+      return
+    }
+    void this.recover().catch(() => undefined)
+    this.timer = setInterval(() => {
+      void this.tick().catch(() => undefined)
+    }, this.pollIntervalMs)
+    this.timer.unref?.()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private baseItem(input: DeferWorkInput | ParallelWorkInput, now: Date) {
+    return {
+      id: `work-${randomUUID()}`,
+      sessionId: input.sessionId,
+      title: input.title,
+      prompt: input.prompt,
+      priority: input.priority,
+      status: "pending" as const,
+      createdAt: now.toISOString(),
+    }
+  }
+
+  private async add(item: ScheduledWorkItem): Promise<ScheduledWorkItem> {
+    await this.mutate((items) => {
+      items.push(item)
+    }, true)
+    return { ...item }
+  }
+
+  private async finish(id: string, status: "done" | "failed", error?: string): Promise<void> {
+    await this.mutate((items) => {
+      const item = items.find((candidate) => candidate.id === id)
+      if (!item) {
+        return
+      }
+      item.status = status
+      item.finishedAt = this.now().toISOString()
+      if (error) {
+        item.error = error
+      }
+    })
+  }
+
+  private mutate<T>(update: (items: ScheduledWorkItem[]) => T, create = false): Promise<T> {
+    const run = this.lock.then(async () => {
+      const filePath = getStoragePaths(this.storageDir, this.env).scheduledWorkFile
+      if (!create && !(await fileExists(filePath))) {
+        return update([])
+      }
+      if (create) {
+        await ensureStorageInitialized(this.storageDir, this.env)
+      }
+
+      const lock = { code: "SCHEDULED_WORK_LOCKED", message: "Scheduled work is locked by another process" }
+      return withFileLock(`${filePath}.lock`, lock, async () => {
+        const items = await this.readItems()
+        const result = update(items)
+        await writeItems(filePath, this.prune(items))
+        return result
+      })
+    })
+    this.lock = run.catch(() => undefined)
+    return run
+  }
+
+  private prune(items: ScheduledWorkItem[]): ScheduledWorkItem[] {
+    const finished = items.filter((item) => item.status === "done" || item.status === "failed")
+    if (finished.length <= this.retainFinished) {
+      return items
+    }
+    const dropped = new Set(
+      finished
+        .sort((left, right) => (left.finishedAt ?? "").localeCompare(right.finishedAt ?? ""))
+        .slice(0, finished.length - this.retainFinished)
+        .map((item) => item.id),
+    )
+    return items.filter((item) => !dropped.has(item.id))
+  }
+
+  private async readItems(): Promise<ScheduledWorkItem[]> {
+    const filePath = getStoragePaths(this.storageDir, this.env).scheduledWorkFile
+    if (!(await fileExists(filePath))) {
+      return []
+    }
+
+    try {
+      const parsed = JSON.parse(await readFile(filePath, "utf8")) as Partial<ScheduledWorkFile>
+      if (parsed.schemaVersion !== 1 || !Array.isArray(parsed.items)) {
+        throw new Error("unsupported schema")
+      }
+      return parsed.items
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new MachinaStorageError("SCHEDULED_WORK_PARSE_FAILED", `Invalid scheduled work file: ${message}`)
+    }
+  }
+}
+
+function laneKey(item: ScheduledWorkItem): string {
+  return `${item.sessionId}:${item.kind}:${item.lane}`
+}
+
+function laneOrder(item: ScheduledWorkItem): number {
+  return item.lane === "foreground" ? 0 : 1
+}
+
+async function writeItems(filePath: string, items: ScheduledWorkItem[]): Promise<void> {
+  const payload: ScheduledWorkFile = { schemaVersion: 1, items }
+  const tempPath = `${filePath}.tmp-${Date.now()}-${Math.random().toString(16).slice(2)}`
+  await writeFile(tempPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8")
+  await rename(tempPath, filePath)
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,158 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { WorkflowEngine, defineWorkflowSteps } from "./workflow"
+import { WorkflowRunStore } from "./workflow-runs"
+
+test("WorkflowEngine persists queued, running and final states with globally unique operation ids", async () => {
+  const storageDir = await mkdtemp(path.join(os.tmpdir(), "open-machina-workflow-runs-"))
+  const store = new WorkflowRunStore({ storageDir })
+  const engine = new WorkflowEngine({ store })
+  engine.register<{ fail: boolean }, string>({
+    name: "report.build",
+    run: async ({ payload }) => {
+      if (payload.fail) {
+        throw new Error("REPORT_FAILED: missing data")
+      }
+      return "ok"
+    },
+    persistPayload: (payload) => payload,
+  })
+
+  const first = await engine.run<{ fail: boolean }, string>("report.build", { payload: { fail: false } })
+  const second = await engine.run("report.build", { payload: { fail: true } })
+  expect(first.operationId).toMatch(/^op-report-build-[0-9a-f-]{36}$/)
+  expect(second.operationId).not.toBe(first.operationId)
+
+  const completed = await store.get(first.operationId)
+  expect(completed?.status).toBe("completed")
+  expect(completed?.input).toEqual({ fail: false })
+  expect(completed?.transitions.map((entry) => entry.status)).toEqual(["queued", "running", "completed"])
+  expect(completed?.finishedAt).toBeDefined()
+  expect((await store.list({ status: "failed" })).map((run) => run.error)).toEqual(["REPORT_FAILED: missing data"])
+  await expect(store.transition(first.operationId, "running")).rejects.toThrow("already completed")
+})
+
+test("WorkflowEngine reports run store write failures in the run result", async () => {
+  const storageDir = await mkdtemp(path.join(os.tmpdir(), "open-machina-workflow-unwritable-"))
+  const blocked = path.join(storageDir, "not-a-dir")
+  await writeFile(blocked, "")
+  const engine = new WorkflowEngine({ store: new WorkflowRunStore({ storageDir: blocked }) })
+  engine.register<undefined, string>({ name: "report.build", run: async () => "ok" })
+
+  const execution = await engine.run<undefined, string>("report.build", { payload: undefined })
+  expect(execution.status).toBe("completed")
+  expect(execution.result).toBe("ok")
+  expect(execution.persistErrors?.[0]).toContain("ENOTDIR")
+  expect(execution.persistErrors?.at(-1)).toContain("WORKFLOW_RUN_NOT_FOUND")
+})
+
+test("WorkflowEngine.recover marks runs of dead owners interrupted and resumes workflows that opt in", async () => {
+  const storageDir = await mkdtemp(path.join(os.tmpdir(), "open-machina-workflow-recover-"))
+  const dead = new Set([41, 42])
+  const store = new WorkflowRunStore({ storageDir, isOwnerAlive: (owner) => !dead.has(owner.pid) })
+  const seed = async (operationId: string, workflowName: string, pid: number) => {
+    await writeFile(
+      path.join(storageDir, "workflow-runs", `${operationId}.json`),
+      JSON.stringify({
+        schemaVersion: 1,
+        operationId,
+        workflowName,
+        status: "running",
+        queuedAt: "2026-02-11T10:00:00.000Z",
+        updatedAt: "2026-02-11T10:00:00.000Z",
+        owner: { pid, hostname: "worker-1" },
+        transitions: [{ status: "queued", at: "2026-02-11T10:00:00.000Z" }],
+        input: { batch: 7 },
+      }),
+    )
+  }
+
+  await store.create({ operationId: "op-bootstrap", workflowName: "noop" })
+  await store.transition("op-bootstrap", "completed")
+  await seed("op-index-a", "index.rebuild", 41)
+  await seed("op-export-b", "export.send", 42)
+  await seed("op-index-c", "index.rebuild", 43)
+  await writeFile(path.join(storageDir, "workflow-runs", "op-broken.json"), '{ "schemaVersion": 1, "operat')
+
+  const resumedBatches: number[] = []
+  const engine = new WorkflowEngine({ store })
+  engine.register<{ batch: number }, number>({
+    name: "index.rebuild",
+    run: async ({ payload }) => {
+      resumedBatches.push(payload.batch)
+      return payload.batch
+    },
+    resume: (record) => record.input as { batch: number },
+  })
+  engine.register<{ batch: number }, number>({ name: "export.send", run: async ({ payload }) => payload.batch })
+
+  const recovery = await engine.recover({ resume: true })
+  expect(recovery.interrupted.map((run) => run.operationId).sort()).toEqual(["op-export-b", "op-index-a"])
+  expect(recovery.corrupt).toEqual([
+    { operationId: "op-broken", error: expect.stringContaining("Invalid workflow run record op-broken") },
+  ])
+  expect((await store.list()).some((run) => run.operationId === "op-broken")).toBe(false)
+  expect(recovery.interrupted.every((run) => run.status === "failed" && run.interrupted === true)).toBe(true)
+  expect(recovery.interrupted[0]?.error).toContain("WORKFLOW_INTERRUPTED: owner process")
+  expect(resumedBatches).toEqual([7])
+  expect(recovery.resumed).toHaveLength(1)
+  expect((await store.get(recovery.resumed[0]!.operationId))?.resumeOf).toBe("op-index-a")
+  expect((await store.get("op-index-c"))?.status).toBe("running")
+  expect((await engine.recover()).interrupted).toEqual([])
+})
+
+test("step workflows checkpoint after each step and resume failed runs from the last completed step", async () => {
+  const storageDir = await mkdtemp(path.join(os.tmpdir(), "open-machina-workflow-steps-"))
+  const store = new WorkflowRunStore({ storageDir })
+  const engine = new WorkflowEngine({ store })
+  const calls: string[] = []
+  let failLoad = true
+  engine.register<{ rows: number[] }, number>({
+    name: "etl.sum",
+    steps: defineWorkflowSteps<{ rows: number[] }, { extracted: number[]; total: number }, number>({
+      initialState: () => ({ extracted: [], total: 0 }),
+      steps: [
+        {
+          name: "extract",
+          run: async (state, { payload }) => {
+            calls.push("extract")
+            return { ...state, extracted: payload.rows }
+          },
+        },
+        {
+          name: "load",
+          run: async (state) => {
+            calls.push("load")
+            if (failLoad) {
+              throw new Error("LOAD_FAILED: sink offline")
+            }
+            return { ...state, total: state.extracted.reduce((sum, row) => sum + row, 0) }
+          },
+        },
+      ],
+      result: (state) => state.total,
+    }),
+    persistPayload: (payload) => payload,
+    resume: (record) => record.input as { rows: number[] },
+  })
+
+  const failed = await engine.run<{ rows: number[] }, number>("etl.sum", { payload: { rows: [1, 2, 3] } })
+  expect(failed.status).toBe("failed")
+  expect(failed.completedSteps).toEqual(["extract"])
+  expect((await store.get(failed.operationId))?.checkpoint).toMatchObject({
+    completedSteps: ["extract"],
+    state: { extracted: [1, 2, 3], total: 0 },
+  })
+
+  failLoad = false
+  const resumed = await engine.resume<{ rows: number[] }, number>(failed.operationId)
+  expect(resumed.status).toBe("completed")
+  expect(resumed.result).toBe(6)
+  expect(resumed.completedSteps).toEqual(["extract", "load"])
+  expect(calls).toEqual(["extract", "load", "load"])
+  expect((await store.get(resumed.operationId))?.resumeOf).toBe(failed.operationId)
+  await expect(engine.resume(resumed.operationId)).rejects.toThrow("only failed or cancelled runs can resume")
+  expect(() => engine.register({ name: "empty" })).toThrow("exactly one of run or steps")
+})
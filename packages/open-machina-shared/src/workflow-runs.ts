@@ -0,0 +1,250 @@
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises"
+import os from "node:os"
+import { join } from "node:path"
+import { MachinaStorageError, getStoragePaths } from "./storage"
+import type { WorkflowStatus } from "./workflow"
+
+export type WorkflowRunState = "queued" | "running" | WorkflowStatus
+
+export type WorkflowRunTransition = {
+  status: WorkflowRunState
+  at: string
+}
+
+export type WorkflowRunOwner = {
+  pid: number
+  hostname: string
+}
+
+export type WorkflowCheckpoint = {
+  completedSteps: string[]
+  state: unknown
+  at: string
+}
+
+export type WorkflowRunRecord = {
+  schemaVersion: 1
+  operationId: string
+  workflowName: string
+  status: WorkflowRunState
+  queuedAt: string
+  startedAt?: string
+  finishedAt?: string
+  updatedAt: string
+  owner: WorkflowRunOwner
+  transitions: WorkflowRunTransition[]
+  input?: unknown
+  error?: string
+  interrupted?: boolean
+  resumeOf?: string
+  checkpoint?: WorkflowCheckpoint
+}
+
+export type WorkflowRunQuery = {
+  workflowName?: string
+  status?: WorkflowRunState
+  limit?: number
+}
+
+export type WorkflowRunStoreOptions = {
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  now?: () => Date
+  isOwnerAlive?: (owner: WorkflowRunOwner) => boolean
+}
+
+export type WorkflowRunCorruption = {
+  operationId: string
+  error: string
+}
+
+export type WorkflowRunScan = {
+  records: WorkflowRunRecord[]
+  corrupt: WorkflowRunCorruption[]
+}
+
+export type WorkflowRunPatch = Partial<Pick<WorkflowRunRecord, "error" | "interrupted">>
+
+export const WORKFLOW_RUN_STATES: WorkflowRunState[] = ["queued", "running", "completed", "failed", "cancelled"]
+
+const TERMINAL_STATES = new Set<WorkflowRunState>(["completed", "failed", "cancelled"])
+
+export class WorkflowRunStore {
+  private readonly storageDir?: string
+  private readonly env: NodeJS.ProcessEnv
+  private readonly now: () => Date
+  private readonly isOwnerAlive: (owner: WorkflowRunOwner) => boolean
+
+  constructor(options: WorkflowRunStoreOptions = {}) {
+    this.storageDir = options.storageDir
+    this.env = options.env ?? process.env
+    this.now = options.now ?? (() => new Date())
+    this.isOwnerAlive = options.isOwnerAlive ?? isLocalProcessAlive
+  }
+
+  async create(input: {
+    operationId: string
+    workflowName: string
+    input?: unknown
+    resumeOf?: string
+    checkpoint?: WorkflowCheckpoint
+  }): Promise<WorkflowRunRecord> {
+    const at = this.now().toISOString()
+    const record: WorkflowRunRecord = {
+      schemaVersion: 1,
+      operationId: input.operationId,
+      workflowName: input.workflowName,
+      status: "queued",
+      queuedAt: at,
+      updatedAt: at,
+      owner: { pid: process.pid, hostname: os.hostname() },
+      transitions: [{ status: "queued", at }],
+      ...(input.input !== undefined ? { input: input.input } : {}),
+      ...(input.resumeOf ? { resumeOf: input.resumeOf } : {}),
+      ...(input.checkpoint ? { checkpoint: input.checkpoint } : {}),
+    }
+    await this.write(record)
+    return record
+  }
+
+  async transition(operationId: string, status: WorkflowRunState, patch: WorkflowRunPatch = {}): Promise<WorkflowRunRecord> {
+    const record = await this.getActive(operationId)
+    const at = this.now().toISOString()
+    const next: WorkflowRunRecord = {
+      ...record,
+      ...patch,
+      status,
+      updatedAt: at,
+      transitions: [...record.transitions, { status, at }],
+      ...(status === "running" ? { startedAt: at } : {}),
+      ...(TERMINAL_STATES.has(status) ? { finishedAt: at } : {}),
+    }
+    await this.write(next)
+    return next
+  }
+
+  async checkpoint(operationId: string, checkpoint: Omit<WorkflowCheckpoint, "at">): Promise<WorkflowRunRecord> {
+    const record = await this.getActive(operationId)
+    const at = this.now().toISOString()
+    const next: WorkflowRunRecord = {
+      ...record,
+      updatedAt: at,
+      checkpoint: { completedSteps: [...checkpoint.completedSteps], state: checkpoint.state, at },
+    }
+    await this.write(next)
+    return next
+  }
+
+  async get(operationId: string): Promise<WorkflowRunRecord | null> {
+    const filePath = this.filePath(operationId)
+    let raw: string
+    try {
+      raw = await readFile(filePath, "utf8")
+    } catch {
+      return null
+    }
+    return parseRecord(raw, operationId)
+  }
+
+  async list(query: WorkflowRunQuery = {}): Promise<WorkflowRunRecord[]> {
+    return (await this.scan(query)).records
+  }
+
+  async scan(query: WorkflowRunQuery = {}): Promise<WorkflowRunScan> {
+    const dir = getStoragePaths(this.storageDir, this.env).workflowRunsDir
+    let names: string[]
+    try {
+      names = (await readdir(dir)).filter((name) => name.endsWith(".json"))
+    } catch {
+      return { records: [], corrupt: [] }
+    }
+
+    const records: WorkflowRunRecord[] = []
+    const corrupt: WorkflowRunCorruption[] = []
+    for (const name of names) {
+      const operationId = name.slice(0, -".json".length)
+      let record: WorkflowRunRecord
+      try {
+        record = parseRecord(await readFile(join(dir, name), "utf8"), operationId)
+      } catch (error) {
+        corrupt.push({ operationId, error: error instanceof Error ? error.message : String(error) })
+        continue
+      }
+      if (query.workflowName !== undefined && record.workflowName !== query.workflowName) {
+        continue
+      }
+      if (query.status !== undefined && record.status !== query.status) {
+        continue
+      }
+      records.push(record)
+    }
+
+    records.sort((left, right) => left.queuedAt.localeCompare(right.queuedAt) || left.operationId.localeCompare(right.operationId))
+    const limit = typeof query.limit === "number" && query.limit > 0 ? Math.floor(query.limit) : records.length
+    corrupt.sort((left, right) => left.operationId.localeCompare(right.operationId))
+    return { records: records.slice(Math.max(0, records.length - limit)), corrupt }
+  }
+
+  async findInterrupted(activeIds: ReadonlySet<string> = new Set(), records?: WorkflowRunRecord[]): Promise<WorkflowRunRecord[]> {
+    return (records ?? (await this.list())).filter((record) => {
+      if (TERMINAL_STATES.has(record.status) || activeIds.has(record.operationId)) {
+        return false
+      }
+      if (record.owner.pid === process.pid && record.owner.hostname === os.hostname()) {
+        return true
+      }
+      return !this.isOwnerAlive(record.owner)
+    })
+  }
+
+  private async getActive(operationId: string): Promise<WorkflowRunRecord> {
+    const record = await this.get(operationId)
+    if (!record) {
+      throw new MachinaStorageError("WORKFLOW_RUN_NOT_FOUND", `Unknown workflow run: ${operationId}`)
+    }
+    if (TERMINAL_STATES.has(record.status)) {
+      throw new MachinaStorageError(
+        "WORKFLOW_RUN_TRANSITION_INVALID",
+        `Workflow run ${operationId} is already ${record.status}`,
+      )
+    }
+    return record
+  }
+
+  private filePath(operationId: string): string {
+    return join(getStoragePaths(this.storageDir, this.env).workflowRunsDir, `${operationId}.json`)
+  }
+
+  private async write(record: WorkflowRunRecord): Promise<void> {
+    const filePath = this.filePath(record.operationId)
+    await mkdir(getStoragePaths(this.storageDir, this.env).workflowRunsDir, { recursive: true })
+    const tempPath = `${filePath}.tmp-${Date.now()}-${Math.random().toString(16).slice(2)}`
+    await writeFile(tempPath, `${JSON.stringify(record, null, 2)}\n`, "utf8")
+    await rename(tempPath, filePath)
+  }
+}
+
+function parseRecord(raw: string, operationId: string): WorkflowRunRecord {
+  try {
+    const parsed = JSON.parse(raw) as Partial<WorkflowRunRecord>
+    if (parsed.schemaVersion !== 1 || typeof parsed.operationId !== "string" || !WORKFLOW_RUN_STATES.includes(parsed.status!)) {
+      throw new Error("unsupported schema")
+    }
+    return parsed as WorkflowRunRecord
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new MachinaStorageError("WORKFLOW_RUN_PARSE_FAILED", `Invalid workflow run record ${operationId}: ${message}`)
+  }
+}
+
+export function isLocalProcessAlive(owner: WorkflowRunOwner): boolean {
+  if (owner.hostname !== os.hostname()) {
+    return true
+  }
+  try {
+    process.kill(owner.pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM"
+  }
+}
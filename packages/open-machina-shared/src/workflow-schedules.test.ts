@@ -0,0 +1,157 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, readdir, rm, utimes, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { WorkflowEngine } from "./workflow"
+import { WorkflowRunStore } from "./workflow-runs"
+import { WorkflowScheduler } from "./workflow-schedules"
+
+function createEngine(calls: Array<{ workflow: string; payload: unknown }>): WorkflowEngine {
+  const engine = new WorkflowEngine()
+  for (const name of ["report.daily", "cache.warm"]) {
+    engine.register<unknown, string>({
+      name,
+      run: async ({ payload }) => {
+        calls.push({ workflow: name, payload })
+        return "ok"
+      },
+    })
+  }
+  return engine
+}
+
+test("WorkflowScheduler persists schedules and fires due runs through the engine", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-workflow-schedules-"))
+
+  try {
+    let now = new Date("2026-02-11T08:30:00.000Z")
+    const calls: Array<{ workflow: string; payload: unknown }> = []
+    const scheduler = new WorkflowScheduler({ engine: createEngine(calls), storageDir, now: () => now })
+
+    const daily = await scheduler.add({ id: "daily-report", workflowName: "report.daily", cron: "0 9 * * *", input: { region: "eu" } })
+    expect(daily.nextFireAt).toBe("2026-02-11T09:00:00.000Z")
+    await expect(scheduler.add({ id: "daily-report", workflowName: "report.daily", cron: "@hourly" })).rejects.toThrow("already exists")
+    await expect(scheduler.add({ workflowName: "missing", cron: "@hourly" })).rejects.toThrow("Unknown workflow")
+    await expect(scheduler.add({ workflowName: "cache.warm", cron: "99 * * * *" })).rejects.toThrow("minute field")
+
+    expect(await scheduler.tick()).toEqual([])
+    now = new Date("2026-02-11T09:00:20.000Z")
+    const [firing] = await scheduler.tick()
+    expect(firing).toMatchObject({ scheduleId: "daily-report", scheduledFor: "2026-02-11T09:00:00.000Z", status: "completed" })
+    expect(calls).toEqual([{ workflow: "report.daily", payload: { region: "eu", storageDir, env: process.env } }])
+    expect(await scheduler.tick()).toEqual([])
+
+    const reloaded = new WorkflowScheduler({ engine: createEngine([]), storageDir, now: () => now })
+    const [stored] = await reloaded.list()
+    expect(stored?.nextFireAt).toBe("2026-02-12T09:00:00.000Z")
+    expect(stored?.lastRun).toMatchObject({ operationId: firing!.operationId, status: "completed" })
+    expect((await new WorkflowRunStore({ storageDir }).get(firing!.operationId))?.workflowName).toBe("report.daily")
+
+    expect((await reloaded.remove("daily-report")).id).toBe("daily-report")
+    expect(await reloaded.list()).toEqual([])
+    await expect(reloaded.remove("daily-report")).rejects.toThrow("Unknown schedule")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("missed runs after downtime are replayed with catch-up and dropped with skip", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-workflow-schedules-missed-"))
+
+  try {
+    let now = new Date("2026-02-11T00:00:00.000Z")
+    const calls: Array<{ workflow: string; payload: unknown }> = []
+    const scheduler = new WorkflowScheduler({ engine: createEngine(calls), storageDir, now: () => now, maxCatchUp: 3 })
+    await scheduler.add({ id: "warm", workflowName: "cache.warm", cron: "@hourly", missedRuns: "catch-up" })
+    await scheduler.add({ id: "report", workflowName: "report.daily", cron: "@hourly", missedRuns: "skip" })
+
+    now = new Date("2026-02-11T05:30:00.000Z")
+    const firings = await scheduler.tick()
+    expect(firings.filter((entry) => entry.scheduleId === "warm").map((entry) => entry.scheduledFor)).toEqual([
+      "2026-02-11T03:00:00.000Z",
+      "2026-02-11T04:00:00.000Z",
+      "2026-02-11T05:00:00.000Z",
+    ])
+    expect(firings.filter((entry) => entry.scheduleId === "report")).toEqual([])
+    const schedules = await scheduler.list()
+    expect(schedules.map((schedule) => [schedule.id, schedule.skippedRuns, schedule.nextFireAt])).toEqual([
+      ["warm", 2, "2026-02-11T06:00:00.000Z"],
+      ["report", 5, "2026-02-11T06:00:00.000Z"],
+    ])
+    expect(calls).toHaveLength(3)
+
+    now = new Date("2026-02-11T06:00:30.000Z")
+    const onTime = await scheduler.tick()
+    expect(onTime.map((entry) => [entry.scheduleId, entry.scheduledFor])).toEqual([
+      ["warm", "2026-02-11T06:00:00.000Z"],
+      ["report", "2026-02-11T06:00:00.000Z"],
+    ])
+    expect((await scheduler.list()).find((schedule) => schedule.id === "report")?.skippedRuns).toBe(5)
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("overlapping schedulers claim each occurrence once through the schedules file lock", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-workflow-schedules-lock-"))
+
+  try {
+    let now = new Date("2026-02-11T08:30:00.000Z")
+    const calls: Array<{ workflow: string; payload: unknown }> = []
+    const options = { storageDir, now: () => now, lockStaleMs: 500 }
+    await new WorkflowScheduler({ ...options, engine: createEngine(calls) }).add({ id: "warm", workflowName: "cache.warm", cron: "@hourly" })
+
+    now = new Date("2026-02-11T09:00:10.000Z")
+    const partial = new WorkflowEngine()
+    partial.register({ name: "report.daily", run: async () => "ok" })
+    expect(await new WorkflowScheduler({ ...options, engine: partial }).tick()).toEqual([])
+
+    const ticks = await Promise.all(
+      Array.from({ length: 3 }, () => new WorkflowScheduler({ ...options, engine: createEngine(calls) }).tick()),
+    )
+    expect(ticks.flat().map((firing) => firing.scheduledFor)).toEqual(["2026-02-11T09:00:00.000Z"])
+    expect(calls).toHaveLength(1)
+
+    const lockPath = join(storageDir, "workflow-schedules.json.lock")
+    await writeFile(lockPath, JSON.stringify({ token: "other", pid: 1 }))
+    const blocked = new WorkflowScheduler({ ...options, engine: createEngine(calls), lockTimeoutMs: 50, lockStaleMs: 60_000 })
+    await expect(blocked.remove("warm")).rejects.toThrow("locked by another process")
+
+    await utimes(lockPath, new Date(Date.now() - 1_000), new Date(Date.now() - 1_000))
+    expect((await new WorkflowScheduler({ ...options, engine: createEngine(calls) }).remove("warm")).id).toBe("warm")
+    expect(await readdir(storageDir)).not.toContain("workflow-schedules.json.lock")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
+
+test("WorkflowScheduler recovers runs left running by an exited process when it starts", async () => {
+  const storageDir = await mkdtemp(join(tmpdir(), "machina-workflow-schedules-recover-"))
+
+  try {
+    const crashed = new WorkflowRunStore({ storageDir })
+    for (const [operationId, pid] of [
+      ["op-stale", 1001],
+      ["op-live", 1002],
+    ] as const) {
+      await crashed.create({ operationId, workflowName: "cache.warm" })
+      const record = await crashed.transition(operationId, "running")
+      await writeFile(join(storageDir, "workflow-runs", `${operationId}.json`), JSON.stringify({ ...record, owner: { pid, hostname: "worker-1" } }))
+    }
+
+    const runStore = new WorkflowRunStore({ storageDir, isOwnerAlive: (owner) => owner.pid === 1002 })
+    const scheduler = new WorkflowScheduler({ engine: createEngine([]), storageDir, runStore })
+    scheduler.start()
+    scheduler.stop()
+
+    let stale = await runStore.get("op-stale")
+    for (let attempt = 0; attempt < 100 && stale?.status === "running"; attempt += 1) {
+      await Bun.sleep(10)
+      stale = await runStore.get("op-stale")
+    }
+    expect(stale).toMatchObject({ status: "failed", interrupted: true })
+    expect((await runStore.get("op-live"))?.status).toBe("running")
+  } finally {
+    await rm(storageDir, { recursive: true, force: true })
+  }
+})
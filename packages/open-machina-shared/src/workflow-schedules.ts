@@ -0,0 +1,327 @@
+import { randomUUID } from "node:crypto"
+import { readFile, rename, stat, writeFile } from "node:fs/promises"
+import { nextCronTime, parseCronExpression } from "./cron"
+import { withFileLock } from "./file-lock"
+import { MachinaStorageError, ensureStorageInitialized, getStoragePaths } from "./storage"
+import type { WorkflowEngine, WorkflowRecoveryResult, WorkflowStatus } from "./workflow"
+import { WorkflowRunStore } from "./workflow-runs"
+
+export type MissedRunPolicy = "catch-up" | "skip"
+
+export type WorkflowScheduleLastRun = {
+  operationId: string
+  status: WorkflowStatus
+  scheduledFor: string
+  finishedAt: string
+  error?: string
+}
+
+export type WorkflowSchedule = {
+  id: string
+  workflowName: string
+  cron: string
+  missedRuns: MissedRunPolicy
+  input?: unknown
+  createdAt: string
+  nextFireAt: string
+  lastFireAt?: string
+  skippedRuns: number
+  lastRun?: WorkflowScheduleLastRun
+}
+
+export type AddWorkflowScheduleInput = {
+  workflowName: string
+  cron: string
+  missedRuns?: MissedRunPolicy
+  id?: string
+  input?: unknown
+}
+
+export type WorkflowScheduleFiring = {
+  scheduleId: string
+  workflowName: string
+  scheduledFor: string
+  operationId: string
+  status: WorkflowStatus
+  error?: string
+}
+
+export type WorkflowSchedulerOptions = {
+  engine: WorkflowEngine
+  storageDir?: string
+  env?: NodeJS.ProcessEnv
+  now?: () => Date
+  runStore?: WorkflowRunStore
+  pollIntervalMs?: number
+  maxCatchUp?: number
+  lockTimeoutMs?: number
+  lockStaleMs?: number
+  payload?: (schedule: WorkflowSchedule) => unknown
+}
+
+type WorkflowSchedulesFile = {
+  schemaVersion: 1
+  schedules: WorkflowSchedule[]
+}
+
+type ClaimedSchedule = {
+  schedule: WorkflowSchedule
+  occurrences: string[]
+}
+
+export const MISSED_RUN_POLICIES: MissedRunPolicy[] = ["catch-up", "skip"]
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000
+const DEFAULT_MAX_CATCH_UP = 24
+
+export class WorkflowScheduler {
+  private readonly engine: WorkflowEngine
+  private readonly storageDir?: string
+  private readonly env: NodeJS.ProcessEnv
+  private readonly now: () => Date
+  private readonly runStore: WorkflowRunStore
+  private readonly pollIntervalMs: number
+  private readonly maxCatchUp: number
+  private readonly lockTimeoutMs?: number
+  private readonly lockStaleMs?: number
+  private readonly payload: (schedule: WorkflowSchedule) => unknown
+  private lock: Promise<unknown> = Promise.resolve()
+  private ticking: Promise<WorkflowScheduleFiring[]> | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(options: WorkflowSchedulerOptions) {
+    this.engine = options.engine
+    this.storageDir = options.storageDir
+    this.env = options.env ?? process.env
+    this.now = options.now ?? (() => new Date())
+    this.runStore = options.runStore ?? new WorkflowRunStore({ storageDir: options.storageDir, env: this.env })
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+    this.maxCatchUp = Math.max(1, options.maxCatchUp ?? DEFAULT_MAX_CATCH_UP)
+    this.lockTimeoutMs = options.lockTimeoutMs
+    this.lockStaleMs = options.lockStaleMs
+    this.payload =
+      options.payload ??
+      ((schedule) => ({ ...(isRecord(schedule.input) ? schedule.input : {}), storageDir: this.storageDir, env: this.env }))
+  }
+
+  async add(input: AddWorkflowScheduleInput): Promise<WorkflowSchedule> {
+    if (!this.engine.listWorkflows().includes(input.workflowName)) {
+      throw new MachinaStorageError("SCHEDULE_WORKFLOW_UNKNOWN", `Unknown workflow: ${input.workflowName}`)
+    }
+    const missedRuns = input.missedRuns ?? "skip"
+    if (!MISSED_RUN_POLICIES.includes(missedRuns)) {
+      throw new MachinaStorageError("SCHEDULE_POLICY_INVALID", `Missed-run policy must be ${MISSED_RUN_POLICIES.join(" or ")}`)
+    }
+
+    const cron = parseCronExpression(input.cron)
+    const now = this.now()
+    const schedule: WorkflowSchedule = {
+      id: input.id?.trim() || `schedule-${randomUUID()}`,
+      workflowName: input.workflowName,
+      cron: cron.source,
+      missedRuns,
+      ...(input.input !== undefined ? { input: input.input } : {}),
+      createdAt: now.toISOString(),
+      nextFireAt: nextCronTime(cron, now).toISOString(),
+      skippedRuns: 0,
+    }
+
+    await this.mutate((schedules) => {
+      if (schedules.some((candidate) => candidate.id === schedule.id)) {
+        throw new MachinaStorageError("SCHEDULE_EXISTS", `Schedule already exists: ${schedule.id}`)
+      }
+      schedules.push(schedule)
+    }, true)
+    return { ...schedule }
+  }
+
+  async list(workflowName?: string): Promise<WorkflowSchedule[]> {
+    const schedules = await this.readSchedules()
+    return workflowName === undefined ? schedules : schedules.filter((schedule) => schedule.workflowName === workflowName)
+  }
+
+  async remove(id: string): Promise<WorkflowSchedule> {
+    return this.mutate((schedules) => {
+      const index = schedules.findIndex((schedule) => schedule.id === id)
+      if (index < 0) {
+        throw new MachinaStorageError("SCHEDULE_NOT_FOUND", `Unknown schedule: ${id}`)
+      }
+      return schedules.splice(index, 1)[0]!
+    })
+  }
+
+  tick(): Promise<WorkflowScheduleFiring[]> {
+    if (!this.ticking) {
+      this.ticking = this.fireDue().finally(() => {
+        this.ticking = null
+      })
+    }
+    return this.ticking
+  }
+
+  recover(): Promise<WorkflowRecoveryResult> {
+    return this.engine.recover({ store: this.runStore, env: this.env, resume: true })
+  }
+
+  start(): void {
+    if (this.timer) {
+      return
+    }
+    void this.recover().catch(() => undefined)
+    this.timer = setInterval(() => {
+      void this.tick().catch(() => undefined)
+    }, this.pollIntervalMs)
+    this.timer.unref?.()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async fireDue(): Promise<WorkflowScheduleFiring[]> {
+    const known = new Set(this.engine.listWorkflows())
+    const claimed = await this.mutate((schedules) => {
+      const now = this.now()
+      const due: ClaimedSchedule[] = []
+      for (const schedule of schedules) {
+        if (!known.has(schedule.workflowName)) {
+          continue
+        }
+        const { occurrences, dropped } = collectOccurrences(schedule, now, this.maxCatchUp)
+        if (occurrences.length === 0) {
+          continue
+        }
+        const latest = occurrences.at(-1)!
+        const onTime = now.getTime() - Date.parse(latest) <= this.pollIntervalMs
+        const fire = schedule.missedRuns === "catch-up" ? occurrences : onTime ? [latest] : []
+        schedule.skippedRuns += dropped + occurrences.length - fire.length
+        schedule.lastFireAt = latest
+        schedule.nextFireAt = nextCronTime(schedule.cron, now).toISOString()
+        if (fire.length > 0) {
+          due.push({ schedule: { ...schedule }, occurrences: fire })
+        }
+      }
+      return due
+    })
+
+    const firings: WorkflowScheduleFiring[] = []
+    for (const { schedule, occurrences } of claimed) {
+      for (const scheduledFor of occurrences) {
+        const execution = await this.engine.run(schedule.workflowName, {
+          payload: this.payload(schedule),
+          store: this.runStore,
+        })
+        const firing: WorkflowScheduleFiring = {
+          scheduleId: schedule.id,
+          workflowName: schedule.workflowName,
+          scheduledFor,
+          operationId: execution.operationId,
+          status: execution.status,
+          ...(execution.error ? { error: execution.error } : {}),
+        }
+        firings.push(firing)
+        await this.mutate((schedules) => {
+          const current = schedules.find((candidate) => candidate.id === schedule.id)
+          if (current) {
+            current.lastRun = {
+              operationId: firing.operationId,
+              status: firing.status,
+              scheduledFor,
+              finishedAt: execution.finishedAt,
+              ...(firing.error ? { error: firing.error } : {}),
+            }
+          }
+        })
+      }
+    }
+    return firings
+  }
+
+  private mutate<T>(update: (schedules: WorkflowSchedule[]) => T, create = false): Promise<T> {
+    const run = this.lock.then(async () => {
+      const filePath = getStoragePaths(this.storageDir, this.env).workflowSchedulesFile
+      if (!create && !(await fileExists(filePath))) {
+        return update([])
+      }
+      if (create) {
+        await ensureStorageInitialized(this.storageDir, this.env)
+      }
+
+      const lock = {
+        code: "SCHEDULE_LOCKED",
+        message: "Workflow schedules are locked by another process",
+        timeoutMs: this.lockTimeoutMs,
+        staleMs: this.lockStaleMs,
+      }
+      return withFileLock(`${filePath}.lock`, lock, async () => {
+        const schedules = await this.readSchedules()
+        const result = update(schedules)
+        await writeSchedules(filePath, schedules)
+        return result
+      })
+    })
+    this.lock = run.catch(() => undefined)
+    return run
+  }
+
+  private async readSchedules(): Promise<WorkflowSchedule[]> {
+    const filePath = getStoragePaths(this.storageDir, this.env).workflowSchedulesFile
+    if (!(await fileExists(filePath))) {
+      return []
+    }
+
+    try {
+      const parsed = JSON.parse(await readFile(filePath, "utf8")) as Partial<WorkflowSchedulesFile>
+      if (parsed.schemaVersion !== 1 || !Array.isArray(parsed.schedules)) {
+        throw new Error("unsupported schema")
+      }
+      return parsed.schedules
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new MachinaStorageError("SCHEDULE_PARSE_FAILED", `Invalid workflow schedules file: ${message}`)
+    }
+  }
+}
+
+function collectOccurrences(schedule: WorkflowSchedule, now: Date, limit: number): { occurrences: string[]; dropped: number } {
+  const cron = parseCronExpression(schedule.cron)
+  const occurrences: string[] = []
+  let dropped = 0
+  let cursor = new Date(schedule.lastFireAt ?? schedule.createdAt)
+  while (true) {
+    const next = nextCronTime(cron, cursor)
+    if (next.getTime() > now.getTime()) {
+      break
+    }
+    occurrences.push(next.toISOString())
+    if (occurrences.length > limit) {
+      occurrences.shift()
+      dropped += 1
+    }
+    cursor = next
+  }
+  return { occurrences, dropped }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+async function writeSchedules(filePath: string, schedules: WorkflowSchedule[]): Promise<void> {
+  const payload: WorkflowSchedulesFile = { schemaVersion: 1, schedules }
+  const tempPath = `${filePath}.tmp-${Date.now()}-${Math.random().toString(16).slice(2)}`
+  await writeFile(tempPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8")
+  await rename(tempPath, filePath)
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
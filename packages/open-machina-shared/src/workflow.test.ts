@@ -0,0 +1,250 @@
+import { expect, test } from "bun:test"
+import { ChannelRuntimeError } from "./channel"
+import { MachinaStorageError } from "./storage"
+import { WorkflowEngine, defineWorkflowSteps, sleepWithSignal } from "./workflow"
+
+test("step retries back off on retryable codes and every attempt reaches the run result and log", async () => {
+  const engine = new WorkflowEngine({ random: () => 0.5 })
+  let fetches = 0
+  engine.register<{ channel: string }, string>({
+    name: "digest.send",
+    retry: { maxAttempts: 2, baseDelayMs: 1 },
+    steps: defineWorkflowSteps<{ channel: string }, { items: number; sentTo?: string }, string>({
+      initialState: () => ({ items: 0 }),
+      steps: [
+        {
+          name: "collect",
+          retry: { maxAttempts: 3, baseDelayMs: 4, retryableCodes: ["STORAGE_LOCKED"] },
+          run: async (state) => {
+            fetches += 1
+            if (fetches < 3) {
+              throw new MachinaStorageError("STORAGE_LOCKED", "journal is locked")
+            }
+            return { ...state, items: 5 }
+          },
+        },
+        {
+          name: "deliver",
+          run: async (state, { payload, attempt }) => {
+            if (attempt === 1) {
+              throw new ChannelRuntimeError("CHANNEL_RATE_LIMITED", "slow down")
+            }
+            return { ...state, sentTo: payload.channel }
+          },
+        },
+      ],
+      result: (state) => `${state.items} items to ${state.sentTo}`,
+    }),
+  })
+
+  const execution = await engine.run<{ channel: string }, string>("digest.send", { payload: { channel: "ops" } })
+  expect(execution.status).toBe("completed")
+  expect(execution.result).toBe("5 items to ops")
+  expect(execution.attempts.map(({ step, attempt, status, code, retryInMs }) => ({ step, attempt, status, code, retryInMs }))).toEqual([
+    { step: "collect", attempt: 1, status: "failed", code: "STORAGE_LOCKED", retryInMs: 3 },
+    { step: "collect", attempt: 2, status: "failed", code: "STORAGE_LOCKED", retryInMs: 6 },
+    { step: "collect", attempt: 3, status: "completed", code: undefined, retryInMs: undefined },
+    { step: "deliver", attempt: 1, status: "failed", code: "CHANNEL_RATE_LIMITED", retryInMs: 1 },
+    { step: "deliver", attempt: 2, status: "completed", code: undefined, retryInMs: undefined },
+  ])
+  expect(execution.log.attempts).toEqual(execution.attempts)
+})
+
+test("non-retryable codes fail immediately and step timeouts abort the attempt signal", async () => {
+  const engine = new WorkflowEngine()
+  let aborted = false
+  engine.register<undefined, string>({
+    name: "index.refresh",
+    retry: { maxAttempts: 3, baseDelayMs: 1, retryableCodes: ["STORAGE_LOCKED"] },
+    run: async () => {
+      throw new MachinaStorageError("STORAGE_CORRUPT", "checksum mismatch")
+    },
+  })
+  engine.register<undefined, string>({
+    name: "index.probe",
+    steps: defineWorkflowSteps<undefined, string, string>({
+      initialState: () => "",
+      steps: [
+        {
+          name: "probe",
+          timeoutMs: 20,
+          retry: { maxAttempts: 2, baseDelayMs: 1 },
+          run: async (_, { signal }) => {
+            await sleepWithSignal(1_000, signal).catch((error) => {
+              aborted = signal.aborted
+              throw error
+            })
+            return "never"
+          },
+        },
+      ],
+      result: (state) => state,
+    }),
+  })
+
+  const refresh = await engine.run("index.refresh", { payload: undefined })
+  expect(refresh.status).toBe("failed")
+  expect(refresh.error).toBe("checksum mismatch")
+  expect(refresh.log.attempts).toEqual([expect.objectContaining({ attempt: 1, status: "failed", code: "STORAGE_CORRUPT" })])
+
+  const probe = await engine.run("index.probe", { payload: undefined })
+  expect(probe.status).toBe("failed")
+  expect(probe.error).toBe("WORKFLOW_TIMEOUT: Step probe timed out after 20ms")
+  expect(probe.attempts.map((attempt) => attempt.status)).toEqual(["timed-out", "timed-out"])
+  expect(aborted).toBe(true)
+})
+
+test("a timed-out attempt fails the run without waiting for it to settle", async () => {
+  const engine = new WorkflowEngine()
+  engine.register<undefined, string>({
+    name: "export.hang",
+    timeoutMs: 20,
+    run: () => new Promise<string>(() => undefined),
+  })
+
+  const startedAt = Date.now()
+  const execution = await engine.run("export.hang", { payload: undefined })
+  expect(execution.status).toBe("failed")
+  expect(execution.error).toBe("WORKFLOW_TIMEOUT: Workflow export.hang timed out after 20ms")
+  expect(Date.now() - startedAt).toBeLessThan(1_000)
+})
+
+test("a timed-out attempt keeps its concurrency slot until it settles", async () => {
+  const engine = new WorkflowEngine({ random: () => 0.5 })
+  const events: string[] = []
+  engine.register<undefined, string>({
+    name: "export.flush",
+    concurrency: 1,
+    steps: defineWorkflowSteps<undefined, string, string>({
+      initialState: () => "",
+      steps: [
+        {
+          name: "flush",
+          timeoutMs: 100,
+          retry: { maxAttempts: 2, baseDelayMs: 1 },
+          run: async (_, { attempt }) => {
+            events.push(`start:${attempt}`)
+            if (attempt === 1) {
+              await Bun.sleep(150)
+            }
+            events.push(`end:${attempt}`)
+            return "flushed"
+          },
+        },
+      ],
+      result: (state) => state,
+    }),
+  })
+
+  const execution = await engine.run<undefined, string>("export.flush", { payload: undefined })
+  expect(execution.status).toBe("completed")
+  expect(execution.attempts.map((attempt) => attempt.status)).toEqual(["timed-out", "completed"])
+  expect(events).toEqual(["start:1", "end:1", "start:2", "end:2"])
+})
+
+test("dependent steps wait for their branches while independent branches share bounded concurrency", async () => {
+  const engine = new WorkflowEngine({ concurrency: 3 })
+  const order: string[] = []
+  let running = 0
+  let peak = 0
+  const branch = (name: string, ms: number) => ({
+    name,
+    dependsOn: [] as string[],
+    run: async (_: Record<string, number>, { signal }: { signal: AbortSignal }) => {
+      running += 1
+      peak = Math.max(peak, running)
+      order.push(`start:${name}`)
+      await sleepWithSignal(ms, signal)
+      running -= 1
+      order.push(`end:${name}`)
+      return { [name]: ms }
+    },
+  })
+  engine.register<undefined, Record<string, number>>({
+    name: "fan.in",
+    concurrency: 2,
+    steps: defineWorkflowSteps<undefined, Record<string, number>, Record<string, number>>({
+      initialState: () => ({}),
+      steps: [
+        branch("a", 30),
+        branch("b", 10),
+        branch("c", 10),
+        {
+          name: "join",
+          dependsOn: ["a", "b", "c"],
+          run: async (state) => {
+            order.push("join")
+            return { total: Object.values(state).reduce((sum, value) => sum + value, 0) }
+          },
+        },
+      ],
+      result: (state) => state,
+    }),
+  })
+
+  const execution = await engine.run<undefined, Record<string, number>>("fan.in", { payload: undefined })
+  expect(execution.status).toBe("completed")
+  expect(execution.result).toEqual({ a: 30, b: 10, c: 10, total: 50 })
+  expect(peak).toBe(2)
+  expect(order.slice(0, 2)).toEqual(["start:a", "start:b"])
+  expect(order.indexOf("start:c")).toBeGreaterThan(order.indexOf("end:b"))
+  expect(order.at(-1)).toBe("join")
+  expect(execution.completedSteps?.at(-1)).toBe("join")
+  expect(() =>
+    engine.register({
+      name: "loop",
+      steps: defineWorkflowSteps<undefined, null, null>({
+        initialState: () => null,
+        steps: [
+          { name: "x", dependsOn: ["y"], run: async (state) => state },
+          { name: "y", dependsOn: ["x"], run: async (state) => state },
+        ],
+        result: (state) => state,
+      }),
+    }),
+  ).toThrow("dependency cycle: x -> y -> x")
+})
+
+test("a failing branch cancels running siblings through the shared signal", async () => {
+  const engine = new WorkflowEngine()
+  let siblingAborted = false
+  engine.register<undefined, null>({
+    name: "fan.fail",
+    steps: defineWorkflowSteps<undefined, null, null>({
+      initialState: () => null,
+      steps: [
+        {
+          name: "slow",
+          dependsOn: [],
+          run: async (state, { signal }) => {
+            signal.addEventListener("abort", () => {
+              siblingAborted = true
+            })
+            await sleepWithSignal(5_000, signal)
+            return state
+          },
+        },
+        {
+          name: "broken",
+          dependsOn: [],
+          run: async () => {
+            await Bun.sleep(5)
+            throw new MachinaStorageError("STORAGE_CORRUPT", "bad journal")
+          },
+        },
+        { name: "after", dependsOn: ["slow", "broken"], run: async (state) => state },
+      ],
+      result: (state) => state,
+    }),
+  })
+
+  const execution = await engine.run("fan.fail", { payload: undefined })
+  expect(execution.status).toBe("failed")
+  expect(execution.error).toBe("bad journal")
+  expect(siblingAborted).toBe(true)
+  expect(execution.completedSteps).toEqual([])
+  expect(execution.attempts.map((attempt) => `${attempt.step}:${attempt.status}`).sort()).toEqual([
+    "broken:failed",
+    "slow:cancelled",
+  ])
+})
@@ -1,11 +1,36 @@
+import { randomUUID } from "node:crypto"
+import { MachinaStorageError } from "./storage"
+import type { WorkflowCheckpoint, WorkflowRunCorruption, WorkflowRunRecord, WorkflowRunStore } from "./workflow-runs"
+
 export type WorkflowStatus = "completed" | "cancelled" | "failed"
 
+export type WorkflowAttemptStatus = "completed" | "failed" | "timed-out" | "cancelled"
+
+export type WorkflowAttempt = {
+  step?: string
+  attempt: number
+  status: WorkflowAttemptStatus
+  startedAt: string
+  finishedAt: string
+  error?: string
+  code?: string
+  retryInMs?: number
+}
+
+export type WorkflowRetryPolicy = {
+  maxAttempts?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  retryableCodes?: string[]
+}
+
 export type WorkflowLogEntry = {
   operationId: string
   workflowName: string
   status: WorkflowStatus
   startedAt: string
   finishedAt: string
+  attempts: WorkflowAttempt[]
 }
 
 export type WorkflowRunResult<Result> = {
@@ -16,12 +41,40 @@ export type WorkflowRunResult<Result> = {
   finishedAt: string
   result?: Result
   error?: string
+  completedSteps?: string[]
+  attempts: WorkflowAttempt[]
   log: WorkflowLogEntry
+  persistErrors?: string[]
+}
+
+export type WorkflowStep<Payload, State> = {
+  name: string
+  dependsOn?: string[]
+  run: (state: State, context: WorkflowContext<Payload>) => Promise<State>
+  retry?: WorkflowRetryPolicy
+  timeoutMs?: number
+}
+
+export type WorkflowSteps<Payload, Result, State = unknown> = {
+  initialState: (payload: Payload) => State
+  steps: Array<WorkflowStep<Payload, State>>
+  result: (state: State) => Result
+  merge?: (state: State, update: State, step: string) => State
 }
 
 export type WorkflowDefinition<Payload, Result> = {
   name: string
-  run: (context: WorkflowContext<Payload>) => Promise<Result>
+  run?: (context: WorkflowContext<Payload>) => Promise<Result>
+  steps?: WorkflowSteps<Payload, Result>
+  retry?: WorkflowRetryPolicy
+  timeoutMs?: number
+  concurrency?: number
+  persistPayload?: (payload: Payload) => unknown
+  resume?: (record: WorkflowRunRecord, context: WorkflowResumeContext) => Payload | undefined
+}
+
+export type WorkflowResumeContext = {
+  env: NodeJS.ProcessEnv
 }
 
 export type WorkflowContext<Payload> = {
@@ -30,6 +83,7 @@ export type WorkflowContext<Payload> = {
   operationId: string
   workflowName: string
   startedAt: string
+  attempt: number
   addCleanup: (cleanup: () => void | Promise<void>) => void
   throwIfAborted: () => void
 }
@@ -37,15 +91,63 @@ export type WorkflowContext<Payload> = {
 export type WorkflowRunOptions<Payload> = {
   payload: Payload
   cancelAfterMs?: number
+  store?: WorkflowRunStore
+  resumeOf?: string
+  checkpoint?: WorkflowCheckpoint
+}
+
+export type WorkflowResumeOptions<Payload> = {
+  store?: WorkflowRunStore
+  payload?: Payload
+  env?: NodeJS.ProcessEnv
+  cancelAfterMs?: number
+}
+
+export type WorkflowEngineOptions = {
+  store?: WorkflowRunStore
+  random?: () => number
+  concurrency?: number
+}
+
+export type WorkflowRecoveryOptions = {
+  store?: WorkflowRunStore
+  resume?: boolean
+  env?: NodeJS.ProcessEnv
+}
+
+export type WorkflowRecoveryResult = {
+  interrupted: WorkflowRunRecord[]
+  resumed: Array<WorkflowRunResult<unknown>>
+  corrupt: WorkflowRunCorruption[]
 }
 
 const ABORT_ERROR_NAME = "AbortError"
+const DEFAULT_RETRY_BASE_DELAY_MS = 250
+const DEFAULT_RETRY_MAX_DELAY_MS = 10_000
+const DEFAULT_ENGINE_CONCURRENCY = 4
 
 export class WorkflowEngine {
   private readonly definitions = new Map<string, WorkflowDefinition<unknown, unknown>>()
-  private readonly counters = new Map<string, number>()
+  private readonly store?: WorkflowRunStore
+  private readonly active = new Set<string>()
+  private readonly random: () => number
+  private readonly engineLimit: ConcurrencyLimit
+  private readonly workflowLimits = new Map<string, ConcurrencyLimit>()
+
+  constructor(options: WorkflowEngineOptions = {}) {
+    this.store = options.store
+    this.random = options.random ?? Math.random
+    this.engineLimit = new ConcurrencyLimit(options.concurrency ?? DEFAULT_ENGINE_CONCURRENCY)
+  }
 
   register<Payload, Result>(definition: WorkflowDefinition<Payload, Result>): void {
+    if (!definition.run === !definition.steps) {
+      throw new Error(`Workflow ${definition.name} must define exactly one of run or steps`)
+    }
+    if (definition.steps) {
+      resolveStepDependencies(definition.name, definition.steps.steps)
+    }
+    this.workflowLimits.set(definition.name, new ConcurrencyLimit(definition.concurrency ?? Number.POSITIVE_INFINITY))
     this.definitions.set(definition.name, definition as WorkflowDefinition<unknown, unknown>)
   }
 
@@ -63,7 +165,25 @@ export class WorkflowEngine {
       throw new Error(`Unknown workflow: ${workflowName}`)
     }
 
-    const operationId = this.createOperationId(workflowName)
+    const operationId = createOperationId(workflowName)
+    const store = options.store ?? this.store
+    this.active.add(operationId)
+    let writes = Promise.resolve()
+    const persistErrors: string[] = []
+    const persistRun = (write: () => Promise<unknown> | undefined) => {
+      writes = writes.then(() => persist(write, persistErrors))
+      return writes
+    }
+    await persistRun(() =>
+      store?.create({
+        operationId,
+        workflowName,
+        input: definition.persistPayload?.(options.payload),
+        resumeOf: options.resumeOf,
+        checkpoint: options.checkpoint,
+      }),
+    )
+    await persistRun(() => store?.transition(operationId, "running"))
     const startedAt = new Date().toISOString()
     const controller = new AbortController()
     const cleanups: Array<() => void | Promise<void>> = []
@@ -80,12 +200,9 @@ export class WorkflowEngine {
       operationId,
       workflowName,
       startedAt,
+      attempt: 1,
       addCleanup: (entry) => cleanups.push(entry),
-      throwIfAborted: () => {
-        if (controller.signal.aborted) {
-          throw createAbortError(controller.signal.reason)
-        }
-      },
+      throwIfAborted: () => throwIfSignalAborted(controller.signal),
     }
 
     const timeout =
@@ -98,9 +215,33 @@ export class WorkflowEngine {
     let status: WorkflowStatus = "failed"
     let result: Result | undefined
     let error: string | undefined
+    const completedSteps = [...(options.checkpoint?.completedSteps ?? [])]
+    const attempts: WorkflowAttempt[] = []
+    const limits = [this.workflowLimits.get(workflowName)!, this.engineLimit]
 
     try {
-      const workflowPromise = definition.run(context)
+      const workflowPromise = definition.steps
+        ? runSteps(definition, context, options.checkpoint, {
+            runStep: (step, state, branchContext) =>
+              runWithRetry(
+                {
+                  step: step.name,
+                  retry: step.retry ?? definition.retry,
+                  timeoutMs: step.timeoutMs ?? definition.timeoutMs,
+                  limits,
+                },
+                branchContext,
+                attempts,
+                this.random,
+                (attemptContext) => step.run(state, attemptContext),
+              ),
+            onStep: (state, step) => {
+              completedSteps.push(step)
+              const snapshot = [...completedSteps]
+              return persistRun(() => store?.checkpoint(operationId, { completedSteps: snapshot, state }))
+            },
+          })
+        : runWithRetry({ retry: definition.retry, timeoutMs: definition.timeoutMs }, context, attempts, this.random, definition.run!)
       const cancellable = waitForAbort(controller.signal)
       result = await Promise.race([workflowPromise, cancellable])
       status = "completed"
@@ -120,6 +261,8 @@ export class WorkflowEngine {
       await cleanup()
     }
 
+    await persistRun(() => store?.transition(operationId, status, error ? { error } : {}))
+    this.active.delete(operationId)
     const finishedAt = new Date().toISOString()
     const log: WorkflowLogEntry = {
       operationId,
@@ -127,6 +270,7 @@ export class WorkflowEngine {
       status,
       startedAt,
       finishedAt,
+      attempts: [...attempts],
     }
 
     return {
@@ -137,19 +281,101 @@ export class WorkflowEngine {
       finishedAt,
       result,
       error,
+      ...(definition.steps ? { completedSteps: [...completedSteps] } : {}),
+      attempts: [...attempts],
       log,
+      ...(persistErrors.length > 0 ? { persistErrors: [...persistErrors] } : {}),
     }
   }
 
-  private createOperationId(workflowName: string): string {
-    const current = this.counters.get(workflowName) ?? 0
-    const next = current + 1
-    this.counters.set(workflowName, next)
-    const safeName = workflowName.replace(/[^a-zA-Z0-9]+/g, "-")
-    return `op-${safeName}-${String(next).padStart(4, "0")}`
+  async resume<Payload, Result>(
+    operationId: string,
+    options: WorkflowResumeOptions<Payload> = {},
+  ): Promise<WorkflowRunResult<Result>> {
+    const store = options.store ?? this.store
+    const record = await store?.get(operationId)
+    if (!store || !record) {
+      throw new MachinaStorageError("WORKFLOW_RUN_NOT_FOUND", `Unknown workflow run: ${operationId}`)
+    }
+    if (record.status !== "failed" && record.status !== "cancelled") {
+      throw new MachinaStorageError(
+        "WORKFLOW_RUN_NOT_RESUMABLE",
+        `Workflow run ${operationId} is ${record.status}; only failed or cancelled runs can resume`,
+      )
+    }
+
+    const definition = this.definitions.get(record.workflowName) as WorkflowDefinition<Payload, Result> | undefined
+    const payload = options.payload ?? definition?.resume?.(record, { env: options.env ?? process.env })
+    if (payload === undefined) {
+      throw new MachinaStorageError(
+        "WORKFLOW_RUN_NOT_RESUMABLE",
+        `Workflow ${record.workflowName} cannot rebuild the payload of ${operationId}`,
+      )
+    }
+
+    return this.run<Payload, Result>(record.workflowName, {
+      payload,
+      store,
+      resumeOf: operationId,
+      checkpoint: record.checkpoint,
+      cancelAfterMs: options.cancelAfterMs,
+    })
+  }
+
+  async recover(options: WorkflowRecoveryOptions = {}): Promise<WorkflowRecoveryResult> {
+    const store = options.store ?? this.store
+    if (!store) {
+      return { interrupted: [], resumed: [], corrupt: [] }
+    }
+
+    const { records, corrupt } = await store.scan()
+    const interrupted: WorkflowRunRecord[] = []
+    const resumed: Array<WorkflowRunResult<unknown>> = []
+    for (const record of await store.findInterrupted(this.active, records)) {
+      const marked = await store
+        .transition(record.operationId, "failed", {
+          error: `WORKFLOW_INTERRUPTED: owner process ${record.owner.pid} exited while the run was ${record.status}`,
+          interrupted: true,
+        })
+        .catch((error) => {
+          if (readErrorCode(error) === "WORKFLOW_RUN_TRANSITION_INVALID") {
+            return null
+          }
+          throw error
+        })
+      if (!marked) {
+        continue
+      }
+      interrupted.push(marked)
+
+      const definition = this.definitions.get(record.workflowName)
+      const payload = options.resume ? definition?.resume?.(marked, { env: options.env ?? process.env }) : undefined
+      if (payload !== undefined) {
+        resumed.push(
+          await this.run(record.workflowName, {
+            payload,
+            store,
+            resumeOf: record.operationId,
+            checkpoint: marked.checkpoint,
+          }),
+        )
+      }
+    }
+    return { interrupted, resumed, corrupt }
   }
 }
 
+export function defineWorkflowSteps<Payload, State, Result>(
+  steps: WorkflowSteps<Payload, Result, State>,
+): WorkflowSteps<Payload, Result> {
+  return steps as unknown as WorkflowSteps<Payload, Result>
+}
+
+export function createOperationId(workflowName: string): string {
+  const safeName = workflowName.replace(/[^a-zA-Z0-9]+/g, "-")
+  return `op-${safeName}-${randomUUID()}`
+}
+
 export function sleepWithSignal(ms: number, signal: AbortSignal): Promise<void> {
   if (signal.aborted) {
     return Promise.reject(createAbortError(signal.reason))
@@ -171,6 +397,12 @@ export function sleepWithSignal(ms: number, signal: AbortSignal): Promise<void>
   })
 }
 
+export function throwIfSignalAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw createAbortError(signal.reason)
+  }
+}
+
 export function waitForAbort(signal: AbortSignal): Promise<never> {
   if (signal.aborted) {
     return Promise.reject(createAbortError(signal.reason))
@@ -185,6 +417,272 @@ export function waitForAbort(signal: AbortSignal): Promise<never> {
   })
 }
 
+async function runSteps<Payload, Result>(
+  definition: WorkflowDefinition<Payload, Result>,
+  context: WorkflowContext<Payload>,
+  checkpoint: WorkflowCheckpoint | undefined,
+  handlers: {
+    runStep: (step: WorkflowStep<Payload, unknown>, state: unknown, branchContext: WorkflowContext<Payload>) => Promise<unknown>
+    onStep: (state: unknown, step: string) => Promise<void>
+  },
+): Promise<Result> {
+  const steps = definition.steps!
+  const dependencies = resolveStepDependencies(definition.name, steps.steps)
+  const merge = steps.merge ?? mergeStepState
+  const completed = new Set(checkpoint?.completedSteps ?? [])
+  const pending = steps.steps.filter((step) => !completed.has(step.name))
+  const running = new Map<string, Promise<void>>()
+  let state = checkpoint ? checkpoint.state : steps.initialState(context.payload)
+  let failure: { cause: unknown } | undefined
+
+  const controller = new AbortController()
+  const forwardAbort = () => controller.abort(context.signal.reason)
+  context.signal.addEventListener("abort", forwardAbort, { once: true })
+  if (context.signal.aborted) {
+    forwardAbort()
+  }
+  const branchContext: WorkflowContext<Payload> = {
+    ...context,
+    signal: controller.signal,
+    throwIfAborted: () => throwIfSignalAborted(controller.signal),
+  }
+
+  try {
+    while (pending.length > 0 || running.size > 0) {
+      for (const step of [...pending]) {
+        if (failure || !dependencies.get(step.name)!.every((name) => completed.has(name))) {
+          continue
+        }
+        pending.splice(pending.indexOf(step), 1)
+        running.set(
+          step.name,
+          (async () => {
+            try {
+              branchContext.throwIfAborted()
+              const update = await handlers.runStep(step, state, branchContext)
+              state = merge(state, update, step.name)
+              completed.add(step.name)
+              await handlers.onStep(state, step.name)
+            } catch (cause) {
+              if (!failure) {
+                failure = { cause }
+                controller.abort(cause)
+              }
+            } finally {
+              running.delete(step.name)
+            }
+          })(),
+        )
+      }
+
+      if (running.size === 0) {
+        break
+      }
+      await Promise.race(running.values())
+    }
+  } finally {
+    context.signal.removeEventListener("abort", forwardAbort)
+  }
+
+  if (failure) {
+    throw failure.cause
+  }
+  return steps.result(state)
+}
+
+function resolveStepDependencies(
+  workflowName: string,
+  steps: Array<Pick<WorkflowStep<unknown, unknown>, "name" | "dependsOn">>,
+): Map<string, string[]> {
+  const dependencies = new Map<string, string[]>()
+  steps.forEach((step, index) => {
+    if (dependencies.has(step.name)) {
+      throw new Error(`Workflow ${workflowName} declares step ${step.name} more than once`)
+    }
+    dependencies.set(step.name, step.dependsOn ?? (index > 0 ? [steps[index - 1]!.name] : []))
+  })
+
+  for (const [name, needs] of dependencies) {
+    const unknown = needs.find((need) => !dependencies.has(need))
+    if (unknown) {
+      throw new Error(`Workflow ${workflowName} step ${name} depends on unknown step ${unknown}`)
+    }
+  }
+
+  const visiting = new Set<string>()
+  const visited = new Set<string>()
+  const visit = (name: string, path: string[]) => {
+    if (visited.has(name)) {
+      return
+    }
+    if (visiting.has(name)) {
+      throw new Error(`Workflow ${workflowName} has a dependency cycle: ${[...path, name].join(" -> ")}`)
+    }
+    visiting.add(name)
+    for (const need of dependencies.get(name)!) {
+      visit(need, [...path, name])
+    }
+    visiting.delete(name)
+    visited.add(name)
+  }
+  for (const name of dependencies.keys()) {
+    visit(name, [])
+  }
+  return dependencies
+}
+
+function mergeStepState(state: unknown, update: unknown): unknown {
+  if (isPlainObject(state) && isPlainObject(update)) {
+    return { ...state, ...update }
+  }
+  return update
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+class ConcurrencyLimit {
+  private readonly limit: number
+  private active = 0
+  private readonly waiting: Array<() => void> = []
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit)
+  }
+
+  async acquire(signal: AbortSignal): Promise<() => void> {
+    throwIfSignalAborted(signal)
+    if (this.active >= this.limit) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.waiting.splice(this.waiting.indexOf(grant), 1)
+          reject(createAbortError(signal.reason))
+        }
+        const grant = () => {
+          signal.removeEventListener("abort", onAbort)
+          resolve()
+        }
+        this.waiting.push(grant)
+        signal.addEventListener("abort", onAbort, { once: true })
+      })
+    } else {
+      this.active += 1
+    }
+
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      const next = this.waiting.shift()
+      if (next) {
+        next()
+      } else {
+        this.active -= 1
+      }
+    }
+  }
+}
+
+async function acquireAll(limits: ConcurrencyLimit[], signal: AbortSignal): Promise<() => void> {
+  const releases: Array<() => void> = []
+  try {
+    for (const limit of limits) {
+      releases.push(await limit.acquire(signal))
+    }
+  } catch (error) {
+    releases.reverse().forEach((release) => release())
+    throw error
+  }
+  return () => releases.reverse().forEach((release) => release())
+}
+
+async function runWithRetry<Payload, Value>(
+  target: { step?: string; retry?: WorkflowRetryPolicy; timeoutMs?: number; limits?: ConcurrencyLimit[] },
+  context: WorkflowContext<Payload>,
+  attempts: WorkflowAttempt[],
+  random: () => number,
+  run: (attemptContext: WorkflowContext<Payload>) => Promise<Value>,
+): Promise<Value> {
+  const policy = target.retry ?? {}
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts ?? 1))
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS
+  const label = target.step ? `Step ${target.step}` : `Workflow ${context.workflowName}`
+
+  for (let attempt = 1; ; attempt += 1) {
+    context.throwIfAborted()
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort(context.signal.reason)
+    context.signal.addEventListener("abort", forwardAbort, { once: true })
+    const timer =
+      typeof target.timeoutMs === "number" && target.timeoutMs >= 0
+        ? setTimeout(() => controller.abort(new Error(`${label} timed out after ${target.timeoutMs}ms`)), target.timeoutMs)
+        : null
+    const startedAt = new Date().toISOString()
+    const base = { ...(target.step ? { step: target.step } : {}), attempt, startedAt }
+
+    try {
+      const release = target.limits ? await acquireAll(target.limits, controller.signal) : () => undefined
+      const pending = Promise.resolve().then(() =>
+        run({
+          ...context,
+          attempt,
+          signal: controller.signal,
+          throwIfAborted: () => throwIfSignalAborted(controller.signal),
+        }),
+      )
+      void pending.then(release, release)
+      const value = await Promise.race([pending, waitForAbort(controller.signal)])
+      attempts.push({ ...base, status: "completed", finishedAt: new Date().toISOString() })
+      return value
+    } catch (cause) {
+      const finishedAt = new Date().toISOString()
+      if (context.signal.aborted) {
+        attempts.push({ ...base, status: "cancelled", finishedAt, error: normalizeError(cause).message })
+        throw cause
+      }
+
+      const timedOut = controller.signal.aborted
+      const failure = timedOut ? new Error(`WORKFLOW_TIMEOUT: ${label} timed out after ${target.timeoutMs}ms`) : cause
+      const code = readErrorCode(failure)
+      const retryable =
+        attempt < maxAttempts && (policy.retryableCodes === undefined || (code !== undefined && policy.retryableCodes.includes(code)))
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+      const retryInMs = retryable ? Math.round(backoff / 2 + random() * (backoff / 2)) : undefined
+      attempts.push({
+        ...base,
+        status: timedOut ? "timed-out" : "failed",
+        finishedAt,
+        error: normalizeError(failure).message,
+        ...(code ? { code } : {}),
+        ...(retryInMs !== undefined ? { retryInMs } : {}),
+      })
+      if (retryInMs === undefined) {
+        throw failure
+      }
+      await sleepWithSignal(retryInMs, context.signal)
+    } finally {
+      if (timer !== null) {
+        clearTimeout(timer)
+      }
+      context.signal.removeEventListener("abort", forwardAbort)
+    }
+  }
+}
+
+async function persist(write: () => Promise<unknown> | undefined, errors: string[]): Promise<void> {
+  await Promise.resolve()
+    .then(write)
+    .catch((error) => {
+      const code = readErrorCode(error)
+      const message = normalizeError(error).message
+      errors.push(code && !message.startsWith(code) ? `${code}: ${message}` : message)
+    })
+}
+
 function createAbortError(reason: unknown): Error {
   const message = reason instanceof Error ? reason.message : "Workflow cancelled"
   const error = new Error(message)
@@ -192,6 +690,14 @@ function createAbortError(reason: unknown): Error {
   return error
 }
 
+function readErrorCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | null)?.code
+  if (typeof code === "string") {
+    return code
+  }
+  return /^([A-Z][A-Z0-9_]+): /.exec(normalizeError(error).message)?.[1]
+}
+
 function normalizeError(error: unknown): Error {
   if (error instanceof Error) {
     return error